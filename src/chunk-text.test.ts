@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { GrepMatcher, GrepScanner, LineCollector, decodeText, detectCharset } from './chunk-text.js';
+import { RegexHit } from './regex-worker.js';
+
+// Matches on the test thread; the server matches in a RegexWorker
+function regexMatcher(pattern: RegExp): GrepMatcher {
+  return async (lines, limit) => {
+    const hits: RegexHit[] = [];
+    for (let line = 0; line < lines.length && hits.length < limit; line++) {
+      for (const found of lines[line].matchAll(pattern)) {
+        hits.push([line, found.index!, found[0]]);
+        if (hits.length >= limit) break;
+      }
+    }
+    return hits;
+  };
+}
+
+describe('chunk text decoding', () => {
+  // "naïve café 😀" with a 2-byte, a 2-byte and a 4-byte character
+  const bytes = Buffer.from('naïve café 😀 done', 'utf8');
+
+  it('should hold back a character cut off at the end of a range and skip one cut off at the start', () => {
+    const emoji = bytes.indexOf(0xf0);
+    const first = decodeText(bytes.subarray(0, emoji + 2), 'utf-8', { midStream: false, final: false });
+
+    expect(first).toEqual({ text: 'naïve café ', charset: 'utf-8', skippedLeadingBytes: 0, decodedBytes: emoji });
+
+    const next = decodeText(bytes.subarray(first.decodedBytes), 'utf-8', { midStream: true, final: true });
+    expect(next.text).toBe('😀 done');
+
+    const mid = decodeText(bytes.subarray(emoji + 1), 'utf-8', { midStream: true, final: true });
+    expect(mid).toMatchObject({ text: ' done', skippedLeadingBytes: 3 });
+  });
+
+  it('should decode with the declared charset and keep UTF-16 code units whole', () => {
+    expect(decodeText(Buffer.from([0x63, 0x61, 0x66, 0xe9]), 'iso-8859-1', { midStream: false, final: true }).text).toBe('café');
+
+    const utf16 = Buffer.from('a😀', 'utf16le');
+    expect(decodeText(utf16.subarray(0, 5), 'utf-16le', { midStream: false, final: false })).toMatchObject({ text: 'a', decodedBytes: 2 });
+  });
+
+  it('should tell text from binary', () => {
+    expect(detectCharset('application/json', Buffer.from('{}'))).toBe('utf-8');
+    expect(detectCharset('text/plain; charset="Shift_JIS"', Buffer.from('x'))).toBe('shift_jis');
+    expect(detectCharset('application/octet-stream', Buffer.from('2024-01-01 INFO started\n'))).toBe('utf-8');
+    expect(detectCharset('application/octet-stream', Buffer.from([0x1f, 0x8b, 0x08, 0x00, 0x12]))).toBeUndefined();
+    expect(detectCharset(null, Buffer.from([0xff, 0xfe, 0x61, 0x00]))).toBe('utf-16le');
+  });
+
+  it('should collect a line range from bytes pushed in arbitrary pieces', () => {
+    const file = Buffer.from('one\r\ntwo\nthrée\nfour\nfive');
+    const collector = new LineCollector(2, 3, 1024);
+
+    const pieces = [file.subarray(0, 7), file.subarray(7, 13), file.subarray(13)];
+    expect(pieces.map(piece => collector.push(piece))).toEqual([false, false, true]);
+    expect(collector.result('utf-8', false)).toEqual({
+      startLine: 2, endLine: 3, lines: ['two', 'thrée'], startByte: 5, endByte: 16, eof: false, totalLines: null, truncated: false,
+    });
+
+    const tail = new LineCollector(4, 10, 1024);
+    tail.push(file);
+    expect(tail.result('utf-8', true)).toMatchObject({ startLine: 4, endLine: 5, lines: ['four', 'five'], eof: true, totalLines: 5 });
+  });
+
+  it('should grep lines split across pushes and stop once the last match has its context', async () => {
+    const file = Buffer.from('start\nfailed: café\nok\nfailed again\nok\nfailed late\n');
+    const scanner = new GrepScanner(regexMatcher(/fail\w*/g), 'utf-8', { start: 1000, contextLines: 1, maxMatches: 2, maxLineBytes: 1024 });
+
+    // Cut inside the first match and inside the é
+    const pieces = [file.subarray(0, 9), file.subarray(9, 19), file.subarray(19)];
+    const done = [];
+    for (const piece of pieces) done.push(await scanner.push(piece));
+    expect(done).toEqual([false, false, true]);
+    expect(scanner.matches).toEqual([
+      { line: 2, byteOffset: 1006, column: 1, match: 'failed', text: 'failed: café', before: ['start'], after: ['ok'] },
+      { line: 4, byteOffset: 1023, column: 1, match: 'failed', text: 'failed again', before: ['ok'], after: ['ok'] },
+    ]);
+    expect(scanner.position).toBe(1039);
+
+    const long = new GrepScanner(regexMatcher(/x/g), 'utf-8', { start: 0, contextLines: 0, maxMatches: 5, maxLineBytes: 4 });
+    await long.push(Buffer.from('abcdx\nx'));
+    await long.finish();
+    expect(long.matches.map(match => [match.line, match.byteOffset])).toEqual([[2, 6]]);
+
+    // Offsets count bytes whatever the label of the charset
+    const labelled = new GrepScanner(regexMatcher(/x/g), 'UTF8', { start: 0, contextLines: 0, maxMatches: 5, maxLineBytes: 1024 });
+    await labelled.push(Buffer.from('ééx\n'));
+    expect(labelled.matches[0]).toMatchObject({ column: 3, byteOffset: 4 });
+  });
+});
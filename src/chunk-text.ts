@@ -0,0 +1,350 @@
+import { RegexHit } from './regex-worker.js';
+
+/**
+ * Text decoding for fetch_chunk, fetch_lines and fetch_grep
+ *
+ * A byte range can start or end inside a multi-byte character. Decoding drops
+ * the continuation bytes a range starts with and holds back a character the
+ * range cuts off, and reports how many bytes were decoded so the next range
+ * can start exactly where this one stopped.
+ */
+
+export type ChunkEncoding = 'base64' | 'text' | 'auto';
+
+export type DecodedText = {
+  text: string;
+  // Canonical name of the charset the bytes were decoded with
+  charset: string;
+  skippedLeadingBytes: number;
+  // Bytes from the start of the chunk up to the end of the last whole character
+  decodedBytes: number;
+};
+
+// Media types that are text whatever their bytes look like
+const TEXT_MEDIA_TYPE = /^(text\/|application\/(json|xml|javascript|ecmascript|x-ndjson|x-yaml|yaml|toml|x-sh|x-www-form-urlencoded|sql|graphql)\b|[^;]*\+(json|xml)\b)/i;
+
+// Bytes inspected when a response has neither a charset nor a text media type
+const SNIFF_BYTES = 4096;
+
+export function charsetFromContentType(contentType: string | null): string | undefined {
+  const match = contentType?.match(/;\s*charset\s*=\s*"?([^";\s]+)"?/i);
+  return match ? match[1].toLowerCase() : undefined;
+}
+
+function charsetFromBom(bytes: Uint8Array): string | undefined {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return undefined;
+}
+
+/**
+ * The charset to decode a response with in `auto` mode, or undefined if it
+ * looks binary and should stay base64
+ */
+export function detectCharset(contentType: string | null, bytes: Uint8Array): string | undefined {
+  const declared = charsetFromContentType(contentType) ?? charsetFromBom(bytes);
+  if (declared) return declared;
+  if (contentType && TEXT_MEDIA_TYPE.test(contentType)) return 'utf-8';
+
+  const sample = bytes.subarray(0, SNIFF_BYTES);
+  if (sample.includes(0)) return undefined;
+  const { text } = decodeText(sample, 'utf-8', { midStream: true, final: bytes.length <= SNIFF_BYTES });
+  // Replacement characters mean invalid UTF-8; control characters other than whitespace and escapes mean binary
+  const suspicious = (text.match(/[�\x01-\x08\x0E-\x1A\x1C-\x1F\x7F]/g) ?? []).length;
+  return suspicious <= text.length * 0.02 ? 'utf-8' : undefined;
+}
+
+function utf8SequenceLength(lead: number): number {
+  if (lead < 0x80) return 1;
+  if (lead >= 0xf0) return 4;
+  if (lead >= 0xe0) return 3;
+  if (lead >= 0xc0) return 2;
+  return 1;
+}
+
+/**
+ * Decodes a chunk of a larger file. `midStream` says the chunk does not start
+ * at byte 0, `final` that it ends at the end of the file, where a cut-off
+ * character is decoded as a replacement character instead of being held back.
+ */
+export function decodeText(bytes: Uint8Array, charset: string, position: { midStream: boolean; final: boolean }): DecodedText {
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset);
+  } catch {
+    // Unknown labels fall back to the most likely charset
+    decoder = new TextDecoder('utf-8');
+  }
+
+  let start = 0;
+  let end = bytes.length;
+  if (decoder.encoding === 'utf-8') {
+    if (position.midStream) {
+      while (start < Math.min(3, end) && (bytes[start] & 0xc0) === 0x80) start++;
+    }
+    if (!position.final) {
+      // Find the last lead byte and check its sequence fits in the chunk
+      let lead = end - 1;
+      while (lead > start && lead > end - 4 && (bytes[lead] & 0xc0) === 0x80) lead--;
+      if (lead >= start && lead + utf8SequenceLength(bytes[lead]) > end) end = lead;
+    }
+  } else if (decoder.encoding === 'utf-16le' || decoder.encoding === 'utf-16be') {
+    if (!position.final) {
+      end -= (end - start) % 2;
+      // Hold back a high surrogate whose pair is in the next chunk
+      const unit = decoder.encoding === 'utf-16le' ? bytes[end - 1] : bytes[end - 2];
+      if (end - start >= 2 && unit >= 0xd8 && unit <= 0xdb) end -= 2;
+    }
+  }
+
+  return {
+    text: decoder.decode(bytes.subarray(start, end)),
+    charset: decoder.encoding,
+    skippedLeadingBytes: start,
+    decodedBytes: end,
+  };
+}
+
+// Charsets in which a 0x0A byte is always a line feed
+export function isAsciiCompatible(charset: string): boolean {
+  try {
+    return !new TextDecoder(charset).encoding.startsWith('utf-16');
+  } catch {
+    return true;
+  }
+}
+
+export type LineRange = {
+  startLine: number;
+  endLine: number;
+  lines: string[];
+  // Byte offsets of the first line and just past the last one
+  startByte: number;
+  endByte: number;
+  eof: boolean;
+  // Known once the scan reached the end of the file
+  totalLines: number | null;
+  // The lines were cut off at the byte limit; the last one is incomplete
+  truncated: boolean;
+};
+
+/**
+ * Collects lines startLine..endLine (1-based, inclusive) from bytes pushed in
+ * file order; push returns true once the last wanted line is complete
+ */
+export class LineCollector {
+  private line = 1;
+  private offset = 0;
+  private startByte: number;
+  private parts: Uint8Array[] = [];
+  private collectedBytes = 0;
+  private endsWithNewline = false;
+  private truncated = false;
+
+  constructor(private startLine: number, private endLine: number, private maxBytes: number) {
+    this.startByte = startLine === 1 ? 0 : -1;
+  }
+
+  get bytesScanned(): number {
+    return this.offset;
+  }
+
+  push(chunk: Uint8Array): boolean {
+    let pos = 0;
+    while (pos < chunk.length) {
+      const newline = chunk.indexOf(0x0a, pos);
+      const stop = newline === -1 ? chunk.length : newline + 1;
+
+      if (this.line >= this.startLine) {
+        if (this.collectedBytes + (stop - pos) > this.maxBytes) {
+          this.parts.push(chunk.slice(pos, pos + this.maxBytes - this.collectedBytes));
+          this.truncated = true;
+          return true;
+        }
+        this.parts.push(chunk.slice(pos, stop));
+        this.collectedBytes += stop - pos;
+      }
+      this.offset += stop - pos;
+      this.endsWithNewline = newline !== -1;
+      pos = stop;
+
+      if (newline !== -1) {
+        this.line++;
+        if (this.line === this.startLine) this.startByte = this.offset;
+        if (this.line > this.endLine) return true;
+      }
+    }
+    return false;
+  }
+
+  result(charset: string, eof: boolean): LineRange {
+    const bytes = Buffer.concat(this.parts);
+    // A truncated line can end inside a character, which is left out
+    const { text, decodedBytes } = decodeText(bytes, charset, { midStream: false, final: !this.truncated });
+    const lines = text === '' ? [] : text.replace(/\r?\n$/, '').split(/\r?\n/);
+    const totalLines = eof ? (this.endsWithNewline || this.offset === 0 ? this.line - 1 : this.line) : null;
+    const startByte = this.startByte === -1 ? this.offset : this.startByte;
+
+    return {
+      startLine: this.startLine,
+      endLine: this.startLine + lines.length - 1,
+      lines,
+      startByte,
+      endByte: startByte + decodedBytes,
+      eof,
+      totalLines,
+      truncated: this.truncated,
+    };
+  }
+}
+
+export type GrepMatch = {
+  // Counted from the first line of the scanned window
+  line: number;
+  // Absolute offset of the first byte of the match
+  byteOffset: number;
+  column: number;
+  match: string;
+  text: string;
+  before: string[];
+  after: string[];
+};
+
+// Longest line text returned; longer lines are cut to a window around the match
+const GREP_LINE_CHARS = 500;
+
+function clip(text: string, around = 0): string {
+  if (text.length <= GREP_LINE_CHARS) return text;
+  const from = Math.max(0, Math.min(around - GREP_LINE_CHARS / 2, text.length - GREP_LINE_CHARS));
+  return (from > 0 ? '…' : '') + text.slice(from, from + GREP_LINE_CHARS) + (from + GREP_LINE_CHARS < text.length ? '…' : '');
+}
+
+// Finds the matches in a batch of lines, at most `limit` of them, in line order
+export type GrepMatcher = (lines: string[], limit: number) => Promise<RegexHit[]>;
+
+type ScannedLine = { text: string; charset: string; start: number; end: number; skippedLeadingBytes: number; line: number };
+
+/**
+ * Runs a matcher over each line of bytes pushed in file order. Lines are
+ * reassembled across pushes, so a match split between two ranges is still
+ * found; push resolves to true once maxMatches matches and their trailing
+ * context are complete.
+ */
+export class GrepScanner {
+  readonly matches: GrepMatch[] = [];
+  private pending: Uint8Array[] = [];
+  private pendingBytes = 0;
+  private lineBytes = 0;
+  private line = 1;
+  private lineStart: number;
+  private scanned: number;
+  private previous: string[] = [];
+  private awaitingContext: GrepMatch[] = [];
+
+  constructor(
+    private matcher: GrepMatcher,
+    private charset: string,
+    private options: { start: number; contextLines: number; maxMatches: number; maxLineBytes: number }
+  ) {
+    this.lineStart = options.start;
+    this.scanned = options.start;
+  }
+
+  // Offset of the first byte not yet scanned as part of a complete line
+  get position(): number {
+    return this.scanned;
+  }
+
+  get full(): boolean {
+    return this.matches.length >= this.options.maxMatches;
+  }
+
+  async push(chunk: Uint8Array): Promise<boolean> {
+    const lines: ScannedLine[] = [];
+    let pos = 0;
+    while (pos < chunk.length) {
+      const newline = chunk.indexOf(0x0a, pos);
+      const stop = newline === -1 ? chunk.length : newline + 1;
+      // Only the start of an overlong line is kept for matching
+      const keep = Math.min(stop - pos, this.options.maxLineBytes - this.pendingBytes);
+      if (keep > 0) {
+        this.pending.push(chunk.slice(pos, pos + keep));
+        this.pendingBytes += keep;
+      }
+      this.lineBytes += stop - pos;
+      pos = stop;
+
+      if (newline !== -1) lines.push(this.endLine());
+    }
+    return this.scan(lines);
+  }
+
+  // The last line of the file has no line feed
+  async finish(): Promise<void> {
+    if (this.lineBytes > 0) await this.scan([this.endLine()]);
+  }
+
+  private endLine(): ScannedLine {
+    const { text, charset, skippedLeadingBytes } = decodeText(Buffer.concat(this.pending), this.charset, {
+      midStream: this.lineStart === this.options.start && this.options.start > 0,
+      final: true,
+    });
+    const line = {
+      text: text.replace(/\r?\n$/, ''),
+      // The decoder's canonical name, whatever label the response used
+      charset,
+      start: this.lineStart,
+      end: this.lineStart + this.lineBytes,
+      skippedLeadingBytes,
+      line: this.line,
+    };
+    this.lineStart = line.end;
+    this.line++;
+    this.pending = [];
+    this.pendingBytes = 0;
+    this.lineBytes = 0;
+    return line;
+  }
+
+  // Matches a batch of complete lines, then adds the lines as context in order
+  private async scan(lines: ScannedLine[]): Promise<boolean> {
+    const hits = this.full || lines.length === 0
+      ? []
+      : await this.matcher(lines.map(line => line.text), this.options.maxMatches - this.matches.length);
+
+    let next = 0;
+    for (const [index, line] of lines.entries()) {
+      const { text } = line;
+      for (const match of this.awaitingContext) {
+        match.after.push(clip(text));
+      }
+      this.awaitingContext = this.awaitingContext.filter(match => match.after.length < this.options.contextLines);
+
+      for (; next < hits.length && hits[next][0] === index; next++) {
+        const [, column, found] = hits[next];
+        const prefix = text.slice(0, column);
+        const match: GrepMatch = {
+          line: line.line,
+          // Byte lengths are exact for UTF-8 and single-byte charsets
+          byteOffset: line.start + line.skippedLeadingBytes + (line.charset === 'utf-8' ? Buffer.byteLength(prefix, 'utf8') : prefix.length),
+          column: column + 1,
+          match: clip(found),
+          text: clip(text, column),
+          before: [...this.previous],
+          after: [],
+        };
+        this.matches.push(match);
+        if (this.options.contextLines > 0) this.awaitingContext.push(match);
+      }
+
+      if (this.options.contextLines > 0) {
+        this.previous.push(clip(text));
+        if (this.previous.length > this.options.contextLines) this.previous.shift();
+      }
+      this.scanned = line.end;
+      if (this.full && this.awaitingContext.length === 0) return true;
+    }
+    return false;
+  }
+}
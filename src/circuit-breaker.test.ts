@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CircuitBreaker } from './circuit-breaker.js';
+
+describe('circuit breaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    breaker = new CircuitBreaker({
+      enabled: true,
+      failureThreshold: 3,
+      windowMs: 10000,
+      openMs: 5000,
+      errorTypes: ['SERVICE_CAPACITY_ERROR', 'NETWORK_ERROR'],
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const fail = (errorType: string, times: number) => {
+    for (let i = 0; i < times; i++) {
+      expect(breaker.acquire()).toBeUndefined();
+      breaker.recordFailure(errorType);
+    }
+  };
+
+  it('should open after the threshold within the window and fail fast', () => {
+    fail('NETWORK_ERROR', 2);
+    vi.advanceTimersByTime(11000);
+    fail('NETWORK_ERROR', 2);
+    expect(breaker.stats().circuits[1]).toMatchObject({ errorType: 'NETWORK_ERROR', state: 'closed', recentFailures: 2 });
+
+    fail('NETWORK_ERROR', 1);
+    const rejected = breaker.acquire();
+    expect(rejected).toMatchObject({ errorType: 'NETWORK_ERROR', state: 'open', recentFailures: 3 });
+    expect(rejected!.halfOpensAt.getTime()).toBe(Date.now() + 5000);
+    expect(breaker.stats()).toMatchObject({ rejected: 1, history: [{ from: 'closed', to: 'open' }] });
+  });
+
+  it('should ignore error types it does not track', () => {
+    fail('VALIDATION_ERROR', 5);
+    expect(breaker.acquire()).toBeUndefined();
+  });
+
+  it('should let one trial call through when half-open and close on success', () => {
+    fail('SERVICE_CAPACITY_ERROR', 3);
+    vi.advanceTimersByTime(5000);
+
+    expect(breaker.acquire()).toBeUndefined();
+    expect(breaker.acquire()).toMatchObject({ state: 'half-open' });
+
+    breaker.recordSuccess();
+    expect(breaker.acquire()).toBeUndefined();
+    expect(breaker.stats().circuits[0]).toMatchObject({ state: 'closed', recentFailures: 0, trips: 1 });
+    expect(breaker.stats().history.map(t => t.to)).toEqual(['open', 'half-open', 'closed']);
+  });
+
+  it('should reopen when the trial call fails and free the trial slot when it is released', () => {
+    fail('SERVICE_CAPACITY_ERROR', 3);
+    vi.advanceTimersByTime(5000);
+
+    expect(breaker.acquire()).toBeUndefined();
+    breaker.release();
+    expect(breaker.acquire()).toBeUndefined();
+
+    breaker.recordFailure('SERVICE_CAPACITY_ERROR');
+    expect(breaker.acquire()).toMatchObject({ state: 'open' });
+    expect(breaker.stats().circuits[0]).toMatchObject({ state: 'open', trips: 2 });
+  });
+});
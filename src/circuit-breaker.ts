@@ -0,0 +1,180 @@
+import { CircuitBreakerSettings } from './config.js';
+
+/**
+ * Circuit breaker for the Q CLI
+ *
+ * One circuit per tracked error type. A circuit opens after `failureThreshold`
+ * failures of its type within `windowMs`; while it is open every call fails
+ * fast instead of going through the retry loop. After `openMs` the circuit is
+ * half-open: a single trial call goes through, and its outcome closes the
+ * circuit again or reopens it. Any successful call clears the failure counts.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type CircuitTransition = {
+  timestamp: string;
+  errorType: string;
+  from: CircuitState;
+  to: CircuitState;
+  reason: string;
+};
+
+export type CircuitStatus = {
+  errorType: string;
+  state: CircuitState;
+  // Failures of this type within the window
+  recentFailures: number;
+  trips: number;
+  openedAt?: string;
+  halfOpensAt?: string;
+};
+
+export type CircuitBreakerStats = {
+  enabled: boolean;
+  circuits: CircuitStatus[];
+  rejected: number;
+  history: CircuitTransition[];
+};
+
+// A call the breaker refused, with the circuit that refused it
+export interface OpenCircuit {
+  errorType: string;
+  state: CircuitState;
+  halfOpensAt: Date;
+  recentFailures: number;
+}
+
+interface Circuit {
+  errorType: string;
+  failures: number[];
+  trips: number;
+  openedAt?: number;
+  // A half-open circuit lets exactly one trial call through at a time
+  trialInFlight: boolean;
+  halfOpenRecorded: boolean;
+}
+
+const HISTORY_LIMIT = 50;
+
+export class CircuitBreaker {
+  private circuits = new Map<string, Circuit>();
+  private history: CircuitTransition[] = [];
+  private rejected = 0;
+
+  constructor(private settings: CircuitBreakerSettings) {
+    for (const errorType of settings.errorTypes) {
+      this.circuits.set(errorType, { errorType, failures: [], trips: 0, trialInFlight: false, halfOpenRecorded: false });
+    }
+  }
+
+  private stateOf(circuit: Circuit, now: number): CircuitState {
+    if (circuit.openedAt === undefined) return 'closed';
+    return now < circuit.openedAt + this.settings.openMs ? 'open' : 'half-open';
+  }
+
+  private transition(circuit: Circuit, from: CircuitState, to: CircuitState, reason: string): void {
+    this.history.push({ timestamp: new Date().toISOString(), errorType: circuit.errorType, from, to, reason });
+    if (this.history.length > HISTORY_LIMIT) {
+      this.history.shift();
+    }
+  }
+
+  /**
+   * Call before each attempt. Returns the circuit that refuses the call, or
+   * undefined when it may go ahead (possibly as a half-open circuit's trial).
+   */
+  acquire(): OpenCircuit | undefined {
+    if (!this.settings.enabled) return undefined;
+
+    const now = Date.now();
+    const trials: Circuit[] = [];
+    for (const circuit of this.circuits.values()) {
+      const state = this.stateOf(circuit, now);
+      if (state === 'closed') continue;
+      if (state === 'open' || circuit.trialInFlight) {
+        this.rejected++;
+        return {
+          errorType: circuit.errorType,
+          state,
+          halfOpensAt: new Date(state === 'open' ? circuit.openedAt! + this.settings.openMs : now),
+          recentFailures: circuit.failures.length,
+        };
+      }
+      trials.push(circuit);
+    }
+
+    for (const circuit of trials) {
+      circuit.trialInFlight = true;
+      if (!circuit.halfOpenRecorded) {
+        circuit.halfOpenRecorded = true;
+        this.transition(circuit, 'open', 'half-open', 'letting a trial call through');
+      }
+    }
+    return undefined;
+  }
+
+  recordSuccess(): void {
+    const now = Date.now();
+    for (const circuit of this.circuits.values()) {
+      if (circuit.openedAt !== undefined) {
+        this.transition(circuit, this.stateOf(circuit, now), 'closed', 'call succeeded');
+      }
+      circuit.failures = [];
+      circuit.openedAt = undefined;
+      circuit.trialInFlight = false;
+    }
+  }
+
+  // The call ended without saying anything about the service (cancelled, or an unrelated error)
+  release(exceptErrorType?: string): void {
+    for (const circuit of this.circuits.values()) {
+      if (circuit.errorType !== exceptErrorType) circuit.trialInFlight = false;
+    }
+  }
+
+  recordFailure(errorType: string): void {
+    const now = Date.now();
+    this.release(errorType);
+
+    const circuit = this.circuits.get(errorType);
+    if (!this.settings.enabled || !circuit) return;
+
+    circuit.failures = circuit.failures.filter(timestamp => now - timestamp < this.settings.windowMs);
+    circuit.failures.push(now);
+
+    const state = this.stateOf(circuit, now);
+    if (state === 'half-open' && circuit.trialInFlight) {
+      this.open(circuit, state, 'trial call failed', now);
+    } else if (state === 'closed' && circuit.failures.length >= this.settings.failureThreshold) {
+      this.open(circuit, state, `${circuit.failures.length} failures within ${this.settings.windowMs}ms`, now);
+    }
+  }
+
+  private open(circuit: Circuit, from: CircuitState, reason: string, now: number): void {
+    circuit.openedAt = now;
+    circuit.trips++;
+    circuit.trialInFlight = false;
+    circuit.halfOpenRecorded = false;
+    this.transition(circuit, from, 'open', reason);
+  }
+
+  stats(): CircuitBreakerStats {
+    const now = Date.now();
+    return {
+      enabled: this.settings.enabled,
+      circuits: Array.from(this.circuits.values()).map(circuit => ({
+        errorType: circuit.errorType,
+        state: this.stateOf(circuit, now),
+        recentFailures: circuit.failures.filter(timestamp => now - timestamp < this.settings.windowMs).length,
+        trips: circuit.trips,
+        ...(circuit.openedAt !== undefined ? {
+          openedAt: new Date(circuit.openedAt).toISOString(),
+          halfOpensAt: new Date(circuit.openedAt + this.settings.openMs).toISOString(),
+        } : {}),
+      })),
+      rejected: this.rejected,
+      history: [...this.history],
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeCommandRisk } from './command-risk.js';
+
+describe('analyzeCommandRisk', () => {
+  const rules = (command: string) => analyzeCommandRisk(command).findings.map(finding => finding.rule);
+
+  it('should report no risk for read-only commands', () => {
+    expect(analyzeCommandRisk('ls -la | grep rm')).toEqual({ level: 'none', findings: [] });
+    expect(analyzeCommandRisk('find . -name "*.py" 2>/dev/null').level).toBe('none');
+    expect(analyzeCommandRisk('git push origin main').level).toBe('none');
+  });
+
+  it.each([
+    ['rm -rf /', 'critical', 'rm-recursive-root'],
+    ['sudo rm -rf ~/', 'critical', 'rm-recursive-root'],
+    ['rm -rf build', 'high', 'rm-recursive'],
+    ['dd if=/dev/zero of=/dev/sda bs=1M', 'high', 'dd'],
+    ['mkfs.ext4 /dev/sdb1', 'critical', 'mkfs'],
+    ['chmod -R 755 /var/www', 'medium', 'recursive-permissions'],
+    ['chmod 777 secrets.txt', 'high', 'chmod-world-writable'],
+    ['curl -fsSL https://example.com/install.sh | sh', 'high', 'pipe-to-shell'],
+    ['wget -qO- https://example.com/x | sudo bash', 'high', 'pipe-to-shell'],
+    ['git push --force origin main', 'high', 'git-force-push'],
+    ['git push -f', 'high', 'git-force-push'],
+    ['git reset --hard HEAD~3', 'medium', 'git-discard'],
+    ['find . -name "*.log" -delete', 'medium', 'find-delete'],
+    ['aws s3 rm s3://bucket --recursive', 'medium', 'aws-destructive'],
+    ['echo hello > config.txt', 'low', 'overwrite-redirect'],
+  ])('should flag %s as %s', (command, level, rule) => {
+    const assessment = analyzeCommandRisk(command);
+
+    expect(assessment.level).toBe(level);
+    expect(assessment.findings.map(finding => finding.rule)).toContain(rule);
+  });
+
+  it('should flag sudo and keep the highest severity', () => {
+    expect(rules('sudo apt-get update')).toEqual(['sudo']);
+    expect(analyzeCommandRisk('sudo rm -rf /tmp/cache').level).toBe('high');
+    expect(rules('rm -rf /')).not.toContain('rm-recursive');
+  });
+});
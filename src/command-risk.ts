@@ -0,0 +1,169 @@
+/**
+ * Static risk analysis of shell commands
+ *
+ * A pattern-based screen over translated commands so agents can refuse or ask
+ * for confirmation before running anything destructive. It does not execute or
+ * fully parse the command; it flags well-known dangerous shapes and reports the
+ * highest severity found.
+ */
+
+export const RISK_LEVELS = ['none', 'low', 'medium', 'high', 'critical'] as const;
+export type RiskLevel = typeof RISK_LEVELS[number];
+
+export interface RiskFinding {
+  rule: string;
+  severity: Exclude<RiskLevel, 'none'>;
+  description: string;
+  match: string;
+}
+
+export type RiskAssessment = {
+  level: RiskLevel;
+  findings: RiskFinding[];
+};
+
+interface RiskRule {
+  id: string;
+  severity: Exclude<RiskLevel, 'none'>;
+  pattern: RegExp;
+  description: string;
+}
+
+// Start of a command: line start or after a separator, optionally behind sudo/env/xargs
+const CMD = String.raw`(?:^|[;&|(\n]\s*|\$\(\s*)(?:(?:sudo|doas|env|xargs|exec|nohup|time)(?:\s+-\S+)*\s+)*`;
+
+export const RISK_RULES: RiskRule[] = [
+  {
+    id: 'rm-recursive-root',
+    severity: 'critical',
+    pattern: new RegExp(String.raw`${CMD}rm\s+(?:-\S+\s+)*-\S*[rR]\S*\s+(?:-\S+\s+)*(?:--no-preserve-root\s+)?(?:/|/\*|~/?|\$HOME/?|\.\.?/?|\*)(?:\s|$)`),
+    description: 'Recursively deletes a root, home or current directory',
+  },
+  {
+    id: 'rm-recursive',
+    severity: 'high',
+    pattern: new RegExp(String.raw`${CMD}rm\s+(?:-\S+\s+)*-\S*[rR]`),
+    description: 'Recursively deletes files',
+  },
+  {
+    id: 'rm-force',
+    severity: 'medium',
+    pattern: new RegExp(String.raw`${CMD}rm\s+(?:-\S+\s+)*-\S*f`),
+    description: 'Deletes files without confirmation',
+  },
+  {
+    id: 'dd',
+    severity: 'high',
+    pattern: new RegExp(String.raw`${CMD}dd\s+[^\n;|&]*\bof=`),
+    description: 'Writes raw data to a file or device with dd',
+  },
+  {
+    id: 'mkfs',
+    severity: 'critical',
+    pattern: new RegExp(String.raw`${CMD}(?:mkfs(?:\.\w+)?|mkswap|wipefs)\b`),
+    description: 'Formats or wipes a filesystem',
+  },
+  {
+    id: 'write-block-device',
+    severity: 'critical',
+    pattern: /> ?\/dev\/(?:sd|hd|nvme|xvd|disk|mmcblk)\w*/,
+    description: 'Redirects output onto a block device',
+  },
+  {
+    id: 'fork-bomb',
+    severity: 'critical',
+    pattern: /:\(\)\s*\{\s*:\s*\|\s*:\s*&\s*\}\s*;\s*:/,
+    description: 'Fork bomb',
+  },
+  {
+    id: 'chmod-world-writable',
+    severity: 'high',
+    pattern: new RegExp(String.raw`${CMD}chmod\s+(?:-\S+\s+)*(?:0?777|a\+w|o\+w)\b`),
+    description: 'Makes files writable by everyone',
+  },
+  {
+    id: 'recursive-permissions',
+    severity: 'medium',
+    pattern: new RegExp(String.raw`${CMD}(?:chmod|chown|chgrp)\s+(?:-\S+\s+)*-\S*R`),
+    description: 'Changes permissions or ownership recursively',
+  },
+  {
+    id: 'pipe-to-shell',
+    severity: 'high',
+    pattern: /\b(?:curl|wget|fetch)\b[^|\n]*\|\s*(?:sudo\s+)?(?:ba|z|k|da)?sh\b/,
+    description: 'Pipes a downloaded script straight into a shell',
+  },
+  {
+    id: 'sudo',
+    severity: 'medium',
+    pattern: /(?:^|[;&|(\n]\s*)(?:sudo|doas)\s/,
+    description: 'Runs with elevated privileges',
+  },
+  {
+    id: 'git-force-push',
+    severity: 'high',
+    pattern: new RegExp(String.raw`${CMD}git\s+(?:-\S+\s+)*push\b[^\n;|&]*(?:\s--force(?:-with-lease)?\b|\s-\w*f\b|\s\+\S)`),
+    description: 'Force-pushes, rewriting remote history',
+  },
+  {
+    id: 'git-discard',
+    severity: 'medium',
+    pattern: new RegExp(String.raw`${CMD}git\s+(?:-\S+\s+)*(?:reset\s+[^\n;|&]*--hard|clean\s+[^\n;|&]*-\w*f)`),
+    description: 'Discards uncommitted changes',
+  },
+  {
+    id: 'find-delete',
+    severity: 'medium',
+    pattern: /\bfind\b[^\n;|&]*(?:\s-delete\b|-exec\s+rm\b)/,
+    description: 'Deletes every file find matches',
+  },
+  {
+    id: 'aws-destructive',
+    severity: 'medium',
+    pattern: /\baws\s+\S+\s+(?:rm\b[^\n;|&]*--recursive|rb\b[^\n;|&]*--force|delete-\S+|terminate-instances)/,
+    description: 'Deletes or terminates AWS resources',
+  },
+  {
+    id: 'system-power',
+    severity: 'high',
+    pattern: new RegExp(String.raw`${CMD}(?:shutdown|reboot|halt|poweroff)\b`),
+    description: 'Shuts down or restarts the machine',
+  },
+  {
+    id: 'kill-all',
+    severity: 'high',
+    pattern: new RegExp(String.raw`${CMD}(?:kill\s+(?:-\S+\s+)*-1\b|killall\b|pkill\b)`),
+    description: 'Kills processes by name or every process of the user',
+  },
+  {
+    id: 'overwrite-redirect',
+    severity: 'low',
+    pattern: /(?:^|[^>&0-9])>\s*(?!\/dev\/null\b)[~\/\w.$-]/,
+    description: 'Overwrites a file with a redirect',
+  },
+];
+
+export function compareRisk(a: RiskLevel, b: RiskLevel): number {
+  return RISK_LEVELS.indexOf(a) - RISK_LEVELS.indexOf(b);
+}
+
+export function analyzeCommandRisk(command: string): RiskAssessment {
+  const findings: RiskFinding[] = [];
+  for (const rule of RISK_RULES) {
+    const match = command.match(rule.pattern);
+    if (match) {
+      findings.push({ rule: rule.id, severity: rule.severity, description: rule.description, match: match[0].trim() });
+    }
+  }
+
+  // A more specific rule subsumes the generic one it refines (rm-recursive-root over rm-recursive)
+  const reported = findings.filter(finding =>
+    !(finding.rule === 'rm-recursive' && findings.some(f => f.rule === 'rm-recursive-root'))
+  );
+
+  const level = reported.reduce<RiskLevel>(
+    (highest, finding) => compareRisk(finding.severity, highest) > 0 ? finding.severity : highest,
+    'none'
+  );
+  return { level, findings: reported };
+}
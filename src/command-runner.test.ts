@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ConfirmationTokens, findTranslation, getTranslationsFile, resolveShell, saveTranslation } from './command-runner.js';
+
+describe('command runner', () => {
+  let sessionDir: string;
+
+  beforeEach(() => {
+    sessionDir = fs.mkdtempSync(path.join(os.tmpdir(), 'amazon-q-runner-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(sessionDir, { recursive: true, force: true });
+    vi.useRealTimers();
+  });
+
+  it('should store translations and find them by ID', () => {
+    const translationsFile = getTranslationsFile(path.join(sessionDir, 'translations'), 'session-1');
+    const first = saveTranslation(translationsFile, { task: 'list', command: 'ls', shell: 'bash', risk: { level: 'none', findings: [] } });
+    saveTranslation(translationsFile, { task: 'clean', command: 'rm -rf dist', shell: 'bash', risk: { level: 'high', findings: [] } });
+
+    expect(findTranslation(translationsFile, first.id)).toEqual(first);
+    expect(findTranslation(translationsFile, 'missing')).toBeUndefined();
+    expect(findTranslation(getTranslationsFile(path.join(sessionDir, 'translations'), 'session-2'), first.id)).toBeUndefined();
+  });
+
+  it('should only run POSIX shells', () => {
+    expect(resolveShell('/usr/bin/zsh')).toBe('zsh');
+    expect(() => resolveShell('powershell')).toThrow(/cannot be run/);
+  });
+
+  it('should accept a confirmation token once, for its own translation, before it expires', () => {
+    vi.useFakeTimers();
+    const tokens = new ConfirmationTokens(1000);
+
+    const grant = tokens.issue(sessionDir, 't1');
+    expect(tokens.consume(sessionDir, 't2', grant.token)).toBe(false);
+    expect(tokens.consume(sessionDir, 't1', grant.token)).toBe(true);
+    expect(tokens.consume(sessionDir, 't1', grant.token)).toBe(false);
+
+    const late = tokens.issue(sessionDir, 't1');
+    vi.advanceTimersByTime(1001);
+    expect(tokens.consume(sessionDir, 't1', late.token)).toBe(false);
+  });
+});
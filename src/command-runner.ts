@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes, randomUUID } from 'crypto';
+import { RiskAssessment } from './command-risk.js';
+
+/**
+ * Guarded execution of q_translate results
+ *
+ * q_translate records every translation under an ID; q_run_command only
+ * accepts those IDs, so it never runs text supplied directly by the caller.
+ * Translations the risk check flagged need a single-use confirmation token that
+ * is handed out on the first attempt. The records live under the data directory
+ * rather than in the session directory, which q chat runs in and could rewrite.
+ */
+
+export const TRANSLATIONS_DIR = 'translations';
+
+// Translations are only runnable for a limited time after they were produced
+export const TRANSLATION_MAX_AGE_MS = 60 * 60 * 1000; // 1 hour
+export const CONFIRMATION_TOKEN_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+// Shells a translated command can be run with, invoked as `<shell> -c <command>`
+const POSIX_SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh']);
+
+export interface StoredTranslation {
+  id: string;
+  createdAt: string;
+  task: string;
+  command: string;
+  shell: string;
+  risk: RiskAssessment;
+}
+
+export interface ConfirmationGrant {
+  token: string;
+  expiresAt: string;
+}
+
+// One file per session, named after the session ID
+export function getTranslationsFile(translationsDir: string, sessionId: string): string {
+  return path.join(translationsDir, `${sessionId}.jsonl`);
+}
+
+export function saveTranslation(translationsFile: string, translation: Omit<StoredTranslation, 'id' | 'createdAt'>): StoredTranslation {
+  const record: StoredTranslation = {
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    ...translation,
+  };
+  fs.mkdirSync(path.dirname(translationsFile), { recursive: true });
+  fs.appendFileSync(translationsFile, JSON.stringify(record) + '\n');
+  return record;
+}
+
+export function findTranslation(translationsFile: string, id: string): StoredTranslation | undefined {
+  if (!fs.existsSync(translationsFile)) {
+    return undefined;
+  }
+
+  for (const line of fs.readFileSync(translationsFile, 'utf8').split('\n')) {
+    if (!line.includes(id)) continue;
+    try {
+      const record: StoredTranslation = JSON.parse(line);
+      if (record.id === id) return record;
+    } catch {
+      // Skip a line torn by a crash mid-write
+    }
+  }
+  return undefined;
+}
+
+export function resolveShell(shell: string): string {
+  const name = path.basename(shell);
+  if (!POSIX_SHELLS.has(name)) {
+    throw new Error(`Commands for '${shell}' cannot be run; supported shells: ${Array.from(POSIX_SHELLS).join(', ')}`);
+  }
+  return name;
+}
+
+/**
+ * Single-use tokens bound to one translation in one session directory
+ */
+export class ConfirmationTokens {
+  private grants = new Map<string, { token: string; expiresAt: number }>();
+
+  constructor(private ttlMs: number = CONFIRMATION_TOKEN_TTL_MS) {}
+
+  private key(sessionDir: string, translationId: string): string {
+    return `${sessionDir}\0${translationId}`;
+  }
+
+  issue(sessionDir: string, translationId: string): ConfirmationGrant {
+    this.prune();
+    const token = randomBytes(16).toString('hex');
+    const expiresAt = Date.now() + this.ttlMs;
+    this.grants.set(this.key(sessionDir, translationId), { token, expiresAt });
+    return { token, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  consume(sessionDir: string, translationId: string, token: string): boolean {
+    const key = this.key(sessionDir, translationId);
+    const grant = this.grants.get(key);
+    if (!grant || grant.token !== token || grant.expiresAt < Date.now()) {
+      return false;
+    }
+    this.grants.delete(key);
+    return true;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, grant] of this.grants) {
+      if (grant.expiresAt < now) this.grants.delete(key);
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ConfigError, DEFAULT_CONFIG, getToolSettings, loadConfig } from './config.js';
+
+describe('loadConfig', () => {
+  let tmpDir: string;
+  let userConfigPath: string;
+  let projectConfigPath: string;
+
+  const writeJson = (filePath: string, value: unknown) => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(value));
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'amazon-q-config-'));
+    userConfigPath = path.join(tmpDir, 'user', 'config.json');
+    projectConfigPath = path.join(tmpDir, 'project', '.amazon-q-mcp', 'config.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should fall back to built-in defaults when no files exist', () => {
+    const config = loadConfig({ userConfigPath, projectConfigPath });
+
+    expect(config.qBinary).toBe('q');
+    expect(config.defaults).toEqual(DEFAULT_CONFIG.defaults);
+    expect(config.sources).toEqual([]);
+  });
+
+  it('should layer the project file over the user file', () => {
+    writeJson(userConfigPath, {
+      qBinary: '/opt/q/bin/q',
+      defaults: { timeoutMs: 60000, retry: { maxAttempts: 5 } },
+      tools: { ask_q: { maxPromptLength: 20000 } },
+    });
+    writeJson(projectConfigPath, {
+      defaults: { retry: { baseDelayMs: 1000 } },
+      tools: { ask_q: { timeoutMs: 120000 } },
+    });
+
+    const config = loadConfig({ userConfigPath, projectConfigPath });
+    const askSettings = getToolSettings(config, 'ask_q');
+
+    expect(config.qBinary).toBe('/opt/q/bin/q');
+    expect(config.sources).toEqual([userConfigPath, projectConfigPath]);
+    expect(askSettings.timeoutMs).toBe(120000);
+    expect(askSettings.maxPromptLength).toBe(20000);
+    expect(askSettings.retry).toEqual({ ...DEFAULT_CONFIG.defaults.retry, maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 10000 });
+    expect(getToolSettings(config, 'q_translate').timeoutMs).toBe(60000);
+  });
+
+  it('should resolve a relative data directory and q binary against their config file', () => {
+    writeJson(userConfigPath, { dataDir: './data', qBinary: './bin/q' });
+
+    const config = loadConfig({ userConfigPath, projectConfigPath });
+
+    expect(config.dataDir).toBe(path.join(tmpDir, 'user', 'data'));
+    expect(config.qBinary).toBe(path.join(tmpDir, 'user', 'bin', 'q'));
+
+    writeJson(userConfigPath, { qBinary: 'q-beta' });
+    expect(loadConfig({ userConfigPath, projectConfigPath }).qBinary).toBe('q-beta');
+  });
+
+  it('should resolve allowed roots against their config file', () => {
+    writeJson(userConfigPath, { allowedRoots: ['/srv/projects'], trustProjectConfig: true });
+    writeJson(projectConfigPath, { allowedRoots: ['..'] });
+
+    const config = loadConfig({ userConfigPath, projectConfigPath });
+
+    expect(config.allowedRoots).toEqual([path.join(tmpDir, 'project')]);
+  });
+
+  it('should report every invalid value with its path', () => {
+    writeJson(userConfigPath, {
+      defaults: { timeoutMs: 5 },
+      tools: { ask_q: { maxOutputBytes: 'big' }, unknown_tool: {} },
+    });
+
+    expect(() => loadConfig({ userConfigPath, projectConfigPath })).toThrow(ConfigError);
+    try {
+      loadConfig({ userConfigPath, projectConfigPath });
+    } catch (error) {
+      const issues = (error as ConfigError).issues.join('\n');
+      expect(issues).toContain('defaults.timeoutMs');
+      expect(issues).toContain('tools.ask_q.maxOutputBytes');
+      expect(issues).toContain('unknown_tool');
+    }
+  });
+
+  it('should reject malformed JSON', () => {
+    fs.mkdirSync(path.dirname(userConfigPath), { recursive: true });
+    fs.writeFileSync(userConfigPath, '{ "qBinary": ');
+
+    expect(() => loadConfig({ userConfigPath, projectConfigPath })).toThrow(/not valid JSON/);
+  });
+
+  it('should merge retry policies per error type across files and tools', () => {
+    writeJson(userConfigPath, {
+      defaults: { retry: { deadlineMs: 60000, errorTypes: { SERVICE_CAPACITY_ERROR: { maxAttempts: 5, jitter: 'full' } } } },
+    });
+    writeJson(projectConfigPath, {
+      defaults: { retry: { errorTypes: { SERVICE_CAPACITY_ERROR: { baseDelayMs: 2000 } } } },
+      tools: { q_translate: { retry: { errorTypes: { NETWORK_ERROR: { maxAttempts: 1 } } } } },
+    });
+
+    const retry = getToolSettings(loadConfig({ userConfigPath, projectConfigPath }), 'q_translate').retry;
+
+    expect(retry.deadlineMs).toBe(60000);
+    expect(retry.errorTypes).toEqual({
+      SERVICE_CAPACITY_ERROR: { maxAttempts: 5, jitter: 'full', baseDelayMs: 2000 },
+      NETWORK_ERROR: { maxAttempts: 1 },
+    });
+  });
+
+  it('should put project error rules ahead of user rules and reject invalid patterns', () => {
+    writeJson(userConfigPath, { errorRules: [{ id: 'user', type: 'NETWORK_ERROR', text: 'proxy' }], trustProjectConfig: true });
+    writeJson(projectConfigPath, { errorRules: [{ id: 'project', type: 'QUOTA_EXCEEDED', exitCodes: [75] }] });
+
+    expect(loadConfig({ userConfigPath, projectConfigPath }).errorRules.map(rule => rule.id)).toEqual(['project', 'user']);
+
+    writeJson(projectConfigPath, { errorRules: [{ id: 'broken', type: 'NETWORK_ERROR', stderr: '(unclosed' }, { id: 'empty', type: 'TIMEOUT' }] });
+    expect(() => loadConfig({ userConfigPath, projectConfigPath })).toThrow(/errorRules\.0\.stderr: must be a valid regular expression[\s\S]*errorRules\.1/);
+  });
+
+  it('should reject a base delay larger than the maximum delay', () => {
+    writeJson(userConfigPath, { tools: { q_translate: { retry: { baseDelayMs: 20000 } } } });
+
+    expect(() => loadConfig({ userConfigPath, projectConfigPath })).toThrow(/tools\.q_translate\.retry/);
+  });
+
+  it('should accept host names, wildcards and CIDR ranges in the network policy', () => {
+    writeJson(userConfigPath, { network: { allowHosts: ['artifacts.example.com', '*.internal.example', '10.20.0.0/16'], maxRedirects: 2 } });
+
+    expect(loadConfig({ userConfigPath, projectConfigPath }).network).toEqual({
+      ...DEFAULT_CONFIG.network,
+      allowHosts: ['artifacts.example.com', '*.internal.example', '10.20.0.0/16'],
+      maxRedirects: 2,
+    });
+
+    writeJson(userConfigPath, { network: { denyHosts: ['10.0.0.0/33', 'http://example.com'] } });
+    expect(() => loadConfig({ userConfigPath, projectConfigPath })).toThrow(/network\.denyHosts\.0[\s\S]*network\.denyHosts\.1/);
+  });
+
+  it('should let a project file only add denied hosts to the network policy', () => {
+    writeJson(userConfigPath, { network: { denyHosts: ['*.tracker.example'] } });
+    writeJson(projectConfigPath, { network: { denyHosts: ['legacy.example.com'] } });
+
+    expect(loadConfig({ userConfigPath, projectConfigPath }).network.denyHosts).toEqual(['*.tracker.example', 'legacy.example.com']);
+
+    writeJson(projectConfigPath, { network: { allowPrivateNetworks: true, allowHosts: ['*'] } });
+    expect(() => loadConfig({ userConfigPath, projectConfigPath })).toThrow(/network\.allowPrivateNetworks: can only be set in the user config file[\s\S]*network\.allowHosts/);
+  });
+
+  it('should refuse security-sensitive settings in a project file the user does not trust', () => {
+    writeJson(projectConfigPath, { qBinary: './evil.sh', dataDir: '/tmp/x', allowedRoots: ['/'], errorRules: [], trustProjectConfig: true });
+
+    expect(() => loadConfig({ userConfigPath, projectConfigPath })).toThrow(
+      /qBinary: can only be set in the user config file unless it sets trustProjectConfig[\s\S]*dataDir[\s\S]*allowedRoots[\s\S]*errorRules[\s\S]*trustProjectConfig: can only be set in the user config file/
+    );
+
+    writeJson(projectConfigPath, {
+      concurrency: { maxConcurrent: 64 },
+      downloads: { maxBytes: 64 * 1024 * 1024 * 1024 },
+      tools: { ask_q: { timeoutMs: 120000 }, q_run_command: { timeoutMs: 3600000 } },
+    });
+    expect(() => loadConfig({ userConfigPath, projectConfigPath })).toThrow(
+      /concurrency: can only be set[\s\S]*downloads: can only be set[\s\S]*tools\.q_run_command: can only be set/
+    );
+
+    writeJson(userConfigPath, { trustProjectConfig: true });
+    writeJson(projectConfigPath, { qBinary: './tools/q' });
+    expect(loadConfig({ userConfigPath, projectConfigPath }).qBinary).toBe(path.join(tmpDir, 'project', '.amazon-q-mcp', 'tools', 'q'));
+  });
+});
@@ -0,0 +1,551 @@
+import { z } from 'zod';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { isIP } from 'net';
+
+/**
+ * Server configuration
+ *
+ * Settings are read from the user-level file (~/.amazon-q-mcp/config.json, or the
+ * path in AMAZON_Q_MCP_CONFIG) and then from an optional project-level file
+ * (<project>/.amazon-q-mcp/config.json). Later files override earlier ones field by field.
+ */
+
+// Tools with their own settings block; take_q is an alias and uses the ask_q settings.
+// q_run_command never retries, so its retry block is ignored
+export const CONFIGURABLE_TOOLS = ['ask_q', 'q_translate', 'q_status', 'q_run_command'] as const;
+export type ConfigurableTool = typeof CONFIGURABLE_TOOLS[number];
+
+// Error types (see ErrorType in errors.ts) that q failures are classified as
+export const Q_ERROR_TYPES = [
+  'NETWORK_ERROR', 'SERVICE_CAPACITY_ERROR', 'QUOTA_EXCEEDED', 'AUTHENTICATION_ERROR', 'CONFIGURATION_ERROR',
+  'Q_CLI_NOT_FOUND', 'TIMEOUT', 'OUTPUT_LIMIT_EXCEEDED', 'UNKNOWN_ERROR',
+] as const;
+export type QErrorType = typeof Q_ERROR_TYPES[number];
+
+export const BACKOFF_STRATEGIES = ['exponential', 'linear', 'constant'] as const;
+export const JITTER_STRATEGIES = ['proportional', 'full', 'equal', 'none'] as const;
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  backoff: typeof BACKOFF_STRATEGIES[number];
+  jitter: typeof JITTER_STRATEGIES[number];
+}
+
+export interface RetrySettings extends RetryPolicy {
+  // Time budget for a whole call including every retry; 0 means no limit beyond the attempts
+  deadlineMs: number;
+  // Policy overrides for failures of one error type; see retry-policy.ts
+  errorTypes: Partial<Record<QErrorType, Partial<RetryPolicy>>>;
+}
+
+export interface ToolSettings {
+  timeoutMs: number;
+  maxOutputBytes: number;
+  maxPromptLength: number;
+  retry: RetrySettings;
+}
+
+export type TransportType = 'stdio' | 'http';
+
+export interface HttpSettings {
+  host: string;
+  port: number;
+  path: string;
+  sessionIdleTimeoutMs: number;
+}
+
+export interface FileContextSettings {
+  maxFiles: number;
+  maxFileBytes: number;
+  maxTotalBytes: number;
+}
+
+export interface ConcurrencySettings {
+  maxConcurrent: number;
+  queueTimeoutMs: number;
+}
+
+export interface CacheSettings {
+  enabled: boolean;
+  ttlMs: number;
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export interface DownloadSettings {
+  chunkBytes: number;
+  maxBytes: number;
+}
+
+export interface NetworkSettings {
+  allowedSchemes: string[];
+  // Host names, *.suffix wildcards, IP addresses or CIDR ranges
+  allowHosts: string[];
+  denyHosts: string[];
+  allowPrivateNetworks: boolean;
+  maxRedirects: number;
+  connectTimeoutMs: number;
+  readTimeoutMs: number;
+}
+
+export interface CircuitBreakerSettings {
+  enabled: boolean;
+  failureThreshold: number;
+  windowMs: number;
+  openMs: number;
+  errorTypes: string[];
+}
+
+// A classification rule from config; patterns are case-insensitive regular expressions
+export interface ErrorRuleConfig {
+  id: string;
+  type: QErrorType | 'VALIDATION_ERROR' | 'CANCELLED';
+  code?: string;
+  retryable?: boolean;
+  message?: string;
+  stderr?: string;
+  text?: string;
+  exitCodes?: number[];
+  signals?: string[];
+  tools?: string[];
+}
+
+export interface ServerConfig {
+  qBinary: string;
+  dataDir: string;
+  transport: TransportType;
+  http: HttpSettings;
+  // Directories (and their subdirectories) ask_q may use as workingDirectory; empty disables the option
+  allowedRoots: string[];
+  // Caps for files attached to ask_q
+  fileContext: FileContextSettings;
+  // Limits for q processes running at the same time; see scheduler.ts
+  concurrency: ConcurrencySettings;
+  // On-disk cache of ask_q and q_translate responses; see response-cache.ts
+  cache: CacheSettings;
+  // Fail fast while Amazon Q keeps failing; see circuit-breaker.ts
+  circuitBreaker: CircuitBreakerSettings;
+  // Checked before the built-in rules of error-classifier.ts
+  errorRules: ErrorRuleConfig[];
+  // Chunked fetch_download transfers; see downloads.ts
+  downloads: DownloadSettings;
+  // What fetch_chunk and fetch_download may connect to; see network-policy.ts
+  network: NetworkSettings;
+  defaults: ToolSettings;
+  tools: Partial<Record<ConfigurableTool, Partial<Omit<ToolSettings, 'retry'>> & { retry?: Partial<RetrySettings> }>>;
+  // Lets the project-level file set the settings in PROJECT_RESTRICTED_SETTINGS; only read from the user file
+  trustProjectConfig: boolean;
+  sources: string[];
+}
+
+export class ConfigError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(issues.length > 0 ? `${message}:\n${issues.map(issue => `  - ${issue}`).join('\n')}` : message);
+    this.name = 'ConfigError';
+  }
+}
+
+export const DEFAULT_CONFIG: ServerConfig = {
+  qBinary: 'q',
+  dataDir: path.join(os.homedir(), '.amazon-q-mcp'),
+  transport: 'stdio',
+  http: {
+    host: '127.0.0.1',
+    port: 8765,
+    path: '/mcp',
+    sessionIdleTimeoutMs: 30 * 60 * 1000, // 30 minutes
+  },
+  allowedRoots: [],
+  fileContext: {
+    maxFiles: 20,
+    maxFileBytes: 100 * 1024, // 100KB
+    maxTotalBytes: 256 * 1024, // 256KB
+  },
+  concurrency: {
+    maxConcurrent: 4,
+    queueTimeoutMs: 120000, // 2 minutes
+  },
+  cache: {
+    enabled: true,
+    ttlMs: 60 * 60 * 1000, // 1 hour
+    maxEntries: 500,
+    maxBytes: 20 * 1024 * 1024, // 20MB
+  },
+  circuitBreaker: {
+    enabled: true,
+    failureThreshold: 5,
+    windowMs: 60000, // 1 minute
+    openMs: 30000, // 30 seconds
+    errorTypes: ['SERVICE_CAPACITY_ERROR', 'NETWORK_ERROR'],
+  },
+  errorRules: [],
+  downloads: {
+    chunkBytes: 8 * 1024 * 1024, // 8MB
+    maxBytes: 2 * 1024 * 1024 * 1024, // 2GB
+  },
+  network: {
+    allowedSchemes: ['https', 'http'],
+    allowHosts: [],
+    denyHosts: [],
+    allowPrivateNetworks: false,
+    maxRedirects: 5,
+    connectTimeoutMs: 10000, // 10 seconds
+    readTimeoutMs: 30000, // 30 seconds
+  },
+  defaults: {
+    timeoutMs: 30000, // 30 seconds
+    maxOutputBytes: 1024 * 1024, // 1MB
+    maxPromptLength: 10000,
+    retry: {
+      maxAttempts: 3,
+      baseDelayMs: 500,
+      maxDelayMs: 10000,
+      backoff: 'exponential',
+      jitter: 'proportional', // up to 25% on top of the delay
+      deadlineMs: 0,
+      errorTypes: {},
+    },
+  },
+  tools: {},
+  trustProjectConfig: false,
+  sources: [],
+};
+
+const retryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10),
+  baseDelayMs: z.number().int().min(0).max(60000),
+  maxDelayMs: z.number().int().min(0).max(300000),
+  backoff: z.enum(BACKOFF_STRATEGIES),
+  jitter: z.enum(JITTER_STRATEGIES),
+}).strict().partial();
+
+const retrySchema = retryPolicySchema.extend({
+  deadlineMs: z.number().int().min(0).max(60 * 60 * 1000),
+  errorTypes: z.object(
+    Object.fromEntries(Q_ERROR_TYPES.map(type => [type, retryPolicySchema])) as Record<QErrorType, typeof retryPolicySchema>
+  ).strict().partial(),
+}).strict().partial();
+
+const toolSettingsSchema = z.object({
+  timeoutMs: z.number().int().min(1000).max(30 * 60 * 1000),
+  maxOutputBytes: z.number().int().min(1024).max(100 * 1024 * 1024),
+  maxPromptLength: z.number().int().min(1).max(1000000),
+  retry: retrySchema,
+}).strict().partial();
+
+// The HTTP transport has no authentication, so it may only listen on loopback
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+const httpSchema = z.object({
+  host: z.string().refine(host => LOOPBACK_HOSTS.includes(host), {
+    message: `must be a loopback address (${LOOPBACK_HOSTS.join(', ')})`,
+  }),
+  port: z.number().int().min(0).max(65535),
+  path: z.string().startsWith('/'),
+  sessionIdleTimeoutMs: z.number().int().min(1000),
+}).strict().partial();
+
+const fileContextSchema = z.object({
+  maxFiles: z.number().int().min(1).max(500),
+  maxFileBytes: z.number().int().min(1).max(10 * 1024 * 1024),
+  maxTotalBytes: z.number().int().min(1).max(50 * 1024 * 1024),
+}).strict().partial();
+
+const concurrencySchema = z.object({
+  maxConcurrent: z.number().int().min(1).max(64),
+  queueTimeoutMs: z.number().int().min(1000).max(60 * 60 * 1000),
+}).strict().partial();
+
+const cacheSchema = z.object({
+  enabled: z.boolean(),
+  ttlMs: z.number().int().min(1000).max(30 * 24 * 60 * 60 * 1000),
+  maxEntries: z.number().int().min(1).max(100000),
+  maxBytes: z.number().int().min(1024).max(1024 * 1024 * 1024),
+}).strict().partial();
+
+const circuitBreakerSchema = z.object({
+  enabled: z.boolean(),
+  failureThreshold: z.number().int().min(1).max(100),
+  windowMs: z.number().int().min(1000).max(60 * 60 * 1000),
+  openMs: z.number().int().min(1000).max(60 * 60 * 1000),
+  errorTypes: z.array(z.enum(Q_ERROR_TYPES)),
+}).strict().partial();
+
+const downloadsSchema = z.object({
+  chunkBytes: z.number().int().min(64 * 1024).max(256 * 1024 * 1024),
+  maxBytes: z.number().int().min(1024).max(64 * 1024 * 1024 * 1024),
+}).strict().partial();
+
+const hostPattern = z.string().min(1).refine(pattern => {
+  const [network, prefix, ...rest] = pattern.split('/');
+  const family = isIP(network);
+  if (prefix === undefined) {
+    return family !== 0 || /^(\*\.)?[A-Za-z0-9.-]+$/.test(pattern);
+  }
+  return family !== 0 && rest.length === 0 && /^\d+$/.test(prefix) && Number(prefix) <= (family === 4 ? 32 : 128);
+}, { message: 'must be a host name, *.domain wildcard, IP address or CIDR range' });
+
+const networkSchema = z.object({
+  allowedSchemes: z.array(z.enum(['https', 'http'])).min(1),
+  allowHosts: z.array(hostPattern),
+  denyHosts: z.array(hostPattern),
+  allowPrivateNetworks: z.boolean(),
+  maxRedirects: z.number().int().min(0).max(20),
+  connectTimeoutMs: z.number().int().min(100).max(5 * 60 * 1000),
+  readTimeoutMs: z.number().int().min(100).max(60 * 60 * 1000),
+}).strict().partial();
+
+const regexSource = z.string().min(1).refine(source => {
+  try {
+    new RegExp(source, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}, { message: 'must be a valid regular expression' });
+
+const errorRuleSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum([...Q_ERROR_TYPES, 'VALIDATION_ERROR', 'CANCELLED']),
+  code: z.string().min(1).optional(),
+  retryable: z.boolean().optional(),
+  message: regexSource.optional(),
+  stderr: regexSource.optional(),
+  text: regexSource.optional(),
+  exitCodes: z.array(z.number().int()).min(1).optional(),
+  signals: z.array(z.string().min(1)).min(1).optional(),
+  tools: z.array(z.string().min(1)).min(1).optional(),
+}).strict().refine(
+  rule => ['message', 'stderr', 'text', 'exitCodes', 'signals'].some(key => rule[key as keyof typeof rule] !== undefined),
+  { message: 'needs at least one of message, stderr, text, exitCodes or signals' }
+);
+
+const configFileSchema = z.object({
+  qBinary: z.string().min(1),
+  dataDir: z.string().min(1),
+  transport: z.enum(['stdio', 'http']),
+  http: httpSchema,
+  allowedRoots: z.array(z.string().min(1)),
+  fileContext: fileContextSchema,
+  concurrency: concurrencySchema,
+  cache: cacheSchema,
+  circuitBreaker: circuitBreakerSchema,
+  errorRules: z.array(errorRuleSchema),
+  downloads: downloadsSchema,
+  network: networkSchema,
+  trustProjectConfig: z.boolean(),
+  defaults: toolSettingsSchema,
+  tools: z.object(
+    Object.fromEntries(CONFIGURABLE_TOOLS.map(tool => [tool, toolSettingsSchema.optional()])) as Record<ConfigurableTool, z.ZodOptional<typeof toolSettingsSchema>>
+  ).strict(),
+}).strict().partial();
+
+type ConfigFile = z.infer<typeof configFileSchema>;
+
+export function getUserConfigPath(): string {
+  return process.env.AMAZON_Q_MCP_CONFIG || path.join(os.homedir(), '.amazon-q-mcp', 'config.json');
+}
+
+export function getProjectConfigPath(projectPath: string = process.cwd()): string {
+  return path.join(projectPath, '.amazon-q-mcp', 'config.json');
+}
+
+function expandHome(value: string): string {
+  if (value === '~' || value.startsWith('~/')) {
+    return path.join(os.homedir(), value.slice(1));
+  }
+  return value;
+}
+
+// Settings that pick what gets executed, where data is written, which files
+// can be read and how failures are retried
+// Settings that run code, move data or lift resource limits; nested ones as dotted paths
+const PROJECT_RESTRICTED_SETTINGS = [
+  'qBinary', 'dataDir', 'allowedRoots', 'errorRules',
+  'concurrency', 'cache', 'circuitBreaker', 'downloads', 'tools.q_run_command',
+];
+
+function hasSetting(file: Record<string, unknown>, setting: string): boolean {
+  let value: unknown = file;
+  for (const key of setting.split('.')) {
+    if (typeof value !== 'object' || value === null || !(key in value)) {
+      return false;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return true;
+}
+
+/**
+ * A project file comes with the repository being worked on. It can only set
+ * the restricted settings when the user file sets trustProjectConfig, and it
+ * can only narrow the network policy: its denyHosts are added to the user's.
+ */
+function projectConfigIssues(raw: unknown, trusted: boolean): string[] {
+  if (typeof raw !== 'object' || raw === null) {
+    return [];
+  }
+  const file = raw as Record<string, unknown>;
+  const issues = trusted ? [] : PROJECT_RESTRICTED_SETTINGS
+    .filter(setting => hasSetting(file, setting))
+    .map(setting => `${setting}: can only be set in the user config file unless it sets trustProjectConfig`);
+  if ('trustProjectConfig' in file) {
+    issues.push('trustProjectConfig: can only be set in the user config file');
+  }
+  if (typeof file.network === 'object' && file.network !== null) {
+    issues.push(...Object.keys(file.network)
+      .filter(key => key !== 'denyHosts')
+      .map(key => `network.${key}: can only be set in the user config file; a project file can only add network.denyHosts`));
+  }
+  return issues;
+}
+
+function readConfigFile(filePath: string, scope: 'user' | 'project', trustProject = false): ConfigFile | undefined {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new ConfigError(`Invalid configuration in ${filePath}`, [
+      `not valid JSON (${error instanceof Error ? error.message : String(error)})`
+    ]);
+  }
+
+  const parsed = configFileSchema.safeParse(raw);
+  const issues = [
+    ...(scope === 'project' ? projectConfigIssues(raw, trustProject) : []),
+    ...(parsed.success ? [] : parsed.error.errors.map(e => `${e.path.join('.') || '(root)'}: ${e.message}`)),
+  ];
+  if (!parsed.success || issues.length > 0) {
+    throw new ConfigError(`Invalid configuration in ${filePath}`, issues);
+  }
+
+  const file = parsed.data;
+  // A bare command name is looked up on PATH; a path is relative to the file like dataDir
+  if (file.qBinary && (file.qBinary.includes('/') || file.qBinary.startsWith('~'))) {
+    file.qBinary = path.resolve(path.dirname(filePath), expandHome(file.qBinary));
+  }
+  if (file.dataDir) {
+    // Relative data directories are resolved against the file that declares them
+    file.dataDir = path.resolve(path.dirname(filePath), expandHome(file.dataDir));
+  }
+  if (file.allowedRoots) {
+    file.allowedRoots = file.allowedRoots.map(root => path.resolve(path.dirname(filePath), expandHome(root)));
+  }
+  return file;
+}
+
+// Per-error-type overrides merge key by key like the rest of the retry block
+function mergeRetry<T extends Partial<RetrySettings>>(base: T, override: Partial<RetrySettings> | undefined): T {
+  const errorTypes = { ...base.errorTypes };
+  for (const [type, policy] of Object.entries(override?.errorTypes || {}) as [QErrorType, Partial<RetryPolicy>][]) {
+    errorTypes[type] = { ...errorTypes[type], ...policy };
+  }
+  return { ...base, ...override, errorTypes };
+}
+
+function mergeConfig(base: ServerConfig, file: ConfigFile, source: string): ServerConfig {
+  const tools = { ...base.tools };
+  for (const [tool, settings] of Object.entries(file.tools || {}) as [ConfigurableTool, ConfigFile['defaults']][]) {
+    if (!settings) continue;
+    const existing = tools[tool] || {};
+    tools[tool] = {
+      ...existing,
+      ...settings,
+      retry: mergeRetry(existing.retry || {}, settings.retry),
+    };
+  }
+
+  return {
+    qBinary: file.qBinary ?? base.qBinary,
+    dataDir: file.dataDir ?? base.dataDir,
+    transport: file.transport ?? base.transport,
+    http: { ...base.http, ...file.http },
+    allowedRoots: file.allowedRoots ?? base.allowedRoots,
+    fileContext: { ...base.fileContext, ...file.fileContext },
+    concurrency: { ...base.concurrency, ...file.concurrency },
+    cache: { ...base.cache, ...file.cache },
+    circuitBreaker: { ...base.circuitBreaker, ...file.circuitBreaker },
+    // Rules of a later (more specific) file are checked first
+    errorRules: [...(file.errorRules ?? []), ...base.errorRules],
+    downloads: { ...base.downloads, ...file.downloads },
+    network: {
+      ...base.network,
+      ...file.network,
+      denyHosts: [...base.network.denyHosts, ...(file.network?.denyHosts ?? [])],
+    },
+    defaults: {
+      ...base.defaults,
+      ...file.defaults,
+      retry: mergeRetry(base.defaults.retry, file.defaults?.retry),
+    },
+    tools,
+    trustProjectConfig: file.trustProjectConfig ?? base.trustProjectConfig,
+    sources: [...base.sources, source],
+  };
+}
+
+/**
+ * Effective settings for one tool: the tool's own block layered over the defaults
+ */
+export function getToolSettings(config: ServerConfig, tool: ConfigurableTool): ToolSettings {
+  const overrides = config.tools[tool] || {};
+  return {
+    ...config.defaults,
+    ...overrides,
+    retry: mergeRetry(config.defaults.retry, overrides.retry),
+  };
+}
+
+function validateMergedConfig(config: ServerConfig): void {
+  const issues: string[] = [];
+  const scopes: [string, ToolSettings][] = [
+    ['defaults', config.defaults],
+    ...CONFIGURABLE_TOOLS.map(tool => [`tools.${tool}`, getToolSettings(config, tool)] as [string, ToolSettings]),
+  ];
+
+  for (const [scope, settings] of scopes) {
+    if (settings.retry.baseDelayMs > settings.retry.maxDelayMs) {
+      issues.push(`${scope}.retry: baseDelayMs (${settings.retry.baseDelayMs}) must not exceed maxDelayMs (${settings.retry.maxDelayMs})`);
+    }
+    for (const [type, policy] of Object.entries(settings.retry.errorTypes) as [QErrorType, Partial<RetryPolicy>][]) {
+      const baseDelayMs = policy.baseDelayMs ?? settings.retry.baseDelayMs;
+      const maxDelayMs = policy.maxDelayMs ?? settings.retry.maxDelayMs;
+      if (baseDelayMs > maxDelayMs) {
+        issues.push(`${scope}.retry.errorTypes.${type}: baseDelayMs (${baseDelayMs}) must not exceed maxDelayMs (${maxDelayMs})`);
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(`Invalid configuration (${config.sources.join(', ')})`, issues);
+  }
+}
+
+export function loadConfig(options: { userConfigPath?: string; projectConfigPath?: string } = {}): ServerConfig {
+  const userConfigPath = path.resolve(options.userConfigPath ?? getUserConfigPath());
+  const projectConfigPath = path.resolve(options.projectConfigPath ?? getProjectConfigPath());
+  const candidates: [string, 'user' | 'project'][] = [[userConfigPath, 'user']];
+  // Run from the home directory, the project file is the user file
+  if (projectConfigPath !== userConfigPath) {
+    candidates.push([projectConfigPath, 'project']);
+  }
+
+  let config: ServerConfig = DEFAULT_CONFIG;
+  for (const [filePath, scope] of candidates) {
+    const file = readConfigFile(filePath, scope, config.trustProjectConfig);
+    if (file) {
+      config = mergeConfig(config, file, filePath);
+    }
+  }
+
+  validateMergedConfig(config);
+  return config;
+}
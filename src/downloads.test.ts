@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import * as os from 'os';
+import { AddressInfo } from 'net';
+import { createHash } from 'crypto';
+import { DEFAULT_CONFIG } from './config.js';
+import { DownloadManager, filenameFromUrl } from './downloads.js';
+import { NetworkPolicy } from './network-policy.js';
+
+describe('download manager', () => {
+  const body = Buffer.from(Array.from({ length: 5000 }, (_, i) => i % 251));
+  const sha256 = createHash('sha256').update(body).digest('hex');
+  let server: http.Server;
+  let baseUrl: string;
+  let sessionDir: string;
+  let etag = '"v1"';
+  // Ranged responses drop the connection after this many bytes
+  let dropAfter: number | undefined;
+  let ignoreRange = false;
+  const ranges: string[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      ranges.push(req.headers.range ?? '');
+      const match = req.headers.range?.match(/^bytes=(\d+)-(\d+)$/);
+      if (ignoreRange || !match) {
+        res.writeHead(200, { 'Content-Length': body.length, ETag: etag });
+        res.end(body);
+        return;
+      }
+      const start = Number(match[1]);
+      if (start >= body.length) {
+        res.writeHead(416, { 'Content-Range': `bytes */${body.length}` });
+        res.end();
+        return;
+      }
+      const end = Math.min(Number(match[2]), body.length - 1);
+      res.writeHead(206, { 'Content-Range': `bytes ${start}-${end}/${body.length}`, 'Content-Length': end - start + 1, ETag: etag });
+      if (dropAfter !== undefined) {
+        res.write(body.subarray(start, start + dropAfter), () => setTimeout(() => res.socket?.destroy(), 50));
+        return;
+      }
+      res.end(body.subarray(start, end + 1));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    sessionDir = fs.mkdtempSync(path.join(os.tmpdir(), 'amazon-q-downloads-'));
+    etag = '"v1"';
+    dropAfter = undefined;
+    ignoreRange = false;
+    ranges.length = 0;
+  });
+
+  afterEach(() => {
+    fs.rmSync(sessionDir, { recursive: true, force: true });
+  });
+
+  const manager = () => new DownloadManager(
+    { chunkBytes: 2048, maxBytes: 1024 * 1024 },
+    new NetworkPolicy({ ...DEFAULT_CONFIG.network, allowHosts: ['127.0.0.1'] })
+  );
+
+  it('should download in ranged chunks and verify the checksum', async () => {
+    const result = await manager().download(sessionDir, { url: `${baseUrl}/files/data.bin`, filename: 'data.bin', sha256, headers: {} });
+
+    expect(ranges).toEqual(['bytes=0-2047', 'bytes=2048-4095', 'bytes=4096-6143']);
+    expect(result).toMatchObject({ size: 5000, sha256, verified: true, resumedFromBytes: 0, chunks: 3 });
+    expect(fs.readFileSync(result.path)).toEqual(body);
+    expect(fs.readdirSync(path.dirname(result.path))).toEqual(['data.bin']);
+  });
+
+  it('should resume an interrupted download from the partial file', async () => {
+    const request = { url: `${baseUrl}/data.bin`, filename: 'data.bin', headers: {} };
+    dropAfter = 1000;
+    await expect(manager().download(sessionDir, request)).rejects.toMatchObject({ reason: 'network' });
+
+    // A new manager stands in for a restarted server
+    const restarted = manager();
+    expect(restarted.list(sessionDir)).toMatchObject([{ filename: 'data.bin', state: 'interrupted', downloadedBytes: 1000 }]);
+
+    dropAfter = undefined;
+    const result = await restarted.download(sessionDir, request);
+
+    expect(result).toMatchObject({ size: 5000, sha256, resumedFromBytes: 1000 });
+    expect(fs.readFileSync(result.path)).toEqual(body);
+    expect(restarted.list(sessionDir)).toEqual([]);
+  });
+
+  it('should start over when the file changed on the server or ranges are not supported', async () => {
+    const request = { url: `${baseUrl}/data.bin`, filename: 'data.bin', headers: {} };
+    dropAfter = 1000;
+    await manager().download(sessionDir, request).catch(() => undefined);
+
+    dropAfter = undefined;
+    etag = '"v2"';
+    expect(await manager().download(sessionDir, request)).toMatchObject({ size: 5000, sha256, resumedFromBytes: 0 });
+
+    ignoreRange = true;
+    expect(await manager().download(sessionDir, request)).toMatchObject({ size: 5000, sha256, chunks: 1 });
+  });
+
+  it('should discard a download that does not match the expected checksum', async () => {
+    const request = { url: `${baseUrl}/data.bin`, filename: 'data.bin', sha256: 'a'.repeat(64), headers: {} };
+
+    await expect(manager().download(sessionDir, request)).rejects.toMatchObject({ reason: 'checksum' });
+    expect(fs.readdirSync(path.join(sessionDir, 'downloads'))).toEqual([]);
+  });
+
+  it('should derive a safe file name from the URL', () => {
+    expect(filenameFromUrl('https://example.com/releases/v1.2/tool%20kit.tar.gz?sig=1')).toBe('tool_kit.tar.gz');
+    expect(filenameFromUrl('https://example.com/')).toBe('download');
+    expect(filenameFromUrl('https://example.com/%2E%2E')).toBe('download');
+  });
+});
@@ -0,0 +1,349 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { DownloadSettings } from './config.js';
+import { NetworkPolicy, NetworkPolicyError } from './network-policy.js';
+
+/**
+ * Resumable downloads into a session directory
+ *
+ * A download is fetched in ranged chunks into `<name>.part`, next to a
+ * `<name>.download.json` file recording the URL, the server's validators and
+ * the total size. Both survive an interrupted call or a server restart, so the
+ * next call for the same file continues from the end of the partial file. Once
+ * complete, the file is checked against the expected SHA-256 (if any) and
+ * renamed into place.
+ */
+
+export const DOWNLOADS_DIR = 'downloads';
+
+const PART_SUFFIX = '.part';
+const STATE_SUFFIX = '.download.json';
+
+export type DownloadFailure = 'http' | 'network' | 'checksum' | 'too_large' | 'in_progress' | 'bad_range';
+
+export class DownloadError extends Error {
+  constructor(
+    message: string,
+    public reason: DownloadFailure,
+    public status?: number,
+    public statusText?: string,
+    public retryAfter?: string
+  ) {
+    super(message);
+    this.name = 'DownloadError';
+  }
+}
+
+export interface DownloadRequest {
+  url: string;
+  filename: string;
+  sha256?: string;
+  headers: Record<string, string>;
+}
+
+interface DownloadState {
+  url: string;
+  sha256?: string;
+  etag?: string;
+  lastModified?: string;
+  totalBytes: number | null;
+  startedAt: string;
+  updatedAt: string;
+}
+
+export type DownloadResult = {
+  path: string;
+  size: number;
+  sha256: string;
+  verified: boolean;
+  resumedFromBytes: number;
+  chunks: number;
+};
+
+export type DownloadStatus = {
+  filename: string;
+  url: string;
+  state: 'downloading' | 'interrupted';
+  downloadedBytes: number;
+  totalBytes: number | null;
+  percent: number | null;
+  startedAt: string;
+  updatedAt: string;
+};
+
+// Names derived from a URL keep only characters that are safe in any file system
+export function filenameFromUrl(url: string): string {
+  let name = '';
+  try {
+    name = decodeURIComponent(path.posix.basename(new URL(url).pathname));
+  } catch {
+    // Malformed escapes fall back to the default name
+  }
+  name = name.replace(/[^A-Za-z0-9._-]/g, '_');
+  return name === '' || name === '.' || name === '..' ? 'download' : name;
+}
+
+// `bytes 0-99/1000`, `bytes 0-99/*`, or `bytes */1000` on a 416 response
+export function parseContentRange(header: string | null): { start: number | null; end: number | null; total: number | null } | undefined {
+  const match = header?.match(/^bytes (?:(\d+)-(\d+)|\*)\/(\d+|\*)$/);
+  if (!match) return undefined;
+  return {
+    start: match[1] === undefined ? null : Number(match[1]),
+    end: match[2] === undefined ? null : Number(match[2]),
+    total: match[3] === '*' ? null : Number(match[3]),
+  };
+}
+
+export async function hashFile(file: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of fs.createReadStream(file)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+export class DownloadManager {
+  // In-progress downloads by target path, with the bytes written so far
+  private active = new Map<string, { url: string; downloadedBytes: number; totalBytes: number | null; startedAt: string; updatedAt: string }>();
+
+  constructor(private settings: DownloadSettings, private network: NetworkPolicy) {}
+
+  async download(sessionDir: string, request: DownloadRequest, signal?: AbortSignal): Promise<DownloadResult> {
+    const dir = path.join(sessionDir, DOWNLOADS_DIR);
+    const target = path.join(dir, request.filename);
+    const partFile = target + PART_SUFFIX;
+    const stateFile = target + STATE_SUFFIX;
+
+    if (this.active.has(target)) {
+      throw new DownloadError(`${request.filename} is already being downloaded`, 'in_progress');
+    }
+    fs.mkdirSync(dir, { recursive: true });
+
+    // A partial file only resumes if it belongs to the same URL
+    let state = this.readState(stateFile);
+    if (!state || state.url !== request.url || !fs.existsSync(partFile)) {
+      const now = new Date().toISOString();
+      state = { url: request.url, totalBytes: null, startedAt: now, updatedAt: now };
+      fs.writeFileSync(partFile, '');
+    }
+    state.sha256 = request.sha256 ?? state.sha256;
+    this.writeState(stateFile, state);
+
+    let offset = fs.statSync(partFile).size;
+    let resumedFromBytes = offset;
+    let chunks = 0;
+    const progress = { url: request.url, downloadedBytes: offset, totalBytes: state.totalBytes, startedAt: state.startedAt, updatedAt: state.updatedAt };
+    this.active.set(target, progress);
+
+    const handle = await fs.promises.open(partFile, 'r+');
+    try {
+      while (state.totalBytes === null || offset < state.totalBytes) {
+        const end = offset + this.settings.chunkBytes - 1;
+        // A changed file comes back whole (200) instead of as the range
+        const validator = state.etag && !state.etag.startsWith('W/') ? state.etag : state.lastModified;
+        const response = await this.fetchRange(request, offset, end, validator, signal);
+
+        if (response.status === 416) {
+          // Asked past the end: complete if the server's size matches what we have
+          await response.body?.cancel();
+          const range = parseContentRange(response.headers.get('content-range'));
+          // A file of unknown size that ended exactly on a chunk boundary has no total either
+          if (range?.total === offset || (state.totalBytes === null && range?.total === null && chunks > 0)) {
+            state.totalBytes = offset;
+            break;
+          }
+          throw new DownloadError(`Server rejected the range starting at byte ${offset}`, 'bad_range', 416, response.statusText);
+        }
+
+        if (response.status === 200) {
+          // Ranges are not supported or the file changed: the body is the whole file
+          await handle.truncate(0);
+          resumedFromBytes = 0;
+          const declared = response.headers.get('content-length');
+          state.totalBytes = declared ? Number(declared) : null;
+          progress.totalBytes = state.totalBytes;
+          offset = await this.writeBody(response, handle, 0, progress);
+          state.totalBytes = offset;
+          chunks++;
+          break;
+        }
+
+        if (response.status !== 206) {
+          await response.body?.cancel();
+          throw new DownloadError(
+            `HTTP ${response.status}: ${response.statusText}`,
+            'http',
+            response.status,
+            response.statusText,
+            response.headers.get('retry-after') ?? undefined
+          );
+        }
+
+        // The file changed on the server since the partial file was started
+        const etag = response.headers.get('etag') ?? undefined;
+        const lastModified = response.headers.get('last-modified') ?? undefined;
+        if ((state.etag && etag && etag !== state.etag) || (state.lastModified && lastModified && lastModified !== state.lastModified)) {
+          await response.body?.cancel();
+          await handle.truncate(0);
+          offset = 0;
+          resumedFromBytes = 0;
+          state = { ...state, etag: undefined, lastModified: undefined, totalBytes: null };
+          progress.downloadedBytes = 0;
+          continue;
+        }
+        state.etag ??= etag;
+        state.lastModified ??= lastModified;
+
+        const range = parseContentRange(response.headers.get('content-range'));
+        if (!range || range.start !== offset) {
+          await response.body?.cancel();
+          throw new DownloadError(
+            `Expected a range starting at byte ${offset}, got ${response.headers.get('content-range') ?? 'no Content-Range'}`,
+            'bad_range'
+          );
+        }
+        state.totalBytes = range.total;
+        progress.totalBytes = range.total;
+        if (range.total !== null && range.total > this.settings.maxBytes) {
+          await response.body?.cancel();
+          throw new DownloadError(`File is ${range.total} bytes, over the ${this.settings.maxBytes} byte limit`, 'too_large');
+        }
+
+        const written = await this.writeBody(response, handle, offset, progress);
+        offset += written;
+        chunks++;
+        state.updatedAt = new Date().toISOString();
+        this.writeState(stateFile, state);
+
+        if (written === 0) {
+          throw new DownloadError(`Server returned an empty range at byte ${offset}`, 'bad_range');
+        }
+        // Without a total size, a short chunk is the end of the file
+        if (range.total === null && written < end - range.start + 1) {
+          state.totalBytes = offset;
+        }
+      }
+    } finally {
+      await handle.close();
+      this.active.delete(target);
+      state.updatedAt = new Date().toISOString();
+      this.writeState(stateFile, state);
+    }
+
+    const sha256 = await hashFile(partFile);
+    if (state.sha256 && sha256 !== state.sha256.toLowerCase()) {
+      // Start over next time rather than resuming corrupt data
+      fs.rmSync(partFile, { force: true });
+      fs.rmSync(stateFile, { force: true });
+      throw new DownloadError(`SHA-256 mismatch: expected ${state.sha256}, got ${sha256}`, 'checksum');
+    }
+
+    fs.renameSync(partFile, target);
+    fs.rmSync(stateFile, { force: true });
+    return { path: target, size: offset, sha256, verified: state.sha256 !== undefined, resumedFromBytes, chunks };
+  }
+
+  // Downloads in progress in this process, and partial files left by interrupted ones
+  list(sessionDir: string): DownloadStatus[] {
+    const dir = path.join(sessionDir, DOWNLOADS_DIR);
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+
+    return fs.readdirSync(dir)
+      .filter(name => name.endsWith(STATE_SUFFIX))
+      .flatMap(name => {
+        const filename = name.slice(0, -STATE_SUFFIX.length);
+        const target = path.join(dir, filename);
+        const state = this.readState(path.join(dir, name));
+        if (!state) return [];
+
+        const active = this.active.get(target);
+        let downloadedBytes = active?.downloadedBytes ?? 0;
+        if (!active) {
+          try {
+            downloadedBytes = fs.statSync(target + PART_SUFFIX).size;
+          } catch {
+            return [];
+          }
+        }
+        const totalBytes = active?.totalBytes ?? state.totalBytes;
+        return [{
+          filename,
+          url: state.url,
+          state: active ? 'downloading' as const : 'interrupted' as const,
+          downloadedBytes,
+          totalBytes,
+          percent: totalBytes ? Math.floor((downloadedBytes / totalBytes) * 100) : null,
+          startedAt: state.startedAt,
+          updatedAt: active?.updatedAt ?? state.updatedAt,
+        }];
+      });
+  }
+
+  private async fetchRange(request: DownloadRequest, start: number, end: number, validator?: string, signal?: AbortSignal): Promise<Response> {
+    try {
+      return await this.network.fetch(request.url, {
+        headers: {
+          'User-Agent': 'amazon-q-mcp-server/1.0.0',
+          ...request.headers,
+          'Range': `bytes=${start}-${end}`,
+          ...(validator ? { 'If-Range': validator } : {}),
+        },
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted || error instanceof NetworkPolicyError) throw error;
+      const cause = error instanceof Error && error.cause instanceof Error ? `: ${error.cause.message}` : '';
+      throw new DownloadError(`${error instanceof Error ? error.message : String(error)}${cause}`, 'network');
+    }
+  }
+
+  // Streams the body to the file so a chunk is never held in memory as a whole
+  private async writeBody(
+    response: Response,
+    handle: fs.promises.FileHandle,
+    position: number,
+    progress: { downloadedBytes: number; updatedAt: string }
+  ): Promise<number> {
+    if (!response.body) {
+      return 0;
+    }
+
+    const reader = response.body.getReader();
+    let written = 0;
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (position + written + value.byteLength > this.settings.maxBytes) {
+          await reader.cancel();
+          throw new DownloadError(`Download exceeded the ${this.settings.maxBytes} byte limit`, 'too_large');
+        }
+        await handle.write(value, 0, value.byteLength, position + written);
+        written += value.byteLength;
+        progress.downloadedBytes = position + written;
+        progress.updatedAt = new Date().toISOString();
+      }
+    } catch (error) {
+      if (error instanceof DownloadError || (error instanceof Error && error.name === 'AbortError')) throw error;
+      throw new DownloadError(`Connection lost after ${position + written} bytes: ${error instanceof Error ? error.message : String(error)}`, 'network');
+    }
+    return written;
+  }
+
+  private readState(stateFile: string): DownloadState | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(stateFile, 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private writeState(stateFile: string, state: DownloadState): void {
+    const tmp = `${stateFile}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(state, null, 2));
+    fs.renameSync(tmp, stateFile);
+  }
+}
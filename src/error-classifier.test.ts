@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { ErrorClassifier } from './error-classifier.js';
+import { QProcessError } from './errors.js';
+
+// stderr of failed `q chat` / `q translate` runs, with the exit code they came with
+const STDERR_CORPUS: { stderr: string; exitCode: number; type: string; rule: string }[] = [
+  {
+    stderr: 'Amazon Q is having trouble responding right now. Please try again later.',
+    exitCode: 1,
+    type: 'SERVICE_CAPACITY_ERROR',
+    rule: 'service-capacity',
+  },
+  {
+    stderr: 'error: ThrottlingException: Too many requests, please wait before trying again. Retry-After: 5',
+    exitCode: 1,
+    type: 'SERVICE_CAPACITY_ERROR',
+    rule: 'service-capacity',
+  },
+  {
+    stderr: 'error: Monthly request limit reached. Upgrade to Amazon Q Developer Pro for higher limits.',
+    exitCode: 1,
+    type: 'QUOTA_EXCEEDED',
+    rule: 'quota-exhausted',
+  },
+  {
+    stderr: 'error: ServiceQuotaExceededException: You have exceeded the service quota for this account',
+    exitCode: 1,
+    type: 'QUOTA_EXCEEDED',
+    rule: 'quota-exhausted',
+  },
+  {
+    stderr: 'error: You are not logged in, please log in with q login',
+    exitCode: 1,
+    type: 'AUTHENTICATION_ERROR',
+    rule: 'authentication',
+  },
+  {
+    stderr: 'error: Failed to refresh token: InvalidGrantException: Invalid refresh token provided',
+    exitCode: 1,
+    type: 'AUTHENTICATION_ERROR',
+    rule: 'authentication',
+  },
+  {
+    stderr: 'AccessDeniedException: User is not authorized to make this call.',
+    exitCode: 1,
+    type: 'AUTHENTICATION_ERROR',
+    rule: 'authentication',
+  },
+  {
+    stderr: 'error: dispatch failure (io error): error trying to connect: dns error: failed to lookup address information',
+    exitCode: 1,
+    type: 'NETWORK_ERROR',
+    rule: 'network',
+  },
+  {
+    stderr: 'error: error sending request for url (https://q.us-east-1.amazonaws.com/): connection closed before message completed',
+    exitCode: 1,
+    type: 'NETWORK_ERROR',
+    rule: 'network',
+  },
+  {
+    stderr: 'error: Agent not found: reviewer',
+    exitCode: 1,
+    type: 'CONFIGURATION_ERROR',
+    rule: 'configuration',
+  },
+  {
+    stderr: 'error: Failed to parse settings file ~/.aws/amazonq/settings.json: expected value at line 1',
+    exitCode: 1,
+    type: 'CONFIGURATION_ERROR',
+    rule: 'configuration',
+  },
+  {
+    stderr: "error: unexpected argument '--foo' found\n\nUsage: q chat [OPTIONS] [INPUT]\n\nFor more information, try '--help'.",
+    exitCode: 2,
+    type: 'VALIDATION_ERROR',
+    rule: 'cli-usage',
+  },
+  {
+    stderr: 'sh: 1: q: command not found',
+    exitCode: 127,
+    type: 'Q_CLI_NOT_FOUND',
+    rule: 'q-cli-command-not-found',
+  },
+  {
+    // Used to be a configuration error because the path contains "config"
+    stderr: 'error: failed to write /home/dev/.config/q/history: No space left on device',
+    exitCode: 1,
+    type: 'UNKNOWN_ERROR',
+    rule: 'unknown',
+  },
+];
+
+const exitError = (stderr: string, exitCode: number) =>
+  new QProcessError(`Q CLI exited with code ${exitCode}: ${stderr}`, 'exit', exitCode, null, stderr);
+
+describe('error classifier', () => {
+  const classifier = new ErrorClassifier();
+
+  it.each(STDERR_CORPUS)('should classify "$stderr" as $type', ({ stderr, exitCode, type, rule }) => {
+    expect(classifier.classify(exitError(stderr, exitCode), 'ask_q')).toMatchObject({ type, rule });
+  });
+
+  it('should classify process failures by how the process ended', () => {
+    const timeout = new QProcessError('Q CLI timed out after 30000ms: ', 'timeout', null, 'SIGTERM', '');
+    const outputLimit = new QProcessError('Output size limit exceeded (1024 bytes)', 'output_limit', null, null, '');
+    const missing = new QProcessError('Failed to execute Q CLI: spawn q ENOENT', 'spawn', null, null, '', 'ENOENT');
+    const interrupted = new QProcessError('Q CLI exited with signal SIGINT: ', 'exit', null, 'SIGINT', '');
+
+    expect(classifier.classify(timeout, 'ask_q')).toEqual({ type: 'TIMEOUT', code: 'PROCESS_TIMEOUT', retryable: false, rule: 'process-timeout' });
+    expect(classifier.classify(outputLimit, 'ask_q').type).toBe('OUTPUT_LIMIT_EXCEEDED');
+    expect(classifier.classify(missing, 'ask_q').type).toBe('Q_CLI_NOT_FOUND');
+    expect(classifier.classify(interrupted, 'ask_q').type).toBe('CANCELLED');
+  });
+
+  it('should not mistake file system errors for a missing Q CLI', () => {
+    const error = Object.assign(new Error("ENOENT: no such file or directory, open 'notes.md'"), { code: 'ENOENT' });
+
+    expect(classifier.classify(error, 'ask_q').type).toBe('UNKNOWN_ERROR');
+  });
+
+  it('should check configured rules first and honour their tool scope', () => {
+    const custom = new ErrorClassifier([
+      { id: 'proxy-busy', type: 'SERVICE_CAPACITY_ERROR', code: 'PROXY_BUSY', retryable: true, stderr: 'proxy .* busy', tools: ['q_translate'] },
+      { id: 'agent-typo', type: 'VALIDATION_ERROR', text: 'agent not found' },
+    ]);
+    const proxyBusy = exitError('error: upstream proxy is busy', 1);
+
+    expect(custom.classify(proxyBusy, 'q_translate')).toEqual({ type: 'SERVICE_CAPACITY_ERROR', code: 'PROXY_BUSY', retryable: true, rule: 'proxy-busy' });
+    expect(custom.classify(proxyBusy, 'ask_q').rule).toBe('unknown');
+    expect(custom.classify(exitError('error: Agent not found: x', 1), 'ask_q')).toMatchObject({ type: 'VALIDATION_ERROR', code: 'VALIDATION_ERROR' });
+  });
+});
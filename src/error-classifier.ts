@@ -0,0 +1,217 @@
+import { ErrorRuleConfig } from './config.js';
+import { ErrorType, QProcessError, QProcessFailure } from './errors.js';
+
+/**
+ * Classification of q failures
+ *
+ * An ordered rule table decides the error type, code and retryability of a
+ * failure. Every condition a rule sets must hold; list conditions match any of
+ * their values. The first matching rule wins, so specific rules (quota
+ * exhaustion) come before general ones (throttling). Rules from the `errorRules`
+ * config key are checked before the built-in ones.
+ */
+
+export interface ErrorMatch {
+  // Tested against the error message, q's stderr, or either of them
+  message?: RegExp;
+  stderr?: RegExp;
+  text?: RegExp;
+  exitCodes?: number[];
+  signals?: string[];
+  failures?: QProcessFailure[];
+  // errno code of a failed spawn, such as ENOENT
+  errnos?: string[];
+  // Error class name, such as AbortError
+  names?: string[];
+  // Tool the failing call was made for
+  tools?: string[];
+}
+
+export interface ClassificationRule {
+  id: string;
+  type: ErrorType;
+  code: string;
+  retryable: boolean;
+  match: ErrorMatch;
+}
+
+export type ErrorFacts = {
+  message: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: string | null;
+  failure?: QProcessFailure;
+  errno?: string;
+  name?: string;
+  tool: string;
+};
+
+export type Classification = {
+  type: ErrorType;
+  code: string;
+  retryable: boolean;
+  rule: string;
+};
+
+export const DEFAULT_CLASSIFICATION_RULES: ClassificationRule[] = [
+  {
+    id: 'cancelled-abort',
+    type: ErrorType.CANCELLED,
+    code: 'REQUEST_CANCELLED',
+    retryable: false,
+    match: { names: ['AbortError'] },
+  },
+  {
+    id: 'cancelled-interrupt',
+    type: ErrorType.CANCELLED,
+    code: 'REQUEST_CANCELLED',
+    retryable: false,
+    match: { failures: ['exit'], signals: ['SIGINT'] },
+  },
+  {
+    id: 'process-timeout',
+    type: ErrorType.TIMEOUT,
+    code: 'PROCESS_TIMEOUT',
+    retryable: false,
+    match: { failures: ['timeout'] },
+  },
+  {
+    id: 'output-limit',
+    type: ErrorType.OUTPUT_LIMIT_EXCEEDED,
+    code: 'OUTPUT_LIMIT',
+    retryable: false,
+    match: { failures: ['output_limit'] },
+  },
+  {
+    id: 'q-cli-not-executable',
+    type: ErrorType.Q_CLI_NOT_FOUND,
+    code: 'Q_CLI_MISSING',
+    retryable: false,
+    match: { failures: ['spawn'], errnos: ['ENOENT', 'EACCES', 'ENOTDIR'] },
+  },
+  {
+    id: 'q-cli-command-not-found',
+    type: ErrorType.Q_CLI_NOT_FOUND,
+    code: 'Q_CLI_MISSING',
+    retryable: false,
+    match: { exitCodes: [126, 127] },
+  },
+  {
+    id: 'quota-exhausted',
+    type: ErrorType.QUOTA_EXCEEDED,
+    code: 'QUOTA_EXHAUSTED',
+    retryable: false,
+    match: { text: /ServiceQuotaExceededException|quota (?:has been |was )?(?:exceeded|exhausted|reached)|(?:monthly|daily) (?:request |usage )?limit|usage limit (?:reached|exceeded)|reached the limit/i },
+  },
+  {
+    id: 'authentication',
+    type: ErrorType.AUTHENTICATION_ERROR,
+    code: 'AUTH_FAILED',
+    retryable: false,
+    match: { text: /AccessDeniedException|UnauthorizedOperation|ExpiredToken|InvalidGrantException|not logged in|login required|please (?:run )?`?q login|authentication (?:failed|required|error)|token (?:has )?expired|failed to refresh (?:the )?token/i },
+  },
+  {
+    id: 'service-capacity',
+    type: ErrorType.SERVICE_CAPACITY_ERROR,
+    code: 'SERVICE_OVERLOAD',
+    retryable: true,
+    match: { text: /trouble responding right now|ThrottlingException|throttl|rate limit|too many requests|\b429\b|service (?:is )?(?:temporarily )?unavailable|ServiceUnavailableException|\b503\b|high (?:load|demand)|capacity/i },
+  },
+  {
+    id: 'network',
+    type: ErrorType.NETWORK_ERROR,
+    code: 'NETWORK_FAILED',
+    retryable: true,
+    match: { text: /ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|EHOSTUNREACH|ENETUNREACH|dispatch failure|error sending request|connection (?:refused|reset|closed)|network (?:error|is unreachable)|dns error|tls handshake|SSL|certificate/i },
+  },
+  {
+    id: 'configuration',
+    type: ErrorType.CONFIGURATION_ERROR,
+    code: 'CONFIG_ERROR',
+    retryable: false,
+    match: { text: /q doctor|invalid (?:configuration|config file|settings)|failed to (?:parse|load|read) (?:the )?(?:config|configuration|settings)|(?:agent|profile|model) .{0,80}(?:not found|does not exist|is not available)|unknown (?:agent|profile|model)/i },
+  },
+  {
+    id: 'cli-usage',
+    type: ErrorType.VALIDATION_ERROR,
+    code: 'INVALID_CLI_ARGS',
+    retryable: false,
+    match: { failures: ['exit'], exitCodes: [2], stderr: /unexpected argument|invalid value|Usage:/ },
+  },
+];
+
+const UNKNOWN_RULE = 'unknown';
+
+export function extractErrorFacts(error: any, tool: string): ErrorFacts {
+  if (error instanceof QProcessError) {
+    return {
+      message: error.message,
+      stderr: error.stderr,
+      exitCode: error.exitCode,
+      signal: error.signal,
+      failure: error.failure,
+      errno: error.errno,
+      name: error.name,
+      tool,
+    };
+  }
+  return {
+    message: error?.message || String(error),
+    stderr: typeof error?.stderr === 'string' ? error.stderr : '',
+    exitCode: typeof error?.exitCode === 'number' ? error.exitCode : null,
+    signal: typeof error?.signal === 'string' ? error.signal : null,
+    errno: typeof error?.code === 'string' ? error.code : undefined,
+    name: typeof error?.name === 'string' ? error.name : undefined,
+    tool,
+  };
+}
+
+function matches(match: ErrorMatch, facts: ErrorFacts): boolean {
+  const oneOf = <T>(values: T[] | undefined, value: T | undefined | null) =>
+    values === undefined || (value !== undefined && value !== null && values.includes(value));
+
+  return (!match.message || match.message.test(facts.message)) &&
+    (!match.stderr || match.stderr.test(facts.stderr)) &&
+    (!match.text || match.text.test(facts.message) || match.text.test(facts.stderr)) &&
+    oneOf(match.exitCodes, facts.exitCode) &&
+    oneOf(match.signals, facts.signal) &&
+    oneOf(match.failures, facts.failure) &&
+    oneOf(match.errnos, facts.errno) &&
+    oneOf(match.names, facts.name) &&
+    oneOf(match.tools, facts.tool);
+}
+
+export function compileErrorRule(rule: ErrorRuleConfig): ClassificationRule {
+  const pattern = (source?: string) => source === undefined ? undefined : new RegExp(source, 'i');
+  return {
+    id: rule.id,
+    type: rule.type as ErrorType,
+    code: rule.code ?? rule.type,
+    retryable: rule.retryable ?? false,
+    match: {
+      message: pattern(rule.message),
+      stderr: pattern(rule.stderr),
+      text: pattern(rule.text),
+      exitCodes: rule.exitCodes,
+      signals: rule.signals,
+      tools: rule.tools,
+    },
+  };
+}
+
+export class ErrorClassifier {
+  private rules: ClassificationRule[];
+
+  constructor(customRules: ErrorRuleConfig[] = [], builtInRules: ClassificationRule[] = DEFAULT_CLASSIFICATION_RULES) {
+    this.rules = [...customRules.map(compileErrorRule), ...builtInRules];
+  }
+
+  classify(error: any, tool: string): Classification {
+    const facts = extractErrorFacts(error, tool);
+    const rule = this.rules.find(candidate => matches(candidate.match, facts));
+    if (!rule) {
+      return { type: ErrorType.UNKNOWN_ERROR, code: 'UNKNOWN', retryable: false, rule: UNKNOWN_RULE };
+    }
+    return { type: rule.type, code: rule.code, retryable: rule.retryable, rule: rule.id };
+  }
+}
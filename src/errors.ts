@@ -0,0 +1,125 @@
+import { RetryDetails } from './retry-policy.js';
+
+/**
+ * Error types shared by the server and the error classifier
+ */
+
+export enum ErrorType {
+  NETWORK_ERROR = 'NETWORK_ERROR',
+  AUTHENTICATION_ERROR = 'AUTHENTICATION_ERROR',
+  SERVICE_CAPACITY_ERROR = 'SERVICE_CAPACITY_ERROR',
+  QUOTA_EXCEEDED = 'QUOTA_EXCEEDED',
+  CONFIGURATION_ERROR = 'CONFIGURATION_ERROR',
+  VALIDATION_ERROR = 'VALIDATION_ERROR',
+  Q_CLI_NOT_FOUND = 'Q_CLI_NOT_FOUND',
+  TIMEOUT = 'TIMEOUT',
+  OUTPUT_LIMIT_EXCEEDED = 'OUTPUT_LIMIT_EXCEEDED',
+  CANCELLED = 'CANCELLED',
+  CIRCUIT_OPEN = 'CIRCUIT_OPEN',
+  NETWORK_POLICY_DENIED = 'NETWORK_POLICY_DENIED',
+  RESOURCE_BUSY = 'RESOURCE_BUSY',
+  UNKNOWN_ERROR = 'UNKNOWN_ERROR'
+}
+
+export interface ErrorGuidance {
+  message: string;
+  actions: string[];
+  retryable: boolean;
+}
+
+export class MCPError extends Error {
+  // Set by executeWithRetry when the error ends a call
+  public retryDetails?: RetryDetails;
+  // Classification rule that produced this error, if it came from the classifier
+  public rule?: string;
+
+  constructor(
+    public type: ErrorType,
+    public code: string,
+    message: string,
+    public retryable: boolean = false,
+    public guidance?: ErrorGuidance
+  ) {
+    super(message);
+    this.name = 'MCPError';
+  }
+}
+
+// structuredContent of a failed tool call (isError: true)
+export type ToolErrorPayload = {
+  type: ErrorType;
+  code: string;
+  message: string;
+  retryable: boolean;
+  guidance: ErrorGuidance | null;
+  requestId: string | null;
+  timestamp: string;
+  rule: string | null;
+  retry: RetryDetails | null;
+};
+
+export const TOOL_ERROR_SCHEMA = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: Object.values(ErrorType) },
+    code: { type: 'string' },
+    message: { type: 'string' },
+    retryable: { type: 'boolean' },
+    guidance: {
+      type: ['object', 'null'],
+      properties: {
+        message: { type: 'string' },
+        actions: { type: 'array', items: { type: 'string' } },
+        retryable: { type: 'boolean' },
+      },
+    },
+    requestId: { type: ['string', 'null'] },
+    timestamp: { type: 'string' },
+    rule: { type: ['string', 'null'], description: 'Classification rule that matched the failure' },
+    retry: {
+      type: ['object', 'null'],
+      description: 'Every attempt of the call and why retrying stopped',
+      properties: {
+        attempts: { type: 'array', items: { type: 'object' } },
+        stoppedBy: { type: 'string' },
+        deadlineMs: { type: 'number' },
+        elapsedMs: { type: 'number' },
+      },
+    },
+  },
+  required: ['type', 'code', 'message', 'retryable', 'guidance', 'requestId', 'timestamp', 'rule', 'retry'],
+};
+
+export function toErrorPayload(error: MCPError, requestId?: string): ToolErrorPayload {
+  return {
+    type: error.type,
+    code: error.code,
+    message: error.message,
+    retryable: error.retryable,
+    guidance: error.guidance ?? null,
+    requestId: requestId ?? null,
+    timestamp: new Date().toISOString(),
+    rule: error.rule ?? null,
+    retry: error.retryDetails ?? null,
+  };
+}
+
+export type QProcessFailure = 'exit' | 'spawn' | 'timeout' | 'output_limit';
+
+/**
+ * A q process that did not finish successfully, with what the classifier matches on
+ */
+export class QProcessError extends Error {
+  constructor(
+    message: string,
+    public failure: QProcessFailure,
+    public exitCode: number | null,
+    public signal: string | null,
+    public stderr: string,
+    // errno code of a spawn failure, such as ENOENT
+    public errno?: string
+  ) {
+    super(message);
+    this.name = 'QProcessError';
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { buildFileContext, formatFileReport, globToRegExp, languageFor } from './file-context.js';
+
+describe('file context', () => {
+  let root: string;
+  const limits = { maxFiles: 20, maxFileBytes: 1000, maxTotalBytes: 5000 };
+
+  const write = (relative: string, content: string | Buffer) => {
+    const filePath = path.join(root, relative);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'amazon-q-files-')));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should label files with their path and a language fence', () => {
+    write('src/app.ts', 'export const x = 1;\n');
+
+    const context = buildFileContext(['src/app.ts'], { allowedRoots: [root], baseDir: root, limits });
+
+    expect(context.text).toBe('File: src/app.ts\n```typescript\nexport const x = 1;\n```\n\n');
+    expect(context.items).toEqual([{ path: 'src/app.ts', status: 'included', bytes: 20 }]);
+  });
+
+  it('should include only the requested line range', () => {
+    const filePath = write('notes.txt', 'one\ntwo\nthree\nfour\n');
+
+    const context = buildFileContext([{ path: filePath, startLine: 2, endLine: 3 }], { allowedRoots: [root], limits });
+
+    expect(context.text).toContain('(lines 2-3)\n```\ntwo\nthree\n```');
+    expect(context.items[0].lines).toBe('2-3');
+  });
+
+  it('should expand globs and skip binary files', () => {
+    write('src/a.ts', 'a');
+    write('src/nested/b.ts', 'b');
+    write('src/c.js', 'c');
+    write('src/d.ts', Buffer.from([0, 1, 2]));
+    write('node_modules/dep/e.ts', 'e');
+
+    const context = buildFileContext([`${root}/**/*.ts`], { allowedRoots: [root], baseDir: root, limits });
+
+    expect(context.items.map(item => [item.path, item.status])).toEqual([
+      ['src/a.ts', 'included'],
+      ['src/d.ts', 'skipped'],
+      ['src/nested/b.ts', 'included'],
+    ]);
+  });
+
+  it('should truncate at the per-file and total caps', () => {
+    write('big.log', 'line of text\n'.repeat(200));
+    write('second.log', 'more\n');
+
+    const context = buildFileContext(['big.log', 'second.log'], {
+      allowedRoots: [root], baseDir: root, limits: { maxFiles: 20, maxFileBytes: 100, maxTotalBytes: 91 },
+    });
+
+    expect(context.items[0]).toMatchObject({ status: 'truncated', bytes: 91, totalBytes: 2600 });
+    expect(context.items[1]).toMatchObject({ status: 'skipped', reason: 'total size limit of 91 bytes reached' });
+    expect(formatFileReport(context.items)).toContain('0 included, 1 truncated, 1 skipped (91 bytes)');
+  });
+
+  it('should refuse files outside the allowed roots and relative paths without a base', () => {
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'amazon-q-outside-'));
+    try {
+      fs.writeFileSync(path.join(outside, 'secret.txt'), 'secret');
+      fs.symlinkSync(path.join(outside, 'secret.txt'), path.join(root, 'link.txt'));
+
+      expect(() => buildFileContext([path.join(outside, 'secret.txt')], { allowedRoots: [root], limits })).toThrow(/outside the allowed roots/);
+      expect(() => buildFileContext(['link.txt'], { allowedRoots: [root], baseDir: root, limits })).toThrow(/outside the allowed roots/);
+      expect(() => buildFileContext(['link.txt'], { allowedRoots: [root], limits })).toThrow(/must be absolute/);
+
+      // Globs neither walk outside the roots nor list symlinks leading out of them
+      expect(() => buildFileContext([`${path.dirname(root)}/*/*.txt`], { allowedRoots: [root], limits })).toThrow(/Glob directory is outside the allowed roots/);
+      write('notes.txt', 'notes');
+      const context = buildFileContext(['*.txt'], { allowedRoots: [root], baseDir: root, limits });
+      expect(context.items.map(item => item.path)).toEqual(['notes.txt']);
+    } finally {
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('should translate glob syntax', () => {
+    expect(globToRegExp('/p/**/*.ts').test('/p/a.ts')).toBe(true);
+    expect(globToRegExp('/p/**/*.ts').test('/p/x/y/a.ts')).toBe(true);
+    expect(globToRegExp('/p/*.ts').test('/p/x/a.ts')).toBe(false);
+    expect(languageFor('/p/Dockerfile')).toBe('dockerfile');
+  });
+});
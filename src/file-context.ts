@@ -0,0 +1,279 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileContextSettings } from './config.js';
+import { resolveAllowedPath } from './working-directory.js';
+
+/**
+ * Local files attached to ask_q
+ *
+ * Requested files are read from the configured allowed roots, capped per file and
+ * in total, and assembled into labelled code blocks that precede the prompt on
+ * stdin. Every request produces a report line so the caller can see what Amazon Q
+ * actually received.
+ */
+
+export type FileRequest = string | { path: string; startLine?: number; endLine?: number };
+
+export interface FileContextItem {
+  path: string;
+  status: 'included' | 'truncated' | 'skipped';
+  bytes: number;
+  lines?: string;
+  totalBytes?: number;
+  reason?: string;
+}
+
+export interface FileContext {
+  text: string;
+  items: FileContextItem[];
+}
+
+export interface FileContextOptions {
+  allowedRoots: string[];
+  // Relative paths and globs are resolved against this directory (the workingDirectory)
+  baseDir?: string;
+  limits: FileContextSettings;
+}
+
+// Files are scanned for line ranges up to this size; anything beyond is not read
+const MAX_SCAN_BYTES = 10 * 1024 * 1024;
+const MAX_GLOB_ENTRIES = 10000;
+const SKIPPED_DIRECTORIES = new Set(['.git', 'node_modules']);
+
+const LANGUAGES: Record<string, string> = {
+  '.ts': 'typescript', '.tsx': 'tsx', '.js': 'javascript', '.jsx': 'jsx', '.mjs': 'javascript', '.cjs': 'javascript',
+  '.py': 'python', '.rb': 'ruby', '.go': 'go', '.rs': 'rust', '.java': 'java', '.kt': 'kotlin', '.cs': 'csharp',
+  '.c': 'c', '.h': 'c', '.cpp': 'cpp', '.hpp': 'cpp', '.swift': 'swift', '.php': 'php',
+  '.sh': 'bash', '.bash': 'bash', '.zsh': 'bash', '.ps1': 'powershell',
+  '.json': 'json', '.yaml': 'yaml', '.yml': 'yaml', '.toml': 'toml', '.xml': 'xml', '.ini': 'ini',
+  '.md': 'markdown', '.sql': 'sql', '.tf': 'hcl', '.hcl': 'hcl', '.html': 'html', '.css': 'css', '.scss': 'scss',
+};
+
+const LANGUAGES_BY_NAME: Record<string, string> = {
+  'Dockerfile': 'dockerfile',
+  'Makefile': 'makefile',
+};
+
+export function languageFor(filePath: string): string {
+  const name = path.basename(filePath);
+  return LANGUAGES_BY_NAME[name] ?? LANGUAGES[path.extname(name).toLowerCase()] ?? '';
+}
+
+export function isGlob(pattern: string): boolean {
+  return /[*?[]/.test(pattern);
+}
+
+/**
+ * Regex for a glob over absolute paths: `**` spans directories, `*` and `?` stay within one
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const followedBySlash = pattern[i + 2] === '/';
+      source += followedBySlash ? '(?:.*/)?' : '.*';
+      i += followedBySlash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function expandGlob(pattern: string, limit: number, allowedRoots: string[]): string[] {
+  // Walk from the longest leading part of the pattern without wildcards
+  const segments = pattern.split('/');
+  const firstWild = segments.findIndex(segment => isGlob(segment));
+  const walkRoot = segments.slice(0, firstWild).join('/') || '/';
+  const matcher = globToRegExp(pattern);
+  // Walking outside the roots would reveal the names of the files there
+  resolveAllowedPath(walkRoot, allowedRoots, 'Glob directory');
+
+  const matches: string[] = [];
+  let visited = 0;
+  const walk = (dir: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (matches.length >= limit || ++visited > MAX_GLOB_ENTRIES) return;
+      const entryPath = path.join(dir, entry.name);
+      // Symlinked directories are not followed; symlinked files are checked against the roots later
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRECTORIES.has(entry.name)) walk(entryPath);
+      } else if ((entry.isFile() || entry.isSymbolicLink()) && matcher.test(entryPath)) {
+        matches.push(entryPath);
+      }
+    }
+  };
+  walk(walkRoot);
+  return matches;
+}
+
+function fenceFor(content: string): string {
+  const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  return '`'.repeat(Math.max(3, longestRun + 1));
+}
+
+function readHead(filePath: string, maxBytes: number): Buffer {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(Math.min(maxBytes, fs.fstatSync(fd).size));
+    const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// Cut at the last complete line that fits, so truncation never splits a character
+function truncateToBytes(content: string, maxBytes: number): string {
+  const buffer = Buffer.from(content, 'utf8');
+  if (buffer.length <= maxBytes) {
+    return content;
+  }
+  const head = buffer.subarray(0, maxBytes).toString('utf8').replace(/\uFFFD$/, '');
+  const lastNewline = head.lastIndexOf('\n');
+  return lastNewline > 0 ? head.substring(0, lastNewline + 1) : head;
+}
+
+export function buildFileContext(requests: FileRequest[], options: FileContextOptions): FileContext {
+  const { limits } = options;
+  const items: FileContextItem[] = [];
+  const blocks: string[] = [];
+  const seen = new Set<string>();
+  let usedBytes = 0;
+
+  const toAbsolute = (requested: string) => {
+    if (path.isAbsolute(requested)) return requested;
+    if (!options.baseDir) {
+      throw new Error(`File path must be absolute when no workingDirectory is given: ${requested}`);
+    }
+    return path.join(options.baseDir, requested);
+  };
+  const label = (filePath: string) => {
+    const relative = options.baseDir ? path.relative(options.baseDir, filePath) : '';
+    return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : filePath;
+  };
+
+  // Expand globs first so the file count limit applies to what is actually read
+  const targets: { requested: string; absolute: string; startLine?: number; endLine?: number; fromGlob: boolean }[] = [];
+  for (const request of requests) {
+    const spec = typeof request === 'string' ? { path: request } : request;
+    const absolute = toAbsolute(spec.path);
+    if (typeof request === 'string' && isGlob(request)) {
+      const matches = expandGlob(absolute, limits.maxFiles + 1, options.allowedRoots);
+      if (matches.length === 0) {
+        items.push({ path: spec.path, status: 'skipped', bytes: 0, reason: 'no files match this pattern' });
+      }
+      targets.push(...matches.map(match => ({ requested: match, absolute: match, fromGlob: true })));
+    } else {
+      targets.push({ requested: spec.path, absolute, startLine: spec.startLine, endLine: spec.endLine, fromGlob: false });
+    }
+  }
+
+  for (const target of targets) {
+    const display = label(target.absolute);
+
+    let realPath: string;
+    try {
+      realPath = resolveAllowedPath(target.absolute, options.allowedRoots, 'File');
+    } catch (error) {
+      // An explicitly named file that cannot be read fails the call; glob matches that
+      // lead outside the roots (through a symlink) are left out without naming them
+      if (!target.fromGlob) throw error;
+      continue;
+    }
+
+    const stats = fs.statSync(realPath);
+    if (!stats.isFile()) {
+      if (!target.fromGlob) throw new Error(`File is not a regular file: ${target.requested}`);
+      continue;
+    }
+    if (seen.has(realPath)) continue;
+    seen.add(realPath);
+
+    if (seen.size > limits.maxFiles) {
+      items.push({ path: display, status: 'skipped', bytes: 0, reason: `more than ${limits.maxFiles} files requested` });
+      continue;
+    }
+    const remaining = limits.maxTotalBytes - usedBytes;
+    if (remaining <= 0) {
+      items.push({ path: display, status: 'skipped', bytes: 0, reason: `total size limit of ${limits.maxTotalBytes} bytes reached` });
+      continue;
+    }
+
+    const raw = readHead(realPath, MAX_SCAN_BYTES);
+    if (raw.subarray(0, 8192).includes(0)) {
+      items.push({ path: display, status: 'skipped', bytes: 0, reason: 'binary file' });
+      continue;
+    }
+
+    let content = raw.toString('utf8');
+    let lines: string | undefined;
+    if (target.startLine !== undefined || target.endLine !== undefined) {
+      const allLines = content.split('\n');
+      const start = Math.max(1, target.startLine ?? 1);
+      const end = Math.min(allLines.length, target.endLine ?? allLines.length);
+      if (start > end) {
+        throw new Error(`Line range ${start}-${target.endLine ?? ''} is outside ${target.requested} (${allLines.length} lines)`);
+      }
+      content = allLines.slice(start - 1, end).join('\n');
+      lines = `${start}-${end}`;
+    }
+
+    const fullBytes = lines ? Buffer.byteLength(content, 'utf8') : stats.size;
+    const cap = Math.min(limits.maxFileBytes, remaining);
+    const included = truncateToBytes(content, cap);
+    const includedBytes = Buffer.byteLength(included, 'utf8');
+    const truncated = includedBytes < fullBytes;
+    usedBytes += includedBytes;
+
+    const fence = fenceFor(included);
+    const heading = `File: ${display}${lines ? ` (lines ${lines})` : ''}${truncated ? ` (truncated to ${includedBytes} of ${fullBytes} bytes)` : ''}`;
+    blocks.push(`${heading}\n${fence}${languageFor(realPath)}\n${included.replace(/\n$/, '')}\n${fence}`);
+    items.push({
+      path: display,
+      status: truncated ? 'truncated' : 'included',
+      bytes: includedBytes,
+      ...(lines ? { lines } : {}),
+      ...(truncated ? { totalBytes: fullBytes } : {}),
+    });
+  }
+
+  return {
+    text: blocks.length > 0 ? `${blocks.join('\n\n')}\n\n` : '',
+    items,
+  };
+}
+
+/**
+ * Markdown summary of what was attached, returned alongside Amazon Q's answer
+ */
+export function formatFileReport(items: FileContextItem[]): string {
+  const count = (status: FileContextItem['status']) => items.filter(item => item.status === status).length;
+  const totalBytes = items.reduce((sum, item) => sum + item.bytes, 0);
+
+  const lines = items.map(item => {
+    const range = item.lines ? `lines ${item.lines}, ` : '';
+    switch (item.status) {
+      case 'included':
+        return `- \`${item.path}\` (${range}${item.bytes} bytes)`;
+      case 'truncated':
+        return `- \`${item.path}\` (${range}truncated to ${item.bytes} of ${item.totalBytes} bytes)`;
+      case 'skipped':
+        return `- \`${item.path}\` skipped: ${item.reason}`;
+    }
+  });
+
+  return `**Attached files:** ${count('included')} included, ${count('truncated')} truncated, ` +
+    `${count('skipped')} skipped (${totalBytes} bytes)\n\n${lines.join('\n')}`;
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import * as os from 'os';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { AmazonQSessionLogger } from './session-logger.js';
+import { HttpTransportHandle, startHttpTransport } from './http-transport.js';
+
+describe('startHttpTransport', () => {
+  let tmpDir: string;
+  let handle: HttpTransportHandle;
+  const seenSessionIds: (string | undefined)[] = [];
+  let serversCreated = 0;
+  let serversClosed = 0;
+
+  const createServer = () => {
+    const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+    serversCreated++;
+    server.onclose = () => { serversClosed++; };
+    server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) => {
+      seenSessionIds.push(extra.sessionId);
+      return { tools: [] };
+    });
+    return server;
+  };
+
+  const post = (body: unknown, sessionId?: string) => fetch(handle.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json, text/event-stream',
+      ...(sessionId ? { 'mcp-session-id': sessionId, 'mcp-protocol-version': '2024-11-05' } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+
+  const initializeRequest = {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'vitest', version: '1.0.0' } },
+  };
+
+  const initialize = () => post(initializeRequest);
+
+  // fetch does not let a caller set Host
+  const rawPost = (url: string, headers: Record<string, string>, body: unknown) => new Promise<number>((resolve, reject) => {
+    const request = http.request(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream', ...headers },
+    }, (response) => {
+      response.resume();
+      resolve(response.statusCode!);
+    });
+    request.on('error', reject);
+    request.end(JSON.stringify(body));
+  });
+
+  beforeAll(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'amazon-q-http-'));
+    const logger = new AmazonQSessionLogger(tmpDir, tmpDir);
+    handle = await startHttpTransport({ host: '127.0.0.1', port: 0, path: '/mcp', sessionIdleTimeoutMs: 60000 }, createServer, logger);
+  });
+
+  afterAll(async () => {
+    await handle.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should assign a distinct session ID to each client', async () => {
+    const first = await initialize();
+    const second = await initialize();
+    await first.text();
+    await second.text();
+
+    const firstId = first.headers.get('mcp-session-id');
+    const secondId = second.headers.get('mcp-session-id');
+
+    expect(first.status).toBe(200);
+    expect(firstId).toBeTruthy();
+    expect(secondId).toBeTruthy();
+    expect(firstId).not.toBe(secondId);
+    expect(handle.sessionCount()).toBe(2);
+  });
+
+  it('should pass the MCP session ID to request handlers', async () => {
+    const init = await initialize();
+    await init.text();
+    const sessionId = init.headers.get('mcp-session-id')!;
+
+    const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list', params: {} }, sessionId);
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(body).toContain('"tools":[]');
+    expect(seenSessionIds).toContain(sessionId);
+  });
+
+  it('should reject non-initialize requests without a session', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 3, method: 'tools/list', params: {} });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject unknown session IDs', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 4, method: 'tools/list', params: {} }, 'no-such-session');
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should reject a foreign Host or Origin before creating a server', async () => {
+    const created = serversCreated;
+
+    expect(await rawPost(handle.url, { Host: 'evil.example:80' }, initializeRequest)).toBe(403);
+    expect(await rawPost(handle.url, { Origin: 'http://evil.example' }, initializeRequest)).toBe(403);
+    expect(serversCreated).toBe(created);
+  });
+
+  it('should close the server when initialize fails', async () => {
+    const closed = serversClosed;
+
+    // Without text/event-stream in Accept the transport rejects the request before initializing
+    const response = await fetch(handle.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+      body: JSON.stringify(initializeRequest),
+    });
+    await response.text();
+
+    expect(response.status).toBe(406);
+    expect(serversClosed).toBe(closed + 1);
+  });
+
+  it('should close sessions that stay idle', async () => {
+    const idleHandle = await startHttpTransport(
+      { host: '127.0.0.1', port: 0, path: '/mcp', sessionIdleTimeoutMs: 100 },
+      createServer,
+      new AmazonQSessionLogger(tmpDir, tmpDir)
+    );
+    try {
+      const response = await fetch(idleHandle.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream' },
+        body: JSON.stringify(initializeRequest),
+      });
+      await response.text();
+      expect(idleHandle.sessionCount()).toBe(1);
+
+      await new Promise(resolve => setTimeout(resolve, 300));
+      expect(idleHandle.sessionCount()).toBe(0);
+    } finally {
+      await idleHandle.close();
+    }
+  });
+});
@@ -0,0 +1,240 @@
+import * as http from 'http';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { AmazonQSessionLogger } from './session-logger.js';
+
+/**
+ * Streamable HTTP transport
+ *
+ * One long-lived process serves several MCP clients. Every client gets its own
+ * MCP session ID and its own Server instance; the tool implementations, process
+ * tracking and session logger behind them are shared.
+ */
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  path: string;
+  // Sessions without a request for this long are closed
+  sessionIdleTimeoutMs: number;
+}
+
+export interface HttpTransportHandle {
+  url: string;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  // Requests still being answered, including open SSE streams; a busy session is never idle
+  openRequests: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024; // 4MB
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new Error('Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+export async function startHttpTransport(
+  options: HttpTransportOptions,
+  createServer: () => Server,
+  logger: AmazonQSessionLogger
+): Promise<HttpTransportHandle> {
+  const sessions = new Map<string, HttpSession>();
+  let allowedHosts: string[] = [];
+
+  // DNS rebinding protection, checked before a request can create a session
+  const isAllowedOrigin = (req: http.IncomingMessage): boolean => {
+    if (!req.headers.host || !allowedHosts.includes(req.headers.host)) {
+      return false;
+    }
+    const origin = req.headers.origin;
+    if (origin === undefined) {
+      return true;
+    }
+    try {
+      return allowedHosts.includes(new URL(origin).host);
+    } catch {
+      return false;
+    }
+  };
+
+  const closeSession = async (transport: StreamableHTTPServerTransport, server: Server) => {
+    await transport.close().catch(() => undefined);
+    await server.close().catch(() => undefined);
+  };
+
+  const trackRequest = (sessionId: string, session: HttpSession, res: http.ServerResponse) => {
+    clearTimeout(session.idleTimer);
+    session.openRequests++;
+    res.on('close', () => {
+      session.openRequests--;
+      if (session.openRequests > 0 || sessions.get(sessionId) !== session) {
+        return;
+      }
+      session.idleTimer = setTimeout(() => {
+        logger.logActivity('HTTP_SESSION_EXPIRED', `HTTP session ${sessionId} idle for ${options.sessionIdleTimeoutMs}ms`, {
+          mcpSessionId: sessionId
+        });
+        void closeSession(session.transport, session.server);
+      }, options.sessionIdleTimeoutMs);
+      session.idleTimer.unref();
+    });
+  };
+
+  const handleNewSession = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    if (req.method !== 'POST') {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: missing mcp-session-id header');
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendJsonRpcError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: the first request of a session must be initialize');
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableDnsRebindingProtection: true,
+      allowedHosts,
+      onsessioninitialized: (sessionId) => {
+        const session: HttpSession = { transport, server, openRequests: 0 };
+        sessions.set(sessionId, session);
+        trackRequest(sessionId, session, res);
+        logger.logActivity('HTTP_SESSION_START', `HTTP session ${sessionId} initialized`, {
+          mcpSessionId: sessionId,
+          userAgent: req.headers['user-agent'],
+          activeHttpSessions: sessions.size
+        });
+      },
+    });
+
+    transport.onclose = () => {
+      const session = transport.sessionId ? sessions.get(transport.sessionId) : undefined;
+      if (session && session.transport === transport) {
+        clearTimeout(session.idleTimer);
+        sessions.delete(transport.sessionId!);
+        logger.logActivity('HTTP_SESSION_END', `HTTP session ${transport.sessionId} closed`, {
+          mcpSessionId: transport.sessionId,
+          activeHttpSessions: sessions.size
+        });
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+
+    // initialize was rejected, so nothing else will ever reach this pair
+    if (!transport.sessionId || sessions.get(transport.sessionId)?.transport !== transport) {
+      await closeSession(transport, server);
+    }
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      const requestPath = new URL(req.url || '/', 'http://localhost').pathname;
+      if (requestPath !== options.path) {
+        sendJsonRpcError(res, 404, -32000, `Not Found: MCP endpoint is ${options.path}`);
+        return;
+      }
+
+      if (!isAllowedOrigin(req)) {
+        sendJsonRpcError(res, 403, -32000, 'Forbidden: Host or Origin header is not allowed');
+        return;
+      }
+
+      const sessionHeader = req.headers['mcp-session-id'];
+      const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+      if (!sessionId) {
+        await handleNewSession(req, res);
+        return;
+      }
+
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, -32001, 'Session not found');
+        return;
+      }
+      trackRequest(sessionId, session, res);
+      await session.transport.handleRequest(req, res);
+    } catch (error) {
+      logger.logActivity('HTTP_ERROR', 'Failed to handle HTTP request', {
+        method: req.method,
+        url: req.url,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+  const hostForUrl = options.host.includes(':') ? `[${options.host}]` : options.host;
+
+  // DNS rebinding protection: only loopback Host headers reach the transport
+  allowedHosts = [`${hostForUrl}:${port}`, `localhost:${port}`, `127.0.0.1:${port}`, `[::1]:${port}`];
+
+  return {
+    url: `http://${hostForUrl}:${port}${options.path}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      for (const { transport, server, idleTimer } of sessions.values()) {
+        clearTimeout(idleTimer);
+        await closeSession(transport, server);
+      }
+      sessions.clear();
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    },
+  };
+}
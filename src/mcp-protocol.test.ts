@@ -111,6 +111,13 @@ describe('MCP Protocol Compliance', () => {
       expect(response.result).toHaveProperty('content');
       expect(Array.isArray(response.result.content)).toBe(true);
       expect(response.result.content[0].text).toContain('Invalid parameters');
+      expect(response.result.isError).toBe(true);
+      expect(response.result.structuredContent).toMatchObject({
+        type: 'VALIDATION_ERROR',
+        code: 'INVALID_PARAMS',
+        retryable: false,
+        requestId: '3',
+      });
     } else if (response.error) {
       // This is also acceptable
       expect(response.error).toHaveProperty('message');
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { DEFAULT_CONFIG, NetworkSettings } from './config.js';
+import { NetworkPolicy } from './network-policy.js';
+
+describe('network policy', () => {
+  let server: http.Server;
+  let port: number;
+  const authorization: (string | undefined)[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      authorization.push(req.headers.authorization);
+      const target = req.url?.match(/^\/redirect\?to=(.*)$/);
+      if (target) {
+        res.writeHead(302, { Location: decodeURIComponent(target[1]) });
+        res.end();
+      } else if (req.url === '/loop') {
+        res.writeHead(302, { Location: '/loop' });
+        res.end();
+      } else if (req.url === '/stall') {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.write('partial');
+      } else {
+        res.writeHead(200, { 'Content-Type': 'text/plain' });
+        res.end('ok');
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const policy = (settings: Partial<NetworkSettings> = {}) => new NetworkPolicy({ ...DEFAULT_CONFIG.network, ...settings });
+
+  it('should refuse loopback, private and metadata addresses, also after DNS resolution', async () => {
+    await expect(policy().fetch(`http://127.0.0.1:${port}/`)).rejects.toMatchObject({ rule: 'private_address' });
+    await expect(policy().fetch(`http://localhost:${port}/`)).rejects.toMatchObject({ rule: 'private_address' });
+    await expect(policy().fetch('http://[::ffff:127.0.0.1]/')).rejects.toMatchObject({ rule: 'private_address' });
+    await expect(policy().fetch('http://10.0.0.8/')).rejects.toMatchObject({ rule: 'private_address' });
+    await expect(policy().fetch('http://[64:ff9b::7f00:1]/')).rejects.toMatchObject({ rule: 'private_address' });
+    await expect(policy({ allowPrivateNetworks: true }).fetch('http://[64:ff9b::a9fe:a9fe]/')).rejects.toMatchObject({ rule: 'metadata_address' });
+    await expect(policy().fetch('http://169.254.169.254/latest/meta-data/')).rejects.toMatchObject({ rule: 'metadata_address' });
+    await expect(policy({ allowPrivateNetworks: true }).fetch('http://169.254.169.254/')).rejects.toMatchObject({ rule: 'metadata_address' });
+  });
+
+  it('should apply scheme restrictions and host allow and deny lists', async () => {
+    await expect(policy().fetch('ftp://example.com/file')).rejects.toMatchObject({ rule: 'scheme' });
+    await expect(policy({ allowedSchemes: ['https'] }).fetch(`http://127.0.0.1:${port}/`)).rejects.toMatchObject({ rule: 'scheme' });
+    await expect(policy({ denyHosts: ['*.example.com'] }).fetch('https://files.example.com/')).rejects.toMatchObject({ rule: 'deny_list' });
+    await expect(policy({ allowHosts: ['10.1.0.0/16'] }).fetch('http://10.2.0.1/')).rejects.toMatchObject({ rule: 'allow_list' });
+
+    const response = await policy({ allowHosts: ['127.0.0.0/8'] }).fetch(`http://127.0.0.1:${port}/`);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('ok');
+
+    const head = await policy({ allowHosts: ['127.0.0.0/8'] }).fetch(`http://127.0.0.1:${port}/`, { method: 'HEAD' });
+    expect(head.headers.get('content-type')).toBe('text/plain');
+    expect(head.body).toBeNull();
+  });
+
+  it('should check every redirect hop, cap redirects and drop credentials across origins', async () => {
+    const allowed = policy({ allowHosts: ['127.0.0.1', 'localhost'], maxRedirects: 3 });
+    const redirect = (to: string) => `http://127.0.0.1:${port}/redirect?to=${encodeURIComponent(to)}`;
+
+    await expect(allowed.fetch(redirect('http://169.254.169.254/'))).rejects.toMatchObject({ rule: 'metadata_address' });
+    await expect(allowed.fetch(redirect('http://10.0.0.8/'))).rejects.toMatchObject({ rule: 'allow_list' });
+    await expect(allowed.fetch(`http://127.0.0.1:${port}/loop`)).rejects.toMatchObject({ rule: 'redirect_limit' });
+
+    authorization.length = 0;
+    const response = await allowed.fetch(redirect(`http://localhost:${port}/`), { headers: { Authorization: 'Bearer secret' } });
+    expect(await response.text()).toBe('ok');
+    expect(authorization).toEqual(['Bearer secret', undefined]);
+  });
+
+  it('should fail a response that stops sending data', async () => {
+    const response = await policy({ allowHosts: ['127.0.0.1'], readTimeoutMs: 200 }).fetch(`http://127.0.0.1:${port}/stall`);
+
+    await expect(response.text()).rejects.toThrow();
+  });
+});
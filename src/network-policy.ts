@@ -0,0 +1,266 @@
+import * as dns from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import { BlockList, isIP } from 'net';
+import { Readable } from 'stream';
+import { NetworkSettings } from './config.js';
+
+/**
+ * Outbound HTTP for the fetch tools, restricted by the `network` config
+ *
+ * Every request, and every redirect hop, is checked for its URL scheme and
+ * host name, then for each address the host resolves to. Addresses are
+ * checked in the socket's own DNS lookup, so the address that is checked is
+ * the one that is connected to. The deny list always wins and cloud metadata
+ * and link-local addresses are always refused; with entries on the allow list,
+ * nothing else is reachable. Loopback, private and other internal ranges are
+ * refused unless `allowPrivateNetworks` is set or the host is on the allow list.
+ *
+ * Host patterns are a host name (`example.com`), a subdomain wildcard
+ * (`*.example.com`), an IP address or a CIDR range (`10.1.0.0/16`).
+ */
+
+export type PolicyRule = 'scheme' | 'deny_list' | 'allow_list' | 'metadata_address' | 'private_address' | 'redirect_limit';
+
+export class NetworkPolicyError extends Error {
+  constructor(message: string, public rule: PolicyRule) {
+    super(message);
+    this.name = 'NetworkPolicyError';
+  }
+}
+
+export interface PolicyRequest {
+  method?: 'GET' | 'HEAD';
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+// Instance metadata services and link-local addresses, refused even for allowed hosts
+const METADATA_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['169.254.0.0', 16, 'ipv4'],
+  ['100.100.100.200', 32, 'ipv4'],
+  ['fe80::', 10, 'ipv6'],
+  ['fd00:ec2::254', 128, 'ipv6'],
+  // 169.254.0.0/16 behind the NAT64 well-known prefix
+  ['64:ff9b::a9fe:0', 112, 'ipv6'],
+];
+
+const PRIVATE_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 3, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  // NAT64 prefixes translate to any IPv4 address, including the private ones above
+  ['64:ff9b::', 96, 'ipv6'],
+  ['64:ff9b:1::', 48, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+// Credentials are not sent on to another origin after a redirect
+const CREDENTIAL_HEADERS = ['authorization', 'cookie', 'proxy-authorization'];
+
+function blockList(ranges: [string, number, 'ipv4' | 'ipv6'][]): BlockList {
+  const list = new BlockList();
+  for (const [network, prefix, family] of ranges) {
+    list.addSubnet(network, prefix, family);
+  }
+  return list;
+}
+
+const METADATA_ADDRESSES = blockList(METADATA_RANGES);
+const PRIVATE_ADDRESSES = blockList(PRIVATE_RANGES);
+
+class HostPatterns {
+  private names: string[] = [];
+  private suffixes: string[] = [];
+  private addresses = new BlockList();
+  readonly size: number;
+
+  constructor(patterns: string[]) {
+    for (const pattern of patterns.map(p => p.toLowerCase())) {
+      const [network, prefix] = pattern.split('/');
+      const family = isIP(network);
+      if (family !== 0) {
+        const bits = family === 4 ? 32 : 128;
+        this.addresses.addSubnet(network, prefix === undefined ? bits : Number(prefix), family === 4 ? 'ipv4' : 'ipv6');
+      } else if (pattern.startsWith('*.')) {
+        this.suffixes.push(pattern.slice(1));
+      } else {
+        this.names.push(pattern);
+      }
+    }
+    this.size = patterns.length;
+  }
+
+  matchesName(host: string): boolean {
+    return this.names.includes(host) || this.suffixes.some(suffix => host.endsWith(suffix));
+  }
+
+  matchesAddress(address: string): boolean {
+    return this.addresses.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+  }
+}
+
+// URL host names keep the brackets around IPv6 literals
+function bareHost(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+}
+
+export class NetworkPolicy {
+  private allow: HostPatterns;
+  private deny: HostPatterns;
+
+  constructor(private settings: NetworkSettings) {
+    this.allow = new HostPatterns(settings.allowHosts);
+    this.deny = new HostPatterns(settings.denyHosts);
+  }
+
+  /**
+   * Checks what can be known before connecting: scheme and host name lists,
+   * and the address itself when the host is an IP literal
+   */
+  checkUrl(url: URL): void {
+    const scheme = url.protocol.replace(/:$/, '');
+    if (!this.settings.allowedSchemes.includes(scheme)) {
+      throw new NetworkPolicyError(`Scheme '${scheme}' is not allowed (allowed: ${this.settings.allowedSchemes.join(', ')})`, 'scheme');
+    }
+
+    const host = bareHost(url);
+    if (this.deny.matchesName(host)) {
+      throw new NetworkPolicyError(`Host ${host} is on the deny list`, 'deny_list');
+    }
+    // Sockets skip the DNS lookup for IP literals, so they are checked here
+    if (isIP(host) !== 0) {
+      this.checkAddress(host, host);
+    }
+  }
+
+  checkAddress(host: string, address: string): void {
+    if (this.deny.matchesAddress(address)) {
+      throw new NetworkPolicyError(`${host} resolves to ${address}, which is on the deny list`, 'deny_list');
+    }
+    if (METADATA_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4')) {
+      throw new NetworkPolicyError(`${host} resolves to ${address}, a link-local or cloud metadata address`, 'metadata_address');
+    }
+    const allowed = this.allow.matchesName(host) || this.allow.matchesAddress(address);
+    if (this.allow.size > 0 && !allowed) {
+      throw new NetworkPolicyError(`Host ${host} (${address}) is not on the allow list`, 'allow_list');
+    }
+    if (PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4') && !allowed && !this.settings.allowPrivateNetworks) {
+      throw new NetworkPolicyError(`${host} resolves to ${address}, a loopback or private network address`, 'private_address');
+    }
+  }
+
+  /**
+   * GET (or HEAD) a URL under the policy, following redirects up to `maxRedirects`.
+   * The response body streams; the read timeout applies to each wait for data.
+   */
+  async fetch(url: string, request: PolicyRequest = {}): Promise<Response> {
+    let current = new URL(url);
+    let headers = { ...request.headers };
+    const method = request.method ?? 'GET';
+
+    for (let redirects = 0; ; redirects++) {
+      this.checkUrl(current);
+      const response = await this.send(current, method, headers, request.signal);
+
+      const location = response.headers.location;
+      if (!REDIRECT_STATUSES.has(response.statusCode ?? 0) || !location) {
+        return this.toResponse(response, method);
+      }
+      response.resume();
+      if (redirects >= this.settings.maxRedirects) {
+        throw new NetworkPolicyError(`Too many redirects (limit ${this.settings.maxRedirects}) fetching ${url}`, 'redirect_limit');
+      }
+
+      const next = new URL(location, current);
+      if (next.origin !== current.origin) {
+        headers = Object.fromEntries(Object.entries(headers).filter(([name]) => !CREDENTIAL_HEADERS.includes(name.toLowerCase())));
+      }
+      current = next;
+    }
+  }
+
+  private send(url: URL, method: string, headers: Record<string, string>, signal?: AbortSignal): Promise<http.IncomingMessage> {
+    const host = bareHost(url);
+    const lookup = (hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+      dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) {
+          callback(error);
+          return;
+        }
+        try {
+          for (const { address } of addresses) {
+            this.checkAddress(host, address);
+          }
+        } catch (policyError) {
+          callback(policyError);
+          return;
+        }
+        if (options.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      });
+    };
+
+    return new Promise((resolve, reject) => {
+      const client = url.protocol === 'https:' ? https : http;
+      const req = client.request(url, { method, headers, lookup: lookup as any, signal });
+
+      const connectTimer = setTimeout(() => {
+        req.destroy(new Error(`Connecting to ${url.host} timed out after ${this.settings.connectTimeoutMs}ms`));
+      }, this.settings.connectTimeoutMs);
+      req.on('socket', socket => {
+        if (!socket.connecting) {
+          clearTimeout(connectTimer);
+        }
+        socket.once('connect', () => clearTimeout(connectTimer));
+      });
+      req.setTimeout(this.settings.readTimeoutMs, () => {
+        req.destroy(new Error(`No data from ${url.host} for ${this.settings.readTimeoutMs}ms`));
+      });
+
+      req.on('response', response => {
+        clearTimeout(connectTimer);
+        resolve(response);
+      });
+      req.on('error', error => {
+        clearTimeout(connectTimer);
+        reject(error);
+      });
+      req.end();
+    });
+  }
+
+  private toResponse(message: http.IncomingMessage, method: string): Response {
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(message.headers)) {
+      if (value === undefined) continue;
+      for (const item of Array.isArray(value) ? value : [value]) {
+        headers.append(name, item);
+      }
+    }
+    const status = message.statusCode ?? 500;
+    // Response refuses a body for statuses that cannot have one
+    const nullBody = method === 'HEAD' || status === 204 || status === 205 || status === 304;
+    if (nullBody) {
+      message.resume();
+    }
+    return new Response(nullBody ? null : Readable.toWeb(message) as unknown as ReadableStream, {
+      status,
+      statusText: message.statusMessage,
+      headers,
+    });
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeOutput, splitCodeBlocks, stripControlSequences } from './output-normalizer.js';
+
+describe('output normalizer', () => {
+  it('should strip colour codes, hyperlinks and redrawn spinner frames', () => {
+    const raw = '\x1b[32mGreen\x1b[0m text \x1b]8;;https://aws.amazon.com\x07link\x1b]8;;\x07\n⠋ Thinking...\r⠙ Thinking...\rDone\x07';
+
+    expect(stripControlSequences(raw)).toBe('Green text link\nDone');
+  });
+
+  it('should remove CLI chrome around the answer', () => {
+    const raw = [
+      'Picking up where we left off...',
+      '⠼ Thinking...',
+      '',
+      '\x1b[38;5;10m> \x1b[0mUse an S3 lifecycle rule.   ',
+      '',
+      '',
+      '',
+      '> Quoted note stays.',
+      '',
+    ].join('\n');
+
+    expect(normalizeOutput(raw)).toBe('Use an S3 lifecycle rule.\n\n> Quoted note stays.');
+  });
+
+  it('should split prose and fenced code blocks with their language', () => {
+    const text = 'Create the bucket:\n\n```bash\naws s3 mb s3://demo\n```\n\nThen the policy:\n~~~json\n{}\n~~~';
+
+    expect(splitCodeBlocks(text)).toEqual([
+      { kind: 'prose', text: 'Create the bucket:' },
+      { kind: 'code', language: 'bash', code: 'aws s3 mb s3://demo', fence: '```' },
+      { kind: 'prose', text: 'Then the policy:' },
+      { kind: 'code', language: 'json', code: '{}', fence: '~~~' },
+    ]);
+  });
+
+  it('should keep an unterminated fence as code to the end', () => {
+    expect(splitCodeBlocks('```python\nprint(1)')).toEqual([
+      { kind: 'code', language: 'python', code: 'print(1)', fence: '```' },
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Cleanup of `q` CLI output
+ *
+ * `q chat` writes for a terminal even when stdout is a pipe: colour codes,
+ * spinner frames redrawn with carriage returns, and banner or status lines.
+ * These helpers turn that into plain text and, on request, split the answer into
+ * prose and fenced code segments.
+ */
+
+export type OutputFormat = 'clean' | 'split' | 'raw';
+
+export type OutputSegment =
+  | { kind: 'prose'; text: string }
+  | { kind: 'code'; language: string; code: string; fence: string };
+
+// CSI (colours, cursor movement), OSC (titles, hyperlinks) and two-character escapes
+const CSI_SEQUENCE = /\x1b\[[0-9;?]*[ -/]*[@-~]/g;
+const OSC_SEQUENCE = /\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g;
+const SHORT_ESCAPE = /\x1b[@-Z\\-_]/g;
+// Remaining C0 controls except tab and newline
+const CONTROL_CHARACTERS = /[\x00-\x08\x0b-\x1f\x7f]/g;
+
+// Whole lines printed by the CLI around the answer
+const CHROME_LINES: RegExp[] = [
+  /^[\u2800-\u28FF]\s.*$/, // braille spinner frame ("⠋ Thinking...")
+  /^Thinking\.*$/,
+  /^Picking up where we left off\.*$/,
+  /^🤖 You are chatting with .*$/u,
+  /^[━─]{10,}$/,
+  /^>$/,
+];
+
+export function stripControlSequences(text: string): string {
+  const withoutEscapes = text
+    .replace(OSC_SEQUENCE, '')
+    .replace(CSI_SEQUENCE, '')
+    .replace(SHORT_ESCAPE, '');
+
+  // A carriage return redraws the line; keep what was drawn last
+  return withoutEscapes
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map(line => line.includes('\r') ? line.split('\r').filter(Boolean).pop() ?? '' : line)
+    .join('\n')
+    .replace(CONTROL_CHARACTERS, '');
+}
+
+export function removeCliChrome(text: string): string {
+  const lines = text.split('\n').filter(line => !CHROME_LINES.some(pattern => pattern.test(line.trim())));
+
+  // The answer itself is introduced by a "> " prompt marker
+  const first = lines.findIndex(line => line.trim() !== '');
+  if (first !== -1) {
+    lines[first] = lines[first].replace(/^\s*> /, '');
+  }
+  return lines.join('\n');
+}
+
+export function normalizeOutput(raw: string): string {
+  return removeCliChrome(stripControlSequences(raw))
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Prose and fenced code blocks in order; an unterminated fence runs to the end
+ */
+export function splitCodeBlocks(text: string): OutputSegment[] {
+  const segments: OutputSegment[] = [];
+  const lines = text.split('\n');
+  let prose: string[] = [];
+
+  const flushProse = () => {
+    const joined = prose.join('\n').trim();
+    if (joined) segments.push({ kind: 'prose', text: joined });
+    prose = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const open = lines[i].match(/^\s*(`{3,}|~{3,})\s*([\w+#.-]*)/);
+    if (!open) {
+      prose.push(lines[i]);
+      continue;
+    }
+
+    const fence = open[1];
+    const code: string[] = [];
+    let j = i + 1;
+    while (j < lines.length && !new RegExp(`^\\s*${fence[0]}{${fence.length},}\\s*$`).test(lines[j])) {
+      code.push(lines[j]);
+      j++;
+    }
+    flushProse();
+    segments.push({ kind: 'code', language: open[2], code: code.join('\n'), fence });
+    i = j;
+  }
+  flushProse();
+  return segments;
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { BUILT_IN_PROMPTS, PromptCatalog, renderTemplate } from './prompt-templates.js';
+
+describe('renderTemplate', () => {
+  it('should substitute placeholders and drop sections for missing arguments', () => {
+    const template = 'Explain {{topic}}.{{#detail}} Detail: {{detail}}.{{/detail}}';
+
+    expect(renderTemplate(template, { topic: 'VPCs' })).toBe('Explain VPCs.');
+    expect(renderTemplate(template, { topic: 'VPCs', detail: 'peering' })).toBe('Explain VPCs. Detail: peering.');
+  });
+});
+
+describe('PromptCatalog', () => {
+  let dataDir: string;
+  let warnings: string[];
+  let catalog: PromptCatalog;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'amazon-q-prompts-'));
+    warnings = [];
+    catalog = new PromptCatalog(dataDir, (message) => warnings.push(message));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const writePrompt = (fileName: string, value: unknown) => {
+    fs.mkdirSync(catalog.userPromptsDir, { recursive: true });
+    fs.writeFileSync(path.join(catalog.userPromptsDir, fileName), JSON.stringify(value));
+  };
+
+  it('should list the built-in prompts', () => {
+    expect(catalog.listPrompts().map(p => p.name)).toEqual(BUILT_IN_PROMPTS.map(p => p.name));
+  });
+
+  it('should render a prompt as a message addressed to ask_q', () => {
+    const result = catalog.getPrompt('write_iam_policy', { useCase: 'read objects from one S3 bucket' });
+
+    expect(result.messages).toHaveLength(1);
+    expect(result.messages[0].role).toBe('user');
+    expect(result.messages[0].content.text).toMatch(/^Use the ask_q tool to send this prompt to Amazon Q:/);
+    expect(result.messages[0].content.text).toContain('read objects from one S3 bucket');
+    expect(result.messages[0].content.text).not.toContain('{{');
+  });
+
+  it('should require mandatory arguments', () => {
+    expect(() => catalog.getPrompt('explain_aws_cli_error', { command: 'aws s3 ls' })).toThrow(/error/);
+  });
+
+  it('should reject unknown prompts', () => {
+    expect(() => catalog.getPrompt('nope')).toThrow(/Unknown prompt/);
+  });
+
+  it('should load user templates alongside the built-ins', () => {
+    writePrompt('lambda.json', {
+      name: 'lambda_tuning',
+      description: 'Tune a Lambda function',
+      arguments: [{ name: 'functionName', required: true }],
+      template: 'How should I tune {{functionName}}?',
+      agent: 'aws-expert',
+    });
+
+    const names = catalog.listPrompts().map(p => p.name);
+    const result = catalog.getPrompt('lambda_tuning', { functionName: 'resize-images' });
+
+    expect(names).toContain('lambda_tuning');
+    expect(names).toContain('aws_code_review');
+    expect(result.messages[0].content.text).toContain('(with agent "aws-expert")');
+    expect(result.messages[0].content.text).toContain('How should I tune resize-images?');
+  });
+
+  it('should let user templates replace built-ins of the same name', () => {
+    writePrompt('override.json', {
+      name: 'write_iam_policy',
+      description: 'Team IAM policy style',
+      template: 'Write our standard policy',
+    });
+
+    const prompts = catalog.listPrompts().filter(p => p.name === 'write_iam_policy');
+
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0].description).toBe('Team IAM policy style');
+  });
+
+  it('should skip invalid user templates with a warning', () => {
+    writePrompt('broken.json', { name: 'Bad Name', template: '' });
+
+    expect(catalog.listPrompts()).toHaveLength(BUILT_IN_PROMPTS.length);
+    expect(warnings[0]).toContain('broken.json');
+  });
+});
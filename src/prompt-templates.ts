@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Parameterized prompts published through the MCP prompts capability
+ *
+ * Templates use {{name}} placeholders and {{#name}}...{{/name}} sections that are
+ * only kept when the argument is provided. Rendered prompts are addressed to the
+ * ask_q tool so the host model knows where to send them.
+ */
+
+const promptTemplateSchema = z.object({
+  name: z.string().regex(/^[a-z0-9_-]{1,64}$/, 'must be 1-64 lowercase letters, digits, "_" or "-"'),
+  description: z.string().min(1),
+  arguments: z.array(z.object({
+    name: z.string().regex(/^[a-zA-Z0-9_]{1,64}$/),
+    description: z.string().optional(),
+    required: z.boolean().optional(),
+  }).strict()).default([]),
+  template: z.string().min(1),
+  model: z.string().optional(),
+  agent: z.string().optional(),
+}).strict();
+
+export type PromptTemplate = z.infer<typeof promptTemplateSchema> & { source: string };
+
+export type RenderedPrompt = {
+  description: string;
+  messages: { role: 'user'; content: { type: 'text'; text: string } }[];
+};
+
+export const BUILT_IN_PROMPTS: PromptTemplate[] = [
+  {
+    name: 'aws_code_review',
+    description: 'Review code for AWS best practices, security and cost issues',
+    arguments: [
+      { name: 'code', description: 'Code to review', required: true },
+      { name: 'language', description: 'Language or framework of the code' },
+      { name: 'focus', description: 'Area to focus on (e.g. security, cost, resilience)' },
+    ],
+    template:
+      'Review the following {{#language}}{{language}} {{/language}}code for AWS best practices.' +
+      '{{#focus}} Focus on {{focus}}.{{/focus}}' +
+      ' Point out security risks, misconfigurations, cost issues and missing error handling, and suggest concrete fixes.\n\n' +
+      '```{{language}}\n{{code}}\n```',
+    source: 'built-in',
+  },
+  {
+    name: 'explain_cloudformation_error',
+    description: 'Explain a CloudFormation deployment error and how to fix it',
+    arguments: [
+      { name: 'error', description: 'Error message or stack event', required: true },
+      { name: 'template', description: 'Relevant part of the CloudFormation template' },
+    ],
+    template:
+      'Explain this CloudFormation error, what most likely caused it and how to fix it:\n\n' +
+      '```\n{{error}}\n```' +
+      '{{#template}}\n\nRelevant template section:\n\n```yaml\n{{template}}\n```{{/template}}',
+    source: 'built-in',
+  },
+  {
+    name: 'write_iam_policy',
+    description: 'Write a least-privilege IAM policy for a described use case',
+    arguments: [
+      { name: 'useCase', description: 'What the principal needs to do', required: true },
+      { name: 'resources', description: 'ARNs or resource names the policy should be scoped to' },
+    ],
+    template:
+      'Write a least-privilege IAM policy (JSON) that allows: {{useCase}}.' +
+      '{{#resources}} Scope it to these resources: {{resources}}.{{/resources}}' +
+      ' Explain each statement and note any permissions that cannot be scoped further.',
+    source: 'built-in',
+  },
+  {
+    name: 'explain_aws_cli_error',
+    description: 'Diagnose a failing AWS CLI command',
+    arguments: [
+      { name: 'command', description: 'The command that was run', required: true },
+      { name: 'error', description: 'The error output', required: true },
+    ],
+    template:
+      'This AWS CLI command failed:\n\n```bash\n{{command}}\n```\n\nError:\n\n```\n{{error}}\n```\n\n' +
+      'Explain the cause and give the corrected command or the configuration change needed.',
+    source: 'built-in',
+  },
+  {
+    name: 'aws_architecture_advice',
+    description: 'Recommend an AWS architecture for a workload',
+    arguments: [
+      { name: 'workload', description: 'Description of the workload', required: true },
+      { name: 'constraints', description: 'Budget, latency, compliance or other constraints' },
+    ],
+    template:
+      'Recommend an AWS architecture for this workload: {{workload}}.' +
+      '{{#constraints}} Constraints: {{constraints}}.{{/constraints}}' +
+      ' List the services, how they connect, and the main trade-offs.',
+    source: 'built-in',
+  },
+];
+
+export function renderTemplate(template: string, args: Record<string, string>): string {
+  const present = (name: string) => args[name] !== undefined && args[name] !== '';
+
+  return template
+    .replace(/\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g, (_match, name: string, body: string) => present(name) ? body : '')
+    .replace(/\{\{(\w+)\}\}/g, (_match, name: string) => present(name) ? args[name] : '');
+}
+
+export class PromptCatalog {
+  constructor(
+    private dataDir: string,
+    private onWarning: (message: string, metadata?: any) => void = () => undefined
+  ) {}
+
+  get userPromptsDir(): string {
+    return path.join(this.dataDir, 'prompts');
+  }
+
+  // User templates are re-read on every request so edits apply without a restart
+  private loadUserPrompts(): PromptTemplate[] {
+    if (!fs.existsSync(this.userPromptsDir)) {
+      return [];
+    }
+
+    const prompts: PromptTemplate[] = [];
+    for (const fileName of fs.readdirSync(this.userPromptsDir).filter(name => name.endsWith('.json')).sort()) {
+      const filePath = path.join(this.userPromptsDir, fileName);
+      try {
+        const parsed = promptTemplateSchema.safeParse(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+        if (!parsed.success) {
+          this.onWarning(`Skipping invalid prompt template ${fileName}`, {
+            issues: parsed.error.errors.map(e => `${e.path.join('.') || '(root)'}: ${e.message}`)
+          });
+          continue;
+        }
+        prompts.push({ ...parsed.data, source: filePath });
+      } catch (error) {
+        this.onWarning(`Skipping unreadable prompt template ${fileName}`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+    return prompts;
+  }
+
+  // User templates replace built-ins of the same name
+  listPrompts(): PromptTemplate[] {
+    const byName = new Map<string, PromptTemplate>();
+    for (const prompt of [...BUILT_IN_PROMPTS, ...this.loadUserPrompts()]) {
+      byName.set(prompt.name, prompt);
+    }
+    return Array.from(byName.values());
+  }
+
+  getPrompt(name: string, args: Record<string, string> = {}): RenderedPrompt {
+    const prompt = this.listPrompts().find(p => p.name === name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    const missing = prompt.arguments.filter(arg => arg.required && !args[arg.name]).map(arg => arg.name);
+    if (missing.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Missing required arguments for prompt '${name}': ${missing.join(', ')}`);
+    }
+
+    const toolArgs = [
+      prompt.model ? `model "${prompt.model}"` : undefined,
+      prompt.agent ? `agent "${prompt.agent}"` : undefined,
+    ].filter(Boolean);
+
+    const text =
+      `Use the ask_q tool${toolArgs.length > 0 ? ` (with ${toolArgs.join(' and ')})` : ''} ` +
+      `to send this prompt to Amazon Q:\n\n${renderTemplate(prompt.template, args)}`;
+
+    return {
+      description: prompt.description,
+      messages: [{ role: 'user', content: { type: 'text', text } }],
+    };
+  }
+}
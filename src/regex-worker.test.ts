@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RegexTimeoutError, RegexWorker } from './regex-worker.js';
+
+describe('regex worker', () => {
+  it('should report matches by line and character index up to the limit', async () => {
+    const worker = new RegexWorker('err\\w*', 'gi', 5000);
+    try {
+      expect(await worker.match(['ok', 'Error: x error', 'errno'], 10)).toEqual([[1, 0, 'Error'], [1, 9, 'error'], [2, 0, 'errno']]);
+      expect(await worker.match(['Error: x error', 'errno'], 2)).toEqual([[0, 0, 'Error'], [0, 9, 'error']]);
+    } finally {
+      await worker.close();
+    }
+  });
+
+  it('should stop a pattern that backtracks catastrophically without blocking the event loop', async () => {
+    const worker = new RegexWorker('(a+)+$', 'g', 300);
+    let ticks = 0;
+    const timer = setInterval(() => ticks++, 20);
+    const started = Date.now();
+    try {
+      await expect(worker.match(['a'.repeat(40) + 'b'], 10)).rejects.toBeInstanceOf(RegexTimeoutError);
+    } finally {
+      clearInterval(timer);
+      await worker.close();
+    }
+
+    expect(Date.now() - started).toBeLessThan(3000);
+    expect(ticks).toBeGreaterThan(5);
+  });
+
+  it('should fail the next match with an error the worker raised while idle', async () => {
+    // The worker cannot compile this pattern, so it fails before any match is sent
+    const worker = new RegexWorker('(', 'g', 5000);
+    try {
+      await vi.waitFor(() => expect((worker as any).failure).toBeInstanceOf(SyntaxError), { timeout: 5000 });
+      await expect(worker.match(['('], 10)).rejects.toBeInstanceOf(SyntaxError);
+    } finally {
+      await worker.close();
+    }
+  });
+});
@@ -0,0 +1,97 @@
+import { Worker } from 'worker_threads';
+
+/**
+ * Regular expression matching off the main thread, for fetch_grep
+ *
+ * A caller's pattern with catastrophic backtracking, such as `(a+)+$`, can run
+ * for minutes on a single line. Matching runs in a worker thread so the event
+ * loop that every client shares is never blocked, and the worker is terminated
+ * once a search has used up its matching time.
+ */
+
+// Evaluated as CommonJS in the worker; each message is a batch of lines
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const pattern = new RegExp(workerData.source, workerData.flags);
+parentPort.on('message', ({ lines, limit }) => {
+  const hits = [];
+  search: for (let line = 0; line < lines.length; line++) {
+    for (const match of lines[line].matchAll(pattern)) {
+      hits.push([line, match.index, match[0]]);
+      if (hits.length >= limit) break search;
+    }
+  }
+  parentPort.postMessage(hits);
+});
+`;
+
+// Index of the line in the batch, character index in the line and the matched text
+export type RegexHit = [line: number, index: number, text: string];
+
+export class RegexTimeoutError extends Error {
+  constructor(message: string, public budgetMs: number) {
+    super(message);
+    this.name = 'RegexTimeoutError';
+  }
+}
+
+export class RegexWorker {
+  private worker: Worker;
+  private usedMs = 0;
+  // An error the worker raised, failing the pending match or the next one
+  private failure?: Error;
+  private rejectPending?: (error: Error) => void;
+
+  /**
+   * `flags` must include `g`; `budgetMs` is the matching time for all batches together
+   */
+  constructor(private source: string, flags: string, private budgetMs: number) {
+    this.worker = new Worker(WORKER_SOURCE, { eval: true, workerData: { source, flags } });
+    // Also listening while idle, so an error between matches is never unhandled
+    this.worker.on('error', (error: Error) => {
+      this.failure = error;
+      this.rejectPending?.(error);
+    });
+  }
+
+  /**
+   * Matches in a batch of lines, at most `limit` of them, in line order
+   */
+  match(lines: string[], limit: number): Promise<RegexHit[]> {
+    const started = Date.now();
+    return new Promise((resolve, reject) => {
+      if (this.failure) {
+        reject(this.failure);
+        return;
+      }
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.worker.off('message', onMessage);
+        this.rejectPending = undefined;
+      };
+      const onMessage = (hits: RegexHit[]) => {
+        cleanup();
+        this.usedMs += Date.now() - started;
+        resolve(hits);
+      };
+      const onError = (error: Error) => {
+        cleanup();
+        reject(error);
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        void this.worker.terminate();
+        reject(new RegexTimeoutError(`Pattern /${this.source}/ took longer than ${this.budgetMs}ms to match`, this.budgetMs));
+      }, Math.max(0, this.budgetMs - this.usedMs));
+
+      this.worker.on('message', onMessage);
+      this.rejectPending = onError;
+      this.worker.postMessage({ lines, limit });
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.worker.terminate();
+  }
+}
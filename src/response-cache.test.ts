@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ResponseCache, cacheKey } from './response-cache.js';
+
+describe('response cache', () => {
+  let cacheDir: string;
+  const settings = { enabled: true, ttlMs: 60000, maxEntries: 2, maxBytes: 1024 * 1024 };
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'amazon-q-response-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+    vi.useRealTimers();
+  });
+
+  it('should key on tool, normalized prompt, model, agent and working directory', () => {
+    const base = cacheKey({ tool: 'ask_q', prompt: 'What is  S3?\n' });
+
+    expect(cacheKey({ tool: 'ask_q', prompt: '  What is S3?' })).toBe(base);
+    expect(cacheKey({ tool: 'q_translate', prompt: 'What is S3?' })).not.toBe(base);
+    expect(cacheKey({ tool: 'ask_q', prompt: 'what is s3?' })).not.toBe(base);
+    expect(cacheKey({ tool: 'ask_q', prompt: 'What is S3?', model: 'claude' })).not.toBe(base);
+    expect(cacheKey({ tool: 'ask_q', prompt: 'What is S3?', agent: 'aws' })).not.toBe(base);
+    expect(cacheKey({ tool: 'ask_q', prompt: 'What is S3?', workingDirectory: '/work' })).not.toBe(base);
+  });
+
+  it('should return stored responses until they expire', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const cache = new ResponseCache(cacheDir, settings);
+
+    cache.set('k', 'ask_q', 'answer');
+    expect(cache.get('k')).toMatchObject({ tool: 'ask_q', stdout: 'answer' });
+
+    vi.advanceTimersByTime(60001);
+    expect(cache.get('k')).toBeUndefined();
+    expect(fs.readdirSync(cacheDir)).toEqual([]);
+    expect(cache.stats()).toMatchObject({ hits: 1, misses: 1, stores: 1, entries: 0 });
+  });
+
+  it('should evict the least recently used entries beyond the limits', () => {
+    const cache = new ResponseCache(cacheDir, settings);
+    cache.set('a', 'ask_q', 'first');
+    cache.set('b', 'ask_q', 'second');
+
+    // Reading 'a' makes 'b' the least recently used
+    const past = new Date(Date.now() - 10000);
+    fs.utimesSync(path.join(cacheDir, 'a.json'), past, past);
+    fs.utimesSync(path.join(cacheDir, 'b.json'), past, past);
+    cache.get('a');
+
+    cache.set('c', 'ask_q', 'third');
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')?.stdout).toBe('first');
+    expect(cache.get('c')?.stdout).toBe('third');
+    expect(cache.stats().evictions).toBe(1);
+
+    const bytes = cache.stats().bytes;
+    const small = new ResponseCache(cacheDir, { ...settings, maxEntries: 100, maxBytes: bytes + 100 });
+    fs.utimesSync(path.join(cacheDir, 'a.json'), past, past);
+    small.set('big', 'ask_q', 'x'.repeat(150));
+    expect(small.stats().bytes).toBeLessThanOrEqual(bytes + 100);
+    expect(small.get('a')).toBeUndefined();
+    expect(small.get('big')?.stdout).toHaveLength(150);
+  });
+});
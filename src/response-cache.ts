@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { CacheSettings } from './config.js';
+
+/**
+ * On-disk cache of q responses
+ *
+ * Identical q_translate tasks and stateless ask_q questions are answered from
+ * dataDir/cache instead of another CLI round trip. Each entry is one JSON file
+ * named after the hash of its key (tool, normalized prompt, model, agent and,
+ * for project calls, the working directory). Entries expire after the TTL, and
+ * the least recently used ones are evicted once the entry or byte limit is hit.
+ */
+
+export const CACHE_DIR = 'cache';
+
+export interface CacheKeyFields {
+  tool: string;
+  prompt: string;
+  model?: string;
+  agent?: string;
+  workingDirectory?: string;
+}
+
+export interface CachedResponse {
+  key: string;
+  tool: string;
+  createdAt: string;
+  stdout: string;
+}
+
+export type CacheStats = {
+  enabled: boolean;
+  entries: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+  // Calls that skipped the cache (noCache, or a resumed conversation)
+  bypassed: number;
+  stores: number;
+  evictions: number;
+};
+
+// Whitespace differences do not change what Q is asked
+export function normalizePrompt(prompt: string): string {
+  return prompt.replace(/\r\n/g, '\n').replace(/[ \t]+/g, ' ').replace(/ ?\n ?/g, '\n').trim();
+}
+
+export function cacheKey(fields: CacheKeyFields): string {
+  return createHash('sha256')
+    .update(JSON.stringify([
+      fields.tool,
+      normalizePrompt(fields.prompt),
+      fields.model ?? null,
+      fields.agent ?? null,
+      fields.workingDirectory ?? null,
+    ]))
+    .digest('hex');
+}
+
+export class ResponseCache {
+  private hits = 0;
+  private misses = 0;
+  private bypassed = 0;
+  private stores = 0;
+  private evictions = 0;
+
+  constructor(private directory: string, private settings: CacheSettings) {}
+
+  get enabled(): boolean {
+    return this.settings.enabled;
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+
+  get(key: string): CachedResponse | undefined {
+    const file = this.entryPath(key);
+    let entry: CachedResponse;
+    try {
+      entry = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch {
+      this.misses++;
+      return undefined;
+    }
+
+    if (Date.now() - Date.parse(entry.createdAt) > this.settings.ttlMs) {
+      fs.rmSync(file, { force: true });
+      this.misses++;
+      return undefined;
+    }
+
+    // The modification time orders entries for eviction
+    const now = new Date();
+    fs.utimesSync(file, now, now);
+    this.hits++;
+    return entry;
+  }
+
+  set(key: string, tool: string, stdout: string): void {
+    fs.mkdirSync(this.directory, { recursive: true });
+    const entry: CachedResponse = { key, tool, createdAt: new Date().toISOString(), stdout };
+    const file = this.entryPath(key);
+    const tempFile = `${file}.${process.pid}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(entry));
+    fs.renameSync(tempFile, file);
+    this.stores++;
+    this.evict();
+  }
+
+  recordBypass(): void {
+    this.bypassed++;
+  }
+
+  private listEntries(): { file: string; bytes: number; mtimeMs: number }[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+    const entries: { file: string; bytes: number; mtimeMs: number }[] = [];
+    for (const name of fs.readdirSync(this.directory)) {
+      if (!name.endsWith('.json')) continue;
+      const file = path.join(this.directory, name);
+      try {
+        const stat = fs.statSync(file);
+        entries.push({ file, bytes: stat.size, mtimeMs: stat.mtimeMs });
+      } catch {
+        // Removed by another server process in the meantime
+      }
+    }
+    return entries;
+  }
+
+  // Drop expired entries, then the least recently used until both limits hold
+  private evict(): void {
+    const now = Date.now();
+    const entries = this.listEntries().sort((a, b) => a.mtimeMs - b.mtimeMs);
+    let bytes = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+    let count = entries.length;
+
+    for (const entry of entries) {
+      // An entry is written or touched no earlier than it was created
+      const expired = now - entry.mtimeMs > this.settings.ttlMs;
+      if (!expired && count <= this.settings.maxEntries && bytes <= this.settings.maxBytes) continue;
+      fs.rmSync(entry.file, { force: true });
+      bytes -= entry.bytes;
+      count--;
+      this.evictions++;
+    }
+  }
+
+  stats(): CacheStats {
+    const entries = this.listEntries();
+    return {
+      enabled: this.settings.enabled,
+      entries: entries.length,
+      bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+      hits: this.hits,
+      misses: this.misses,
+      bypassed: this.bypassed,
+      stores: this.stores,
+      evictions: this.evictions,
+    };
+  }
+}
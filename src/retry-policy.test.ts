@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_CONFIG, RetryPolicy } from './config.js';
+import { computeBackoff, parseRetryAfter, resolveRetryPolicy } from './retry-policy.js';
+
+describe('retry policy', () => {
+  const policy: RetryPolicy = { maxAttempts: 5, baseDelayMs: 100, maxDelayMs: 1000, backoff: 'exponential', jitter: 'none' };
+
+  it('should layer the error type override over the base policy', () => {
+    const settings = {
+      ...DEFAULT_CONFIG.defaults.retry,
+      errorTypes: { SERVICE_CAPACITY_ERROR: { maxAttempts: 6, backoff: 'linear' as const } },
+    };
+
+    expect(resolveRetryPolicy(settings, 'SERVICE_CAPACITY_ERROR')).toEqual({
+      maxAttempts: 6, baseDelayMs: 500, maxDelayMs: 10000, backoff: 'linear', jitter: 'proportional',
+    });
+    expect(resolveRetryPolicy(settings, 'NETWORK_ERROR').maxAttempts).toBe(3);
+  });
+
+  it('should follow the backoff curve up to the maximum delay', () => {
+    expect([1, 2, 3, 4, 5].map(n => computeBackoff(policy, n))).toEqual([100, 200, 400, 800, 1000]);
+    expect([1, 2, 3].map(n => computeBackoff({ ...policy, backoff: 'linear' }, n))).toEqual([100, 200, 300]);
+    expect([1, 2, 3].map(n => computeBackoff({ ...policy, backoff: 'constant' }, n))).toEqual([100, 100, 100]);
+  });
+
+  it('should apply the jitter strategy', () => {
+    const random = () => 0.5;
+
+    expect(computeBackoff({ ...policy, jitter: 'full' }, 3, random)).toBe(200);
+    expect(computeBackoff({ ...policy, jitter: 'equal' }, 3, random)).toBe(300);
+    expect(computeBackoff({ ...policy, jitter: 'proportional' }, 3, random)).toBe(450);
+  });
+
+  it('should read retry-after hints from error output', () => {
+    expect(parseRetryAfter('HTTP 429 Too Many Requests\nRetry-After: 30')).toBe(30000);
+    expect(parseRetryAfter('Throttled, please try again in 2 minutes')).toBe(120000);
+    expect(parseRetryAfter('rate limit exceeded; retry after 1.5s')).toBe(1500);
+    expect(parseRetryAfter('retry in 250ms')).toBe(250);
+    expect(parseRetryAfter('something went wrong')).toBeUndefined();
+  });
+});
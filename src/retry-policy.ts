@@ -0,0 +1,85 @@
+import { QErrorType, RetryPolicy, RetrySettings } from './config.js';
+
+/**
+ * Retry policies for q calls
+ *
+ * The retry block of a tool's settings is the base policy; `errorTypes` can
+ * override any part of it for failures of one error type, so a throttled call
+ * can back off longer than a dropped connection. Delays follow the backoff
+ * curve and jitter strategy, stretched to any retry-after hint Amazon Q gave.
+ */
+
+// The longest retry-after hint that is waited out; beyond that the call gives up
+export const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+export type RetryAttempt = {
+  attempt: number;
+  startedAt: string;
+  durationMs: number;
+  errorType?: string;
+  errorCode?: string;
+  // Wait before the next attempt, when there was one
+  delayMs?: number;
+  retryAfterMs?: number;
+};
+
+export type RetryStopReason = 'not_retryable' | 'max_attempts' | 'deadline' | 'retry_after_too_long' | 'circuit_open';
+
+export type RetryDetails = {
+  attempts: RetryAttempt[];
+  stoppedBy: RetryStopReason;
+  deadlineMs?: number;
+  elapsedMs: number;
+};
+
+export function resolveRetryPolicy(settings: RetrySettings, errorType: string): RetryPolicy {
+  const override = settings.errorTypes[errorType as QErrorType];
+  return {
+    maxAttempts: override?.maxAttempts ?? settings.maxAttempts,
+    baseDelayMs: override?.baseDelayMs ?? settings.baseDelayMs,
+    maxDelayMs: override?.maxDelayMs ?? settings.maxDelayMs,
+    backoff: override?.backoff ?? settings.backoff,
+    jitter: override?.jitter ?? settings.jitter,
+  };
+}
+
+/**
+ * Delay before attempt `attempt + 1`, after `attempt` failed (1-based)
+ */
+export function computeBackoff(policy: RetryPolicy, attempt: number, random: () => number = Math.random): number {
+  const curve = policy.backoff === 'exponential'
+    ? policy.baseDelayMs * Math.pow(2, attempt - 1)
+    : policy.backoff === 'linear'
+      ? policy.baseDelayMs * attempt
+      : policy.baseDelayMs;
+  const delay = Math.min(curve, policy.maxDelayMs);
+
+  switch (policy.jitter) {
+    case 'none':
+      return delay;
+    case 'full':
+      return random() * delay;
+    case 'equal':
+      return delay / 2 + random() * delay / 2;
+    case 'proportional':
+      return delay + random() * 0.25 * delay;
+  }
+}
+
+const RETRY_AFTER_PATTERN = /\b(?:retry[- ]after|retry in|try again in)\b[:=\s"]*(\d+(?:\.\d+)?)\s*(ms|milliseconds?|s|secs?|seconds?|m|mins?|minutes?)?\b/i;
+
+/**
+ * Wait time Amazon Q asked for in its error output, e.g. "Retry-After: 30" or
+ * "try again in 2 minutes"; bare numbers are seconds
+ */
+export function parseRetryAfter(text: string): number | undefined {
+  const match = text.match(RETRY_AFTER_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  const value = parseFloat(match[1]);
+  const unit = (match[2] || 's').toLowerCase();
+  const multiplier = unit.startsWith('ms') || unit.startsWith('milli') ? 1 : unit.startsWith('m') ? 60000 : 1000;
+  return Math.round(value * multiplier);
+}
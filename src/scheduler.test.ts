@@ -0,0 +1,101 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ProcessScheduler, SchedulerError } from './scheduler.js';
+
+// A task that stays running until released
+function deferred() {
+  let release!: () => void;
+  const done = new Promise<void>(resolve => { release = resolve; });
+  return { release, task: () => done.then(() => 'done') };
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('process scheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should cap the number of running tasks', async () => {
+    const scheduler = new ProcessScheduler({ maxConcurrent: 2, queueTimeoutMs: 10000 });
+    const tasks = [deferred(), deferred(), deferred()];
+    const results = tasks.map((t, i) => scheduler.run(`dir-${i}`, t.task));
+
+    expect(scheduler.stats()).toMatchObject({ running: 2, queued: 1 });
+
+    tasks[0].release();
+    await results[0];
+    await flush();
+    expect(scheduler.stats()).toMatchObject({ running: 2, queued: 0, started: 3 });
+
+    tasks[1].release();
+    tasks[2].release();
+    await expect(Promise.all(results)).resolves.toEqual(['done', 'done', 'done']);
+    expect(scheduler.stats().running).toBe(0);
+  });
+
+  it('should run tasks with the same key one at a time in arrival order', async () => {
+    const scheduler = new ProcessScheduler({ maxConcurrent: 4, queueTimeoutMs: 10000 });
+    const order: string[] = [];
+    const first = deferred();
+
+    const a = scheduler.run('dir', () => { order.push('a'); return first.task(); });
+    const b = scheduler.run('dir', async () => { order.push('b'); });
+    const c = scheduler.run('dir', async () => { order.push('c'); });
+    const other = scheduler.run('other', async () => { order.push('other'); });
+
+    await other;
+    await flush();
+    expect(order).toEqual(['a', 'other']);
+    expect(scheduler.stats().queuedByKey).toEqual({ dir: 2 });
+
+    first.release();
+    await Promise.all([a, b, c]);
+    expect(order).toEqual(['a', 'other', 'b', 'c']);
+  });
+
+  it('should pass task failures through and free the slot', async () => {
+    const scheduler = new ProcessScheduler({ maxConcurrent: 1, queueTimeoutMs: 10000 });
+
+    await expect(scheduler.run('dir', async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(scheduler.run('dir', async () => 'next')).resolves.toBe('next');
+  });
+
+  it('should time out tasks that wait too long without starting them', async () => {
+    vi.useFakeTimers();
+    const scheduler = new ProcessScheduler({ maxConcurrent: 1, queueTimeoutMs: 1000 });
+    const blocker = deferred();
+    const started = vi.fn();
+
+    scheduler.run('dir', blocker.task);
+    const waiting = scheduler.run('dir', async () => started());
+    const failure = expect(waiting).rejects.toMatchObject({ reason: 'timeout' });
+
+    vi.advanceTimersByTime(1001);
+    await failure;
+    await expect(waiting).rejects.toThrow(/same conversation/);
+
+    blocker.release();
+    await vi.runAllTimersAsync();
+    expect(started).not.toHaveBeenCalled();
+    expect(scheduler.stats()).toMatchObject({ timedOut: 1, queued: 0, started: 1 });
+  });
+
+  it('should drop a queued task when its request is cancelled', async () => {
+    const scheduler = new ProcessScheduler({ maxConcurrent: 1, queueTimeoutMs: 10000 });
+    const blocker = deferred();
+    const controller = new AbortController();
+    const started = vi.fn();
+
+    scheduler.run(undefined, blocker.task);
+    const waiting = scheduler.run(undefined, async () => started(), controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toBeInstanceOf(SchedulerError);
+    await expect(waiting).rejects.toMatchObject({ reason: 'cancelled' });
+    expect(scheduler.stats()).toMatchObject({ queued: 0, cancelled: 1 });
+
+    blocker.release();
+    await flush();
+    expect(started).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Scheduling of q processes
+ *
+ * Every q process goes through one scheduler: at most `maxConcurrent` run at
+ * once, and processes that share a key (the working directory, which is where Q
+ * keeps its conversation) run strictly one after another in arrival order.
+ * Waiting work for other keys is not held up by a busy key. A task that waits
+ * longer than the queue timeout, or whose request is cancelled while waiting,
+ * is dropped from the queue without ever starting.
+ */
+
+export interface SchedulerSettings {
+  maxConcurrent: number;
+  queueTimeoutMs: number;
+}
+
+export type SchedulerStats = {
+  maxConcurrent: number;
+  running: number;
+  queued: number;
+  // Keys with work running or waiting, and how many tasks wait for each
+  queuedByKey: Record<string, number>;
+  started: number;
+  timedOut: number;
+  cancelled: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+  // How long the task at the head of the queue has been waiting
+  oldestWaitMs: number;
+};
+
+export class SchedulerError extends Error {
+  constructor(message: string, public reason: 'timeout' | 'cancelled') {
+    super(message);
+    this.name = 'SchedulerError';
+  }
+}
+
+interface QueueEntry {
+  key?: string;
+  enqueuedAt: number;
+  start: () => void;
+}
+
+export class ProcessScheduler {
+  private waiting: QueueEntry[] = [];
+  private running = 0;
+  private busyKeys = new Set<string>();
+  private started = 0;
+  private timedOut = 0;
+  private cancelled = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+
+  constructor(private settings: SchedulerSettings) {}
+
+  /**
+   * Run `task` once a slot is free and no earlier task with the same key is
+   * running or waiting. Tasks without a key only count against the global cap.
+   */
+  run<T>(key: string | undefined, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        this.cancelled++;
+        reject(new SchedulerError('Cancelled before it was scheduled', 'cancelled'));
+        return;
+      }
+
+      const leave = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        const index = this.waiting.indexOf(entry);
+        if (index !== -1) this.waiting.splice(index, 1);
+      };
+
+      const entry: QueueEntry = {
+        key,
+        enqueuedAt: Date.now(),
+        start: () => {
+          leave();
+          const waitMs = Date.now() - entry.enqueuedAt;
+          this.started++;
+          this.totalWaitMs += waitMs;
+          this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+          this.running++;
+          if (key !== undefined) this.busyKeys.add(key);
+
+          let result: Promise<T>;
+          try {
+            result = task();
+          } catch (error) {
+            result = Promise.reject(error);
+          }
+          result.then(resolve, reject).finally(() => {
+            this.running--;
+            if (key !== undefined) this.busyKeys.delete(key);
+            this.pump();
+          });
+        },
+      };
+
+      const timer = setTimeout(() => {
+        leave();
+        this.timedOut++;
+        reject(new SchedulerError(
+          `Waited more than ${this.settings.queueTimeoutMs}ms for a free q process slot` +
+          (key !== undefined && this.busyKeys.has(key) ? ' (another request is using the same conversation)' : ''),
+          'timeout'
+        ));
+      }, this.settings.queueTimeoutMs);
+      timer.unref?.();
+
+      const onAbort = () => {
+        leave();
+        this.cancelled++;
+        reject(new SchedulerError('Cancelled while waiting in the queue', 'cancelled'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.waiting.push(entry);
+      this.pump();
+    });
+  }
+
+  // Start waiting tasks in arrival order, skipping keys that are busy
+  private pump(): void {
+    const blockedKeys = new Set(this.busyKeys);
+    for (const entry of [...this.waiting]) {
+      if (this.running >= this.settings.maxConcurrent) return;
+      if (entry.key !== undefined) {
+        if (blockedKeys.has(entry.key)) continue;
+        blockedKeys.add(entry.key);
+      }
+      entry.start();
+    }
+  }
+
+  stats(): SchedulerStats {
+    const queuedByKey: Record<string, number> = {};
+    for (const key of this.busyKeys) queuedByKey[key] = 0;
+    for (const entry of this.waiting) {
+      if (entry.key !== undefined) queuedByKey[entry.key] = (queuedByKey[entry.key] ?? 0) + 1;
+    }
+
+    return {
+      maxConcurrent: this.settings.maxConcurrent,
+      running: this.running,
+      queued: this.waiting.length,
+      queuedByKey,
+      started: this.started,
+      timedOut: this.timedOut,
+      cancelled: this.cancelled,
+      averageWaitMs: this.started > 0 ? Math.round(this.totalWaitMs / this.started) : 0,
+      maxWaitMs: this.maxWaitMs,
+      oldestWaitMs: this.waiting.length > 0 ? Date.now() - this.waiting[0].enqueuedAt : 0,
+    };
+  }
+}
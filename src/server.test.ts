@@ -1,6 +1,12 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
 import { AmazonQMCPServer } from './server.js';
+import { ProcessScheduler } from './scheduler.js';
+import { DEFAULT_CONFIG } from './config.js';
+import { ErrorType, MCPError } from './errors.js';
 
 // Mock child_process
 vi.mock('child_process');
@@ -10,10 +16,17 @@ const mockSpawn = vi.mocked(spawn);
 
 describe('AmazonQMCPServer', () => {
   let server: AmazonQMCPServer;
+  let dataDir: string;
 
   beforeEach(() => {
     vi.clearAllMocks();
-    server = new AmazonQMCPServer();
+    // Keep directory owners, cached answers and sessions from leaking between tests and runs
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'amazon-q-data-'));
+    server = new AmazonQMCPServer({ ...DEFAULT_CONFIG, dataDir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
   });
 
   describe('Tool Registration', () => {
@@ -84,6 +97,20 @@ describe('AmazonQMCPServer', () => {
       // Test the private method through reflection
       await expect((server as any).executeQCommand(['--invalid'])).rejects.toThrow();
     });
+
+    it('should enforce the output cap in bytes', async () => {
+      mockSpawn.mockReturnValue({
+        stdout: { on: vi.fn((event, callback) => event === 'data' && callback('€'.repeat(400))) },
+        stderr: { on: vi.fn() },
+        on: vi.fn(),
+        stdin: { end: vi.fn() },
+        kill: vi.fn(),
+      } as any);
+
+      // 400 characters, 1200 bytes
+      await expect((server as any).spawnQProcess(['chat'], { maxOutputBytes: 1000 }))
+        .rejects.toThrow('Output size limit exceeded (1000 bytes)');
+    });
   });
 
   describe('Tool Handlers', () => {
@@ -141,6 +168,25 @@ describe('AmazonQMCPServer', () => {
       expect(result.content[0].text).toContain('```bash\nls -la\n```');
     });
 
+    it('should return structured q_translate results with a risk warning', async () => {
+      mockSpawn.mockReturnValue({
+        stdout: { on: vi.fn((event, cb) => event === 'data' && cb('git push --force origin main\n')) },
+        stderr: { on: vi.fn() },
+        on: vi.fn((event, cb) => event === 'close' && cb(0)),
+        stdin: { write: vi.fn(), end: vi.fn() },
+        pid: 12345
+      } as any);
+
+      const result = await (server as any).handleQTranslate({ task: 'overwrite the remote branch' }, 'test-session');
+
+      expect(result.structuredContent).toMatchObject({
+        command: 'git push --force origin main',
+        explanation: null,
+        risk: { level: 'high', findings: [{ rule: 'git-force-push', severity: 'high' }] },
+      });
+      expect(result.content[1].text).toContain('Risk: HIGH');
+    });
+
     it('should handle q_status', async () => {
       const result = await (server as any).handleQStatus({});
       
@@ -149,4 +195,863 @@ describe('AmazonQMCPServer', () => {
       expect(result.content[0].text).toContain('Amazon Q CLI MCP Server Status');
     });
   });
+
+  describe('Progress Streaming', () => {
+    it('should forward stdout chunks to the progress reporter', async () => {
+      const mockChild = {
+        stdout: {
+          on: vi.fn((event, cb) => {
+            if (event === 'data') {
+              cb('Partial ');
+              cb('answer');
+            }
+          }),
+        },
+        stderr: { on: vi.fn() },
+        on: vi.fn((event, cb) => event === 'close' && cb(0)),
+        stdin: { write: vi.fn(), end: vi.fn() },
+        pid: 12345
+      };
+      mockSpawn.mockReturnValue(mockChild as any);
+
+      const progress = { onOutput: vi.fn(), onRetry: vi.fn() };
+      const result = await (server as any).handleAskQ({ prompt: 'Hello' }, 'test-session', progress);
+
+      expect(progress.onOutput).toHaveBeenNthCalledWith(1, 'Partial ');
+      expect(progress.onOutput).toHaveBeenNthCalledWith(2, 'answer');
+      expect(result.content[0].text).toBe('Partial answer');
+    });
+
+    it('should send progress notifications keyed on the progress token', async () => {
+      const sendNotification = vi.fn().mockResolvedValue(undefined);
+      const reporter = (server as any).createProgressReporter('token-1', sendNotification);
+
+      reporter.onOutput('abc');
+      reporter.onOutput('de');
+
+      expect(sendNotification).toHaveBeenCalledTimes(2);
+      expect(sendNotification.mock.calls[1][0]).toEqual({
+        method: 'notifications/progress',
+        params: { progressToken: 'token-1', progress: 5, message: 'de' },
+      });
+    });
+
+    it('should not create a reporter without a progress token', () => {
+      expect((server as any).createProgressReporter(undefined, vi.fn())).toBeUndefined();
+    });
+
+    it('should report when a retry restarts the stream', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+      const onRetry = vi.fn();
+      const operation = vi.fn()
+        .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+        .mockResolvedValueOnce('ok');
+
+      const result = await (server as any).executeWithRetry(operation, 'ask_q', { onRetry });
+
+      expect(result).toBe('ok');
+      expect(onRetry).toHaveBeenCalledTimes(1);
+      expect(onRetry.mock.calls[0][0]).toBe(1);
+      expect(onRetry.mock.calls[0][2].type).toBe('NETWORK_ERROR');
+      vi.mocked(Math.random).mockRestore();
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should terminate the process group when the request is aborted', async () => {
+      vi.useFakeTimers();
+      const killSpy = vi.spyOn(process, 'kill').mockImplementation(() => true);
+      const mockChild = {
+        stdout: { on: vi.fn() },
+        stderr: { on: vi.fn() },
+        on: vi.fn(),
+        stdin: { write: vi.fn(), end: vi.fn() },
+        kill: vi.fn(),
+        pid: 4242
+      };
+      mockSpawn.mockReturnValue(mockChild as any);
+
+      const controller = new AbortController();
+      const pending = (server as any).executeQCommandWithInputInDirectory(['chat'], 'hi', '/tmp', { signal: controller.signal });
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({ type: 'CANCELLED' });
+      expect(killSpy).toHaveBeenCalledWith(-4242, 'SIGTERM');
+
+      vi.advanceTimersByTime(5000);
+      expect(killSpy).toHaveBeenCalledWith(-4242, 'SIGKILL');
+
+      killSpy.mockRestore();
+      vi.useRealTimers();
+    });
+
+    it('should terminate the process group and drop later output when the cap is hit', async () => {
+      const killSpy = vi.spyOn(process, 'kill').mockImplementation(() => true);
+      let emit: (data: string) => void = () => {};
+      mockSpawn.mockReturnValue({
+        stdout: { on: vi.fn((event, callback) => { if (event === 'data') emit = callback; }) },
+        stderr: { on: vi.fn() },
+        on: vi.fn(),
+        stdin: { end: vi.fn() },
+        kill: vi.fn(),
+        pid: 4243
+      } as any);
+      const onOutput = vi.fn();
+
+      const pending = (server as any).startQProcess(['chat'], { maxOutputBytes: 10, onOutput });
+      emit('12345');
+      emit('678901');
+      emit('more');
+
+      await expect(pending).rejects.toThrow('Output size limit exceeded (10 bytes)');
+      expect(killSpy).toHaveBeenCalledWith(-4243, 'SIGTERM');
+      expect(onOutput).toHaveBeenCalledTimes(1);
+      killSpy.mockRestore();
+    });
+
+    it('should terminate the process group when q times out', async () => {
+      vi.useFakeTimers();
+      const killSpy = vi.spyOn(process, 'kill').mockImplementation(() => true);
+      let close: (code: number | null, signal: string | null) => void = () => {};
+      mockSpawn.mockReturnValue({
+        stdout: { on: vi.fn() },
+        stderr: { on: vi.fn() },
+        on: vi.fn((event, callback) => { if (event === 'close') close = callback; }),
+        stdin: { end: vi.fn() },
+        pid: 4244
+      } as any);
+
+      const pending = (server as any).startQProcess(['chat'], { timeoutMs: 1000 });
+      expect(mockSpawn.mock.calls[0][2]).not.toHaveProperty('timeout');
+      vi.advanceTimersByTime(1000);
+      expect(killSpy).toHaveBeenCalledWith(-4244, 'SIGTERM');
+      close(null, 'SIGTERM');
+
+      await expect(pending).rejects.toMatchObject({ failure: 'timeout' });
+      killSpy.mockRestore();
+      vi.useRealTimers();
+    });
+
+    it('should stop retrying once the signal is aborted', async () => {
+      const controller = new AbortController();
+      const operation = vi.fn().mockImplementation(async () => {
+        controller.abort();
+        throw new Error('ECONNREFUSED');
+      });
+
+      await expect(
+        (server as any).executeWithRetry(operation, 'ask_q', { signal: controller.signal })
+      ).rejects.toMatchObject({ type: 'CANCELLED' });
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Session Management', () => {
+    it('should start a fresh conversation after q_session_reset', async () => {
+      const mockChild = {
+        stdout: { on: vi.fn((event, cb) => event === 'data' && cb('Fresh answer')) },
+        stderr: { on: vi.fn() },
+        on: vi.fn((event, cb) => event === 'close' && cb(0)),
+        stdin: { write: vi.fn(), end: vi.fn() },
+        pid: 12345
+      };
+      mockSpawn.mockReturnValue(mockChild as any);
+
+      await (server as any).handleSessionReset({}, 'reset-test-session');
+      await (server as any).handleAskQ({ prompt: 'Hello' }, 'reset-test-session');
+      await (server as any).handleAskQ({ prompt: 'Again' }, 'reset-test-session');
+
+      expect(mockSpawn.mock.calls[0][1]).toEqual(['chat', '--no-interactive']);
+      expect(mockSpawn.mock.calls[1][1]).toEqual(['chat', '--resume', '--no-interactive']);
+    });
+
+    it('should reject path traversal in session tool arguments', async () => {
+      await expect((server as any).handleSessionDelete({ sessionId: '../default' }))
+        .rejects.toMatchObject({ type: 'VALIDATION_ERROR', code: 'INVALID_SESSION' });
+    });
+
+    it('should not delete a session that a tool call is using', async () => {
+      const sessionId = `busy-${Date.now()}`;
+      const sessionDir = (server as any).getSessionDirectory(sessionId);
+      const release = (server as any).sessionStore.markActive(sessionDir);
+
+      await expect((server as any).handleSessionDelete({ sessionId }, 'other'))
+        .rejects.toMatchObject({ type: 'RESOURCE_BUSY', code: 'SESSION_IN_USE', retryable: true });
+      await expect((server as any).handleSessionDelete({ sessionId }, sessionId))
+        .rejects.toMatchObject({
+          type: 'VALIDATION_ERROR',
+          code: 'SESSION_IN_USE',
+          retryable: false,
+          message: expect.stringContaining('q_session_reset')
+        });
+
+      release();
+      await (server as any).handleSessionDelete({ sessionId }, 'other');
+      expect(fs.existsSync(sessionDir)).toBe(false);
+    });
+
+    it('should require either sessionId or olderThanDays for deletion', async () => {
+      await expect((server as any).handleSessionDelete({}))
+        .rejects.toMatchObject({ type: 'VALIDATION_ERROR', code: 'INVALID_PARAMS' });
+    });
+  });
+
+  describe('Conversation History', () => {
+    it('should record ask_q exchanges and return them from q_history', async () => {
+      const sessionId = `history-${Date.now()}`;
+      const mockChild = {
+        stdout: { on: vi.fn((event, cb) => event === 'data' && cb('Use S3 lifecycle rules')) },
+        stderr: { on: vi.fn() },
+        on: vi.fn((event, cb) => event === 'close' && cb(0)),
+        stdin: { write: vi.fn(), end: vi.fn() },
+        pid: 12345
+      };
+      mockSpawn.mockReturnValue(mockChild as any);
+
+      await (server as any).handleAskQ({ prompt: 'How do I expire old objects?', model: 'claude-3-sonnet' }, sessionId);
+      const result = await (server as any).handleQHistory({ query: 'lifecycle' }, sessionId);
+      const history = JSON.parse(result.content[0].text);
+
+      expect(history.returned).toBe(1);
+      expect(history.turns[0]).toMatchObject({
+        tool: 'ask_q',
+        prompt: 'How do I expire old objects?',
+        model: 'claude-3-sonnet',
+        response: 'Use S3 lifecycle rules',
+      });
+    });
+
+    it('should record the error type of failed exchanges', async () => {
+      const sessionId = `history-error-${Date.now()}`;
+      const mockChild = {
+        stdout: { on: vi.fn() },
+        stderr: { on: vi.fn((event, cb) => event === 'data' && cb('AccessDeniedException')) },
+        on: vi.fn((event, cb) => event === 'close' && cb(1)),
+        stdin: { write: vi.fn(), end: vi.fn() },
+        pid: 12345
+      };
+      mockSpawn.mockReturnValue(mockChild as any);
+
+      await expect((server as any).handleAskQ({ prompt: 'Hello' }, sessionId)).rejects.toThrow();
+      const result = await (server as any).handleQHistory({}, sessionId);
+      const history = JSON.parse(result.content[0].text);
+
+      expect(history.turns[0].errorType).toBe('AUTHENTICATION_ERROR');
+      expect(history.turns[0].response).toBeUndefined();
+    });
+  });
+
+  describe('Conversation Threads', () => {
+    const answer = (text: string) => ({
+      stdout: { on: vi.fn((event, cb) => event === 'data' && cb(text)) },
+      stderr: { on: vi.fn() },
+      on: vi.fn((event, cb) => event === 'close' && cb(0)),
+      stdin: { write: vi.fn(), end: vi.fn() },
+      pid: 12345
+    });
+
+    it('should run each conversationId in its own directory', async () => {
+      const sessionId = `threads-${Date.now()}`;
+      mockSpawn.mockReturnValue(answer('ok') as any);
+
+      await (server as any).handleAskQ({ prompt: 'Main thread' }, sessionId);
+      await (server as any).handleAskQ({ prompt: 'Side thread', conversationId: 'side' }, sessionId);
+
+      const mainCwd = mockSpawn.mock.calls[0][2]!.cwd as string;
+      const sideCwd = mockSpawn.mock.calls[1][2]!.cwd as string;
+      expect(sideCwd).toBe(path.join(mainCwd, 'conversations', 'side'));
+
+      const history = JSON.parse((await (server as any).handleQHistory({ conversationId: 'side' }, sessionId)).content[0].text);
+      expect(history.turns.map((t: any) => t.prompt)).toEqual(['Side thread']);
+    });
+
+    it('should reject invalid conversation IDs', async () => {
+      await expect((server as any).handleAskQ({ prompt: 'Hi', conversationId: '../escape' }, 'threads-invalid'))
+        .rejects.toMatchObject({ type: 'VALIDATION_ERROR', code: 'INVALID_CONVERSATION' });
+    });
+
+    it('should seed the first call of a fork with the source history', async () => {
+      const sessionId = `fork-${Date.now()}`;
+      const first = answer('Use DynamoDB');
+      mockSpawn.mockReturnValue(first as any);
+      await (server as any).handleAskQ({ prompt: 'Which database?' }, sessionId);
+
+      const fork = JSON.parse((await (server as any).handleConversationFork({ conversationId: 'branch' }, sessionId)).content[0].text);
+      expect(fork).toMatchObject({ conversationId: 'branch', forkedFrom: 'main', copiedTurns: 1 });
+
+      const forked = answer('Then use on-demand capacity');
+      mockSpawn.mockReturnValue(forked as any);
+      await (server as any).handleAskQ({ prompt: 'What about cost?', conversationId: 'branch' }, sessionId);
+      await (server as any).handleAskQ({ prompt: 'And backups?', conversationId: 'branch' }, sessionId);
+
+      expect(mockSpawn.mock.calls[1][1]).toEqual(['chat', '--no-interactive']);
+      expect(forked.stdin.write.mock.calls[0][0]).toContain('User: Which database?\n\nAmazon Q: Use DynamoDB');
+      expect(forked.stdin.write.mock.calls[0][0]).toMatch(/What about cost\?\n$/);
+      expect(mockSpawn.mock.calls[2][1]).toEqual(['chat', '--resume', '--no-interactive']);
+      expect(forked.stdin.write.mock.calls[1][0]).toBe('And backups?\n');
+
+      await expect((server as any).handleConversationFork({ conversationId: 'branch' }, sessionId))
+        .rejects.toMatchObject({ code: 'INVALID_CONVERSATION' });
+    });
+  });
+
+  describe('Working Directories', () => {
+    let projectRoot: string;
+
+    const answer = (text: string) => ({
+      stdout: { on: vi.fn((event, cb) => event === 'data' && cb(text)) },
+      stderr: { on: vi.fn() },
+      on: vi.fn((event, cb) => event === 'close' && cb(0)),
+      stdin: { write: vi.fn(), end: vi.fn() },
+      pid: 12345
+    });
+
+    beforeEach(() => {
+      projectRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'amazon-q-project-')));
+      (server as any).config = { ...(server as any).config, allowedRoots: [projectRoot] };
+    });
+
+    afterEach(() => {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    it('should run Q in an allowed project directory', async () => {
+      mockSpawn.mockReturnValue(answer('ok') as any);
+
+      await (server as any).handleAskQ({ prompt: 'Explain this repo', workingDirectory: projectRoot }, `workdir-${Date.now()}`);
+
+      expect(mockSpawn.mock.calls[0][2]!.cwd).toBe(projectRoot);
+    });
+
+    it('should send attached files ahead of the prompt and report them', async () => {
+      fs.writeFileSync(path.join(projectRoot, 'template.yaml'), 'Resources: {}\n');
+      const child = answer('Looks fine');
+      mockSpawn.mockReturnValue(child as any);
+
+      const result = await (server as any).handleAskQ(
+        { prompt: 'Review this template', workingDirectory: projectRoot, files: ['template.yaml'] },
+        `files-${Date.now()}`
+      );
+
+      expect(child.stdin.write.mock.calls[0][0]).toBe('File: template.yaml\n```yaml\nResources: {}\n```\n\nReview this template\n');
+      expect(result.content[0].text).toBe('Looks fine');
+      expect(result.content[1].text).toContain('`template.yaml` (14 bytes)');
+    });
+
+    it('should reject attached files outside the allowed roots', async () => {
+      await expect((server as any).handleAskQ({ prompt: 'Hi', files: ['/etc/hostname'] }, 'files-denied'))
+        .rejects.toMatchObject({ type: 'VALIDATION_ERROR', code: 'INVALID_FILE' });
+    });
+
+    it('should reject directories outside the allowed roots', async () => {
+      await expect((server as any).handleAskQ({ prompt: 'Hi', workingDirectory: os.tmpdir() }, 'workdir-denied'))
+        .rejects.toMatchObject({ type: 'VALIDATION_ERROR', code: 'DIRECTORY_NOT_ALLOWED' });
+    });
+
+    it('should look up a directory for q_history and q_session_reset without creating its state', async () => {
+      const sessionId = `workdir-lookup-${Date.now()}`;
+      const sessionDir = (server as any).getSessionDirectory(sessionId);
+      const before = fs.readdirSync(sessionDir);
+
+      const history = JSON.parse((await (server as any).handleQHistory({ workingDirectory: projectRoot }, sessionId)).content[0].text);
+      const reset = await (server as any).handleSessionReset({ workingDirectory: projectRoot }, sessionId);
+
+      expect(history.totalTurns).toBe(0);
+      expect(reset.content[0].text).toContain('nothing to reset');
+      expect(fs.readdirSync(sessionDir)).toEqual(before);
+    });
+
+    it('should start over with replayed history after another session used the directory', async () => {
+      const sessionA = `workdir-a-${Date.now()}`;
+      const sessionB = `workdir-b-${Date.now()}`;
+      const child = answer('Use CDK');
+      mockSpawn.mockReturnValue(child as any);
+
+      await (server as any).handleAskQ({ prompt: 'How to deploy?', workingDirectory: projectRoot }, sessionA);
+      await (server as any).handleAskQ({ prompt: 'Follow-up', workingDirectory: projectRoot }, sessionA);
+      await (server as any).handleAskQ({ prompt: 'Unrelated', workingDirectory: projectRoot }, sessionB);
+      await (server as any).handleAskQ({ prompt: 'Back again', workingDirectory: projectRoot }, sessionA);
+
+      expect(mockSpawn.mock.calls.map(call => call[1])).toEqual([
+        ['chat', '--no-interactive'],
+        ['chat', '--resume', '--no-interactive'],
+        ['chat', '--no-interactive'],
+        ['chat', '--no-interactive'],
+      ]);
+      expect(child.stdin.write.mock.calls[3][0]).toContain('User: Follow-up\n\nAmazon Q: Use CDK');
+      expect(child.stdin.write.mock.calls[3][0]).not.toContain('Unrelated');
+    });
+
+    it('should keep the directory with its session when another session\'s call fails', async () => {
+      const sessionA = `workdir-a-${Date.now()}`;
+      const sessionB = `workdir-b-${Date.now()}`;
+      const failed = {
+        ...answer(''),
+        stderr: { on: vi.fn((event, cb) => event === 'data' && cb('Error: invalid model')) },
+        on: vi.fn((event, cb) => event === 'close' && cb(1)),
+      };
+
+      mockSpawn.mockReturnValue(answer('Use CDK') as any);
+      await (server as any).handleAskQ({ prompt: 'How to deploy?', workingDirectory: projectRoot }, sessionA);
+      mockSpawn.mockReturnValue(failed as any);
+      await expect((server as any).handleAskQ({ prompt: 'Unrelated', workingDirectory: projectRoot }, sessionB)).rejects.toBeInstanceOf(MCPError);
+      mockSpawn.mockReturnValue(answer('Sure') as any);
+      await (server as any).handleAskQ({ prompt: 'Follow-up', workingDirectory: projectRoot }, sessionA);
+
+      expect(mockSpawn.mock.calls.at(-1)![1]).toEqual(['chat', '--resume', '--no-interactive']);
+    });
+  });
+
+  describe('Output Formatting', () => {
+    const output = '\x1b[32m> \x1b[0mCreate it with:\n\n```bash\naws s3 mb s3://demo\n```\n';
+
+    beforeEach(() => {
+      mockSpawn.mockReturnValue({
+        stdout: { on: vi.fn((event, cb) => event === 'data' && cb(output)) },
+        stderr: { on: vi.fn() },
+        on: vi.fn((event, cb) => event === 'close' && cb(0)),
+        stdin: { write: vi.fn(), end: vi.fn() },
+        pid: 12345
+      } as any);
+    });
+
+    it('should return cleaned output by default', async () => {
+      const result = await (server as any).handleAskQ({ prompt: 'Make a bucket' }, 'format-clean');
+
+      expect(result.content).toEqual([{ type: 'text', text: 'Create it with:\n\n```bash\naws s3 mb s3://demo\n```' }]);
+    });
+
+    it('should split code blocks into separate content items', async () => {
+      const result = await (server as any).handleAskQ({ prompt: 'Make a bucket', outputFormat: 'split' }, 'format-split');
+
+      expect(result.content).toEqual([
+        { type: 'text', text: 'Create it with:', _meta: { kind: 'prose' } },
+        { type: 'text', text: '```bash\naws s3 mb s3://demo\n```', _meta: { kind: 'code', language: 'bash' } },
+      ]);
+    });
+
+    it('should return the unmodified output on request', async () => {
+      const result = await (server as any).handleAskQ({ prompt: 'Make a bucket', outputFormat: 'raw' }, 'format-raw');
+
+      expect(result.content[0].text).toBe(output);
+    });
+  });
+
+  describe('Command Runner', () => {
+    const child = (stdout: string, code = 0) => ({
+      stdout: { on: vi.fn((event, cb) => event === 'data' && cb(stdout)) },
+      stderr: { on: vi.fn() },
+      on: vi.fn((event, cb) => event === 'close' && cb(code, null)),
+      stdin: { write: vi.fn(), end: vi.fn() },
+      pid: 12345
+    });
+
+    const translate = async (sessionId: string, command: string) => {
+      mockSpawn.mockReturnValueOnce(child(`\`\`\`bash\n${command}\n\`\`\``) as any);
+      const result = await (server as any).handleQTranslate({ task: 'do it' }, sessionId);
+      return result.structuredContent.translationId as string;
+    };
+
+    it('should run a safe translated command in the session directory', async () => {
+      const sessionId = `run-${Date.now()}`;
+      const translationId = await translate(sessionId, 'ls -la');
+      mockSpawn.mockReturnValueOnce(child('total 0\n', 0) as any);
+
+      const result = JSON.parse((await (server as any).handleRunCommand({ translationId }, sessionId)).content[0].text);
+
+      expect(mockSpawn.mock.calls[1][0]).toBe('bash');
+      expect(mockSpawn.mock.calls[1][1]).toEqual(['-c', 'ls -la']);
+      expect(mockSpawn.mock.calls[1][2]!.cwd).toBe(mockSpawn.mock.calls[0][2]!.cwd);
+      expect(result).toMatchObject({ status: 'completed', exitCode: 0, stdout: 'total 0\n', timedOut: false });
+    });
+
+    it('should require a single-use confirmation token for flagged commands', async () => {
+      const sessionId = `run-risky-${Date.now()}`;
+      const translationId = await translate(sessionId, 'rm -rf build');
+
+      const pending = JSON.parse((await (server as any).handleRunCommand({ translationId }, sessionId)).content[0].text);
+      expect(pending).toMatchObject({ status: 'confirmation_required', risk: { level: 'high' } });
+      expect(mockSpawn).toHaveBeenCalledTimes(1);
+
+      await expect((server as any).handleRunCommand({ translationId, confirmationToken: 'wrong' }, sessionId))
+        .rejects.toMatchObject({ code: 'INVALID_CONFIRMATION' });
+
+      mockSpawn.mockReturnValueOnce(child('', 0) as any);
+      await (server as any).handleRunCommand({ translationId, confirmationToken: pending.confirmationToken }, sessionId);
+      expect(mockSpawn.mock.calls[1][1]).toEqual(['-c', 'rm -rf build']);
+
+      await expect((server as any).handleRunCommand({ translationId, confirmationToken: pending.confirmationToken }, sessionId))
+        .rejects.toMatchObject({ code: 'INVALID_CONFIRMATION' });
+    });
+
+    it('should cap command output in bytes', async () => {
+      const sessionId = `run-bytes-${Date.now()}`;
+      const translationId = await translate(sessionId, 'cat notes.txt');
+      (server as any).config = { ...(server as any).config, tools: { q_run_command: { maxOutputBytes: 1024 } } };
+      // 600 characters, 1200 bytes
+      mockSpawn.mockReturnValueOnce(child('é'.repeat(600), 0) as any);
+
+      const result = JSON.parse((await (server as any).handleRunCommand({ translationId }, sessionId)).content[0].text);
+
+      expect(result.outputTruncated).toBe(true);
+      expect(result.stdout).toBe('é'.repeat(512));
+    });
+
+    it('should keep translations out of the session directory and schedule the command', async () => {
+      const sessionId = `run-private-${Date.now()}`;
+      const translationId = await translate(sessionId, 'ls');
+      const sessionDir = (server as any).getSessionDirectory(sessionId);
+      const scheduleSpy = vi.spyOn((server as any).scheduler, 'run');
+      mockSpawn.mockReturnValueOnce(child('', 0) as any);
+
+      await (server as any).handleRunCommand({ translationId }, sessionId);
+
+      expect(fs.readdirSync(sessionDir).some(name => name.includes('translation'))).toBe(false);
+      expect(fs.existsSync(path.join(dataDir, 'translations', `${path.basename(sessionDir)}.jsonl`))).toBe(true);
+      expect(scheduleSpy).toHaveBeenCalledWith(sessionDir, expect.any(Function), undefined);
+    });
+
+    it('should refuse translations from another session', async () => {
+      const translationId = await translate(`run-a-${Date.now()}`, 'ls');
+
+      await expect((server as any).handleRunCommand({ translationId }, `run-b-${Date.now()}`))
+        .rejects.toMatchObject({ type: 'VALIDATION_ERROR', code: 'UNKNOWN_TRANSLATION' });
+    });
+  });
+
+  describe('Process Scheduling', () => {
+    it('should fail with QUEUE_TIMEOUT when a call waits too long behind the same directory', async () => {
+      vi.useFakeTimers();
+      (server as any).scheduler = new ProcessScheduler({ maxConcurrent: 4, queueTimeoutMs: 1000 });
+      mockSpawn.mockReturnValue({
+        stdout: { on: vi.fn() },
+        stderr: { on: vi.fn() },
+        on: vi.fn(),
+        stdin: { write: vi.fn(), end: vi.fn() },
+        pid: 4343
+      } as any);
+
+      (server as any).executeQCommandWithInputInDirectory(['chat'], 'first', '/tmp/q-busy', {}).catch(() => {});
+      const queued = (server as any).executeQCommandWithInputInDirectory(['chat'], 'second', '/tmp/q-busy', {});
+      const failure = expect(queued).rejects.toMatchObject({ type: 'SERVICE_CAPACITY_ERROR', code: 'QUEUE_TIMEOUT', retryable: false });
+
+      vi.advanceTimersByTime(1001);
+      await failure;
+      expect(mockSpawn).toHaveBeenCalledTimes(1);
+      expect((server as any).scheduler.stats()).toMatchObject({ running: 1, queued: 0, timedOut: 1 });
+      vi.useRealTimers();
+    });
+  });
+
+  describe('Response Cache', () => {
+    const child = (stdout: string) => ({
+      stdout: { on: vi.fn((event, cb) => event === 'data' && cb(stdout)) },
+      stderr: { on: vi.fn() },
+      on: vi.fn((event, cb) => event === 'close' && cb(0, null)),
+      stdin: { write: vi.fn(), end: vi.fn() },
+      pid: 12345
+    });
+
+    it('should answer a repeated translation from the cache unless noCache is set', async () => {
+      mockSpawn.mockReturnValue(child('```bash\nls -la\n```') as any);
+
+      const first = await (server as any).handleQTranslate({ task: 'list  all files' }, `cache-${Date.now()}`);
+      const second = await (server as any).handleQTranslate({ task: 'list all files ' }, `cache-other-${Date.now()}`);
+      expect(mockSpawn).toHaveBeenCalledTimes(1);
+      expect(first._meta).toBeUndefined();
+      expect(second._meta).toMatchObject({ cached: true });
+      expect(second.structuredContent.command).toBe('ls -la');
+      expect(second.structuredContent.translationId).not.toBe(first.structuredContent.translationId);
+
+      await (server as any).handleQTranslate({ task: 'list all files', noCache: true }, `cache-${Date.now()}`);
+      expect(mockSpawn).toHaveBeenCalledTimes(2);
+      expect((server as any).responseCache.stats()).toMatchObject({ hits: 1, misses: 1, bypassed: 1, stores: 1 });
+    });
+
+    it('should not cache resumed ask_q calls unless asked to', async () => {
+      const sessionId = `cache-ask-${Date.now()}`;
+      mockSpawn.mockReturnValue(child('Paris') as any);
+
+      await (server as any).handleAskQ({ prompt: 'Capital of France?' }, sessionId);
+      await (server as any).handleAskQ({ prompt: 'Capital of France?' }, sessionId);
+      expect(mockSpawn).toHaveBeenCalledTimes(2);
+
+      await (server as any).handleAskQ({ prompt: 'Capital of France?', cacheResumed: true }, sessionId);
+      const cached = await (server as any).handleAskQ({ prompt: 'Capital of France?', cacheResumed: true }, sessionId);
+      expect(mockSpawn).toHaveBeenCalledTimes(3);
+      expect(cached.content[0].text).toBe('Paris');
+      expect(cached._meta).toMatchObject({ cached: true });
+    });
+  });
+
+  describe('Circuit Breaker', () => {
+    it('should fail fast with CIRCUIT_OPEN once network failures reach the threshold', async () => {
+      const retry = { ...DEFAULT_CONFIG.defaults.retry, baseDelayMs: 0, maxDelayMs: 0 };
+      const operation = vi.fn().mockRejectedValue(new Error('ECONNREFUSED'));
+
+      await expect((server as any).executeWithRetry(operation, 'ask_q', { retry })).rejects.toMatchObject({ type: 'NETWORK_ERROR' });
+      await expect((server as any).executeWithRetry(operation, 'ask_q', { retry })).rejects.toMatchObject({ type: 'NETWORK_ERROR' });
+      expect(operation).toHaveBeenCalledTimes(5);
+
+      const error = await (server as any).executeWithRetry(operation, 'ask_q', { retry }).catch((e: any) => e);
+      expect(operation).toHaveBeenCalledTimes(5);
+      expect(error).toMatchObject({ type: 'CIRCUIT_OPEN', code: 'CIRCUIT_OPEN', retryable: false });
+      expect(error.message).toMatch(/NETWORK_ERROR circuit half-opens at/);
+      expect(error.guidance.actions[0]).toMatch(/next trial call is allowed at/);
+
+      const status = await (server as any).handleQStatus({});
+      expect(status.content[0].text).toContain('**NETWORK_ERROR:** open until');
+    });
+  });
+
+  describe('Retry Policies', () => {
+    const retry = {
+      maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0, backoff: 'constant', jitter: 'none', deadlineMs: 0,
+      errorTypes: { NETWORK_ERROR: { maxAttempts: 1 } },
+    };
+
+    it('should use the policy of the error type and report each attempt', async () => {
+      const operation = vi.fn()
+        .mockRejectedValueOnce(new Error('rate limit exceeded'))
+        .mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+      const error = await (server as any).executeWithRetry(operation, 'ask_q', { retry }).catch((e: any) => e);
+
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(error.type).toBe('NETWORK_ERROR');
+      expect(error.retryDetails).toMatchObject({
+        stoppedBy: 'max_attempts',
+        attempts: [
+          { attempt: 1, errorType: 'SERVICE_CAPACITY_ERROR', delayMs: 0 },
+          { attempt: 2, errorType: 'NETWORK_ERROR' },
+        ],
+      });
+      expect((server as any).formatErrorResponse(error).content[0].text).toContain('**Attempts:** 2 in');
+    });
+
+    it('should wait out a retry-after hint from Amazon Q', async () => {
+      vi.useFakeTimers();
+      const operation = vi.fn()
+        .mockRejectedValueOnce(new Error('Q CLI exited with code 1: throttled, retry after 3 seconds'))
+        .mockResolvedValueOnce('ok');
+
+      const pending = (server as any).executeWithRetry(operation, 'ask_q', { retry });
+      await vi.advanceTimersByTimeAsync(2900);
+      expect(operation).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(200);
+      await expect(pending).resolves.toBe('ok');
+      vi.useRealTimers();
+    });
+
+    it('should not retry past the caller deadline and pass the remaining time to each attempt', async () => {
+      const operation = vi.fn().mockRejectedValue(new Error('rate limit exceeded'));
+
+      const error = await (server as any).executeWithRetry(operation, 'ask_q', {
+        retry: { ...retry, baseDelayMs: 5000, maxDelayMs: 5000 },
+        deadlineMs: 2000,
+      }).catch((e: any) => e);
+
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(operation.mock.calls[0][0].remainingMs).toBeLessThanOrEqual(2000);
+      expect(error.retryDetails).toMatchObject({ stoppedBy: 'deadline', deadlineMs: 2000 });
+    });
+  });
+
+  describe('Structured Errors', () => {
+    it('should return failures as isError results with a machine-readable payload', async () => {
+      const error = new MCPError(ErrorType.SERVICE_CAPACITY_ERROR, 'SERVICE_OVERLOAD', 'Amazon Q is busy', true);
+      error.rule = 'service-capacity';
+      error.retryDetails = { attempts: [], stoppedBy: 'max_attempts', elapsedMs: 10 };
+
+      const result = (server as any).formatErrorResponse(error, '7');
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Amazon Q is busy');
+      expect(result.structuredContent).toMatchObject({
+        type: 'SERVICE_CAPACITY_ERROR',
+        code: 'SERVICE_OVERLOAD',
+        retryable: true,
+        requestId: '7',
+        rule: 'service-capacity',
+        retry: { stoppedBy: 'max_attempts' },
+      });
+      expect((server as any).formatErrorResponse(error).structuredContent.requestId).toBeNull();
+    });
+
+    it('should raise fetch_chunk HTTP and network failures as classified errors', async () => {
+      vi.spyOn((server as any).networkPolicy, 'fetch')
+        .mockResolvedValueOnce(new Response('missing', { status: 404, statusText: 'Not Found' }))
+        .mockResolvedValueOnce(new Response('busy', { status: 503, statusText: 'Service Unavailable' }))
+        .mockRejectedValueOnce(new Error('connect ECONNREFUSED 93.184.216.34:443'));
+      const fetchChunk = () => (server as any).handleFetchChunk({ url: 'https://example.com/file' }).catch((e: any) => e);
+
+      expect(await fetchChunk()).toMatchObject({ type: 'VALIDATION_ERROR', code: 'HTTP_404', retryable: false });
+      expect(await fetchChunk()).toMatchObject({ type: 'SERVICE_CAPACITY_ERROR', code: 'HTTP_503', retryable: true });
+      expect(await fetchChunk()).toMatchObject({ type: 'NETWORK_ERROR', code: 'FETCH_FAILED', retryable: true });
+    });
+  });
+
+  describe('Downloads', () => {
+    it('should report a failed download as an error and list it as resumable', async () => {
+      const sessionId = `download-${Date.now()}`;
+      vi.spyOn((server as any).networkPolicy, 'fetch')
+        .mockResolvedValue(new Response('busy', { status: 503, statusText: 'Service Unavailable', headers: { 'Retry-After': '10' } }));
+
+      const error = await (server as any).handleFetchDownload({ url: 'https://example.com/releases/tool.tar.gz' }, sessionId).catch((e: any) => e);
+      const status = await (server as any).handleFetchDownloadStatus({}, sessionId);
+
+      expect(error).toMatchObject({ type: 'SERVICE_CAPACITY_ERROR', code: 'HTTP_503', retryable: true });
+      expect(error.message).toContain('Retry-After: 10');
+      expect(JSON.parse(status.content[0].text).downloads).toMatchObject([
+        { filename: 'tool.tar.gz', url: 'https://example.com/releases/tool.tar.gz', state: 'interrupted', downloadedBytes: 0 },
+      ]);
+      fs.rmSync((server as any).getSessionDirectory(sessionId), { recursive: true, force: true });
+    });
+  });
+
+  describe('Text Fetching', () => {
+    // Serves ranges of a file the way a static file server does
+    const serveRanges = (file: Buffer, contentType: string) => vi.fn(async (_url: string, request: any) => {
+      const [start, end] = request.headers.Range.match(/(\d+)-(\d+)/).slice(1).map(Number);
+      if (start >= file.length) {
+        return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${file.length}` } });
+      }
+      const last = Math.min(end, file.length - 1);
+      return new Response(file.subarray(start, last + 1), {
+        status: 206,
+        headers: { 'Content-Type': contentType, 'Content-Range': `bytes ${start}-${last}/${file.length}`, 'ETag': '"v1"' },
+      });
+    });
+
+    it('should decode fetch_chunk ranges as text and report where to continue', async () => {
+      const file = Buffer.from('{"name":"café"}', 'utf8');
+      (server as any).networkPolicy.fetch = serveRanges(file, 'application/json');
+
+      const first = JSON.parse((await (server as any).handleFetchChunk({ url: 'https://example.com/a.json', length: 13, encoding: 'auto' })).content[0].text);
+      expect(first).toMatchObject({ encoding: 'text', charset: 'utf-8', text: '{"name":"caf', decodedBytes: 12, nextStart: 12 });
+
+      const rest = JSON.parse((await (server as any).handleFetchChunk({ url: 'https://example.com/a.json', start: first.nextStart, encoding: 'text' })).content[0].text);
+      expect(rest).toMatchObject({ encoding: 'text', text: 'é"}', nextStart: file.length });
+    });
+
+    it('should find lines by scanning the file in ranges', async () => {
+      const file = Buffer.from(Array.from({ length: 30000 }, (_, i) => `line ${i + 1}`).join('\n') + '\n');
+      const fetch = serveRanges(file, 'text/plain');
+      (server as any).networkPolicy.fetch = fetch;
+
+      const result = JSON.parse((await (server as any).handleFetchLines({ url: 'https://example.com/app.log', startLine: 29999, endLine: 30005 })).content[0].text);
+
+      expect(result).toMatchObject({ startLine: 29999, endLine: 30000, lines: ['line 29999', 'line 30000'], eof: true, totalLines: 30000, endByte: file.length });
+      expect(file.subarray(result.startByte, result.startByte + 10).toString()).toBe('line 29999');
+      expect(fetch.mock.calls.length).toBeGreaterThan(1);
+      expect(fetch.mock.calls.slice(1).every(call => call[1].headers['If-Range'] === '"v1"')).toBe(true);
+    });
+
+    it('should stop fetch_lines on a changed file, a wrong range or an endless whole-file response', async () => {
+      const fetchLines = (args: any) => (server as any).handleFetchLines({ url: 'https://example.com/app.log', ...args }).catch((e: any) => e);
+      const partial = (start: number, etag: string) => new Response('x'.repeat(262144), {
+        status: 206, headers: { 'Content-Range': `bytes ${start}-${start + 262143}/1000000`, 'ETag': etag },
+      });
+
+      (server as any).networkPolicy.fetch = vi.fn()
+        .mockResolvedValueOnce(partial(0, '"v1"'))
+        .mockResolvedValueOnce(partial(262144, '"v2"'));
+      expect(await fetchLines({ startLine: 2 })).toMatchObject({ code: 'REMOTE_CHANGED' });
+
+      (server as any).networkPolicy.fetch = vi.fn()
+        .mockResolvedValueOnce(partial(0, '"v1"'))
+        .mockResolvedValueOnce(partial(0, '"v1"'));
+      expect(await fetchLines({ startLine: 2 })).toMatchObject({ code: 'BAD_RANGE_RESPONSE', message: expect.stringContaining('bytes 0-262143/1000000') });
+
+      // A server that ignores Range and never ends the body
+      let cancelled = false;
+      const endless = new ReadableStream({
+        pull: controller => controller.enqueue(new Uint8Array(1024 * 1024).fill(0x78)),
+        cancel: () => { cancelled = true; },
+      });
+      (server as any).networkPolicy.fetch = vi.fn().mockResolvedValueOnce(new Response(endless, { status: 200 }));
+      expect(await fetchLines({ startLine: 2 })).toMatchObject({ code: 'SCAN_LIMIT' });
+      expect(cancelled).toBe(true);
+    });
+
+    describe('fetch_grep', () => {
+      const lines = Array.from({ length: 140000 }, (_, i) => `line ${String(i + 1).padStart(6, '0')} ok`);
+      // Line 69906 starts one byte before the first 1MB range ends
+      lines[69905] = 'ERROR disk full';
+      lines[138999] = 'error: retrying';
+      const file = Buffer.from(lines.join('\n') + '\n');
+      const grep = async (args: any) => JSON.parse((await (server as any).handleFetchGrep({ url: 'https://example.com/app.log', ...args })).content[0].text);
+
+      it('should find matches across range boundaries with line numbers and context', async () => {
+        const fetch = serveRanges(file, 'text/plain');
+        (server as any).networkPolicy.fetch = fetch;
+
+        const result = await grep({ pattern: 'error', ignoreCase: true, contextLines: 1 });
+
+        expect(result).toMatchObject({ eof: true, nextStart: null, limitReached: null, totalBytes: file.length, validator: '"v1"', lineNumbers: 'file', matchCount: 2 });
+        expect(result.matches[0]).toEqual({
+          line: 69906, byteOffset: 1048575, column: 1, match: 'ERROR', text: 'ERROR disk full', before: ['line 069905 ok'], after: ['line 069907 ok'],
+        });
+        expect(result.matches[1]).toMatchObject({ line: 139000, text: 'error: retrying' });
+        expect(file.subarray(result.matches[1].byteOffset, result.matches[1].byteOffset + 5).toString()).toBe('error');
+        expect(fetch.mock.calls.slice(1).every(call => call[1].headers['If-Range'] === '"v1"')).toBe(true);
+      });
+
+      it('should stop at the match and byte limits and continue from nextStart', async () => {
+        (server as any).networkPolicy.fetch = serveRanges(file, 'text/plain');
+
+        const first = await grep({ pattern: 'error', ignoreCase: true, maxMatches: 1, contextLines: 0 });
+        expect(first).toMatchObject({ limitReached: 'maxMatches', eof: false, nextStart: 1048575 + 16, matchCount: 1 });
+
+        const rest = await grep({ pattern: 'error', ignoreCase: true, start: first.nextStart, validator: first.validator });
+        expect(rest).toMatchObject({ eof: true, lineNumbers: 'window', matches: [{ line: 139000 - 69906, text: 'error: retrying' }] });
+
+        const window = await grep({ pattern: 'ok$', start: 100, maxBytes: 40 });
+        // The window ends inside a line, which the next search starts with
+        expect(window).toMatchObject({ limitReached: 'maxBytes', nextStart: 135, matchCount: 3 });
+        expect(await (server as any).handleFetchGrep({ url: 'https://example.com/app.log', pattern: '(' }).catch((e: any) => e)).toMatchObject({ code: 'INVALID_PARAMS' });
+      });
+    });
+  });
+
+  describe('Remote File Info', () => {
+    const parse = (result: any) => JSON.parse(result.content[0].text);
+
+    it('should fall back to a one-byte range when HEAD is not allowed', async () => {
+      const fetch = vi.fn()
+        .mockResolvedValueOnce(new Response(null, { status: 405, statusText: 'Method Not Allowed' }))
+        .mockResolvedValueOnce(new Response('a', {
+          status: 206,
+          headers: { 'Content-Range': 'bytes 0-0/5242880', 'ETag': '"abc"', 'Content-Type': 'application/zip' },
+        }));
+      (server as any).networkPolicy.fetch = fetch;
+
+      const info = parse(await (server as any).handleFetchInfo({ url: 'https://example.com/a.zip' }));
+
+      expect(fetch.mock.calls.map(call => [call[1].method, call[1].headers.Range])).toEqual([['HEAD', undefined], ['GET', 'bytes=0-0']]);
+      expect(info).toMatchObject({ method: 'RANGE', size: 5242880, acceptRanges: 'bytes', etag: '"abc"', contentType: 'application/zip', validator: '"abc"' });
+    });
+
+    it('should send If-Range and fail clearly when the file changed or the range was ignored', async () => {
+      const fetch = vi.fn()
+        .mockResolvedValueOnce(new Response('abcd', { status: 206, headers: { 'Content-Range': 'bytes 4-7/*', 'ETag': '"v1"' } }))
+        .mockResolvedValueOnce(new Response('whole file', { status: 200, headers: { 'ETag': '"v2"' } }))
+        .mockResolvedValueOnce(new Response('whole file', { status: 200, headers: { 'Content-Length': '10' } }))
+        .mockResolvedValueOnce(new Response('whole file', { status: 200, headers: { 'Content-Length': '10', 'ETag': '"v1"' } }))
+        .mockResolvedValueOnce(new Response(null, { status: 416, headers: { 'Content-Range': 'bytes */8' } }));
+      (server as any).networkPolicy.fetch = fetch;
+      const fetchChunk = (args: any) => (server as any).handleFetchChunk({ url: 'https://example.com/a.bin', ...args }).catch((e: any) => e);
+
+      const chunk = parse(await fetchChunk({ start: 4, length: 4, validator: '"v1"' }));
+      expect(fetch.mock.calls[0][1].headers['If-Range']).toBe('"v1"');
+      expect(chunk).toMatchObject({ totalBytes: null, etag: '"v1"' });
+
+      expect(await fetchChunk({ start: 8, length: 4, validator: '"v1"' })).toMatchObject({ code: 'REMOTE_CHANGED', message: expect.stringContaining('now "v2"') });
+      expect(await fetchChunk({ start: 8, length: 4 })).toMatchObject({ code: 'RANGE_NOT_SUPPORTED' });
+      // Same ETag: the server ignored Range, the file did not change
+      expect(await fetchChunk({ start: 8, length: 4, validator: '"v1"' })).toMatchObject({ code: 'RANGE_NOT_SUPPORTED' });
+      expect(await fetchChunk({ start: 8, length: 4 })).toMatchObject({ code: 'RANGE_NOT_SATISFIABLE', message: expect.stringContaining('(8 bytes)') });
+      expect(await fetchChunk({ validator: 'W/"v1"' })).toMatchObject({ code: 'INVALID_PARAMS' });
+    });
+  });
 });
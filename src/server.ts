@@ -11,64 +11,160 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
   ListToolsRequestSchema,
   InitializeRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ServerNotification,
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { spawn, ChildProcess } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
 import { AmazonQSessionLogger } from './session-logger.js';
+import { ConfigurableTool, RetrySettings, ServerConfig, ToolSettings, TransportType, getToolSettings, loadConfig } from './config.js';
+import { HttpTransportHandle, startHttpTransport } from './http-transport.js';
+import { SessionResourceProvider } from './session-resources.js';
+import { PromptCatalog } from './prompt-templates.js';
+import { SessionStore, sanitizeSessionId } from './session-store.js';
+import { TranscriptEntry, appendTranscript, buildContextPreamble, queryTranscript, readTranscript } from './transcript.js';
+import { FileContext, FileRequest, buildFileContext, formatFileReport } from './file-context.js';
+import { OutputFormat, normalizeOutput, splitCodeBlocks } from './output-normalizer.js';
+import { TRANSLATION_OUTPUT_SCHEMA, TranslationResult, parseTranslation } from './translation.js';
+import {
+  ConfirmationTokens, findTranslation, getTranslationsFile, resolveShell, saveTranslation, TRANSLATION_MAX_AGE_MS, TRANSLATIONS_DIR
+} from './command-runner.js';
+import { ProcessScheduler, SchedulerError } from './scheduler.js';
+import { CACHE_DIR, CachedResponse, ResponseCache, cacheKey } from './response-cache.js';
+import { CircuitBreaker, OpenCircuit } from './circuit-breaker.js';
+import { MAX_RETRY_AFTER_MS, RetryAttempt, RetryDetails, RetryStopReason, computeBackoff, parseRetryAfter, resolveRetryPolicy } from './retry-policy.js';
+import { ErrorGuidance, ErrorType, MCPError, QProcessError, toErrorPayload } from './errors.js';
+import { ErrorClassifier } from './error-classifier.js';
+import { DownloadError, DownloadManager, filenameFromUrl, parseContentRange } from './downloads.js';
+import { NetworkPolicy, NetworkPolicyError } from './network-policy.js';
+import { RegexTimeoutError, RegexWorker } from './regex-worker.js';
+import { GrepScanner, LineCollector, charsetFromContentType, decodeText, detectCharset, isAsciiCompatible } from './chunk-text.js';
+import { WORKDIR_OWNERS_FILE, WorkingDirectoryOwners, getWorkdirStateDirectory, resolveWorkingDirectory } from './working-directory.js';
+
+interface RetryOptions {
+  retry?: RetrySettings;
+  // The caller's time budget for the whole call, on top of retry.deadlineMs
+  deadlineMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, maxRetries: number, error: MCPError) => void;
+}
 
-// Enhanced Error Classification System
-enum ErrorType {
-  NETWORK_ERROR = 'NETWORK_ERROR',
-  AUTHENTICATION_ERROR = 'AUTHENTICATION_ERROR',
-  SERVICE_CAPACITY_ERROR = 'SERVICE_CAPACITY_ERROR',
-  CONFIGURATION_ERROR = 'CONFIGURATION_ERROR',
-  VALIDATION_ERROR = 'VALIDATION_ERROR',
-  Q_CLI_NOT_FOUND = 'Q_CLI_NOT_FOUND',
-  UNKNOWN_ERROR = 'UNKNOWN_ERROR'
+interface AttemptContext {
+  attempt: number;
+  // Time left before the call's deadline, if it has one
+  remainingMs?: number;
 }
 
-interface ErrorGuidance {
-  message: string;
-  actions: string[];
-  retryable: boolean;
+// Receives partial q output while a tool call is still running
+interface ProgressReporter {
+  onOutput(chunk: string): void;
+  onRetry(attempt: number, maxRetries: number, error: MCPError): void;
 }
 
-class MCPError extends Error {
-  constructor(
-    public type: ErrorType,
-    public code: string,
-    message: string,
-    public retryable: boolean = false,
-    public guidance?: ErrorGuidance
-  ) {
-    super(message);
-    this.name = 'MCPError';
-  }
+interface ShellCommandResult {
+  exitCode: number | null;
+  signal: string | null;
+  stdout: string;
+  stderr: string;
+  outputTruncated: boolean;
+  timedOut: boolean;
+  durationMs: number;
+}
+
+interface QCommandOptions {
+  input?: string;
+  cwd?: string;
+  onOutput?: (chunk: string) => void;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  maxOutputBytes?: number;
 }
 
+// Time a cancelled process group gets to exit after SIGTERM before it is killed
+const PROCESS_KILL_GRACE_MS = 5000;
+
+// Upper bound on the earlier exchanges replayed into the first call of a forked conversation
+const FORK_CONTEXT_MAX_CHARS = 20000;
+
+// fetch_lines reads the file from the start in ranges of this size, up to the scan limit
+const FETCH_LINES_SCAN_BYTES = 256 * 1024; // 256KB
+const FETCH_LINES_SCAN_LIMIT = 64 * 1024 * 1024; // 64MB
+const FETCH_LINES_DEFAULT_COUNT = 100;
+const FETCH_LINES_MAX_LINES = 1000;
+const FETCH_LINES_MAX_BYTES = 1024 * 1024; // 1MB
+
+// fetch_grep reads its window in ranges of this size
+const FETCH_GREP_SCAN_BYTES = 1024 * 1024; // 1MB
+const FETCH_GREP_DEFAULT_MAX_BYTES = 64 * 1024 * 1024; // 64MB
+const FETCH_GREP_MAX_BYTES = 1024 * 1024 * 1024; // 1GB
+const FETCH_GREP_DEFAULT_MATCHES = 50;
+const FETCH_GREP_MAX_MATCHES = 500;
+const FETCH_GREP_MAX_CONTEXT = 10;
+// Time a search's pattern may spend matching before the search fails
+const FETCH_GREP_MATCH_BUDGET_MS = 10000; // 10 seconds
+// Longer lines are only searched up to this many bytes
+const FETCH_GREP_MAX_LINE_BYTES = 64 * 1024; // 64KB
+
 class AmazonQMCPServer {
   private server: Server;
   private startTime: Date;
+  private config: ServerConfig;
   private sessionLogger: AmazonQSessionLogger;
   private errorGuidanceMap!: Map<ErrorType, ErrorGuidance>;
   private activeProcesses: Set<ChildProcess> = new Set();
-
-  constructor() {
+  private httpTransport?: HttpTransportHandle;
+  private resourceProvider: SessionResourceProvider;
+  private promptCatalog: PromptCatalog;
+  private sessionStore: SessionStore;
+  private workdirOwners: WorkingDirectoryOwners;
+  private confirmationTokens = new ConfirmationTokens();
+  private scheduler: ProcessScheduler;
+  private responseCache: ResponseCache;
+  private circuitBreaker: CircuitBreaker;
+  private errorClassifier: ErrorClassifier;
+  private networkPolicy: NetworkPolicy;
+  private downloads: DownloadManager;
+
+  constructor(config?: ServerConfig) {
     this.startTime = new Date();
     
+    // Load configuration before anything touches the data directory
+    this.config = config ?? loadConfig();
+
     // Initialize session logger first
-    this.sessionLogger = new AmazonQSessionLogger(process.cwd());
-    this.sessionLogger.logActivity('SERVER_INIT', 'Initializing Amazon Q MCP Server');
+    this.sessionLogger = new AmazonQSessionLogger(process.cwd(), this.config.dataDir);
+    this.sessionLogger.logActivity('SERVER_INIT', 'Initializing Amazon Q MCP Server', {
+      configSources: this.config.sources
+    });
     
     // Initialize error handling system
     this.initializeErrorGuidance();
     
-    this.server = new Server(
+    this.resourceProvider = new SessionResourceProvider(this.config.dataDir);
+    this.sessionStore = new SessionStore(this.getSessionsRoot());
+    this.workdirOwners = new WorkingDirectoryOwners(path.join(this.config.dataDir, WORKDIR_OWNERS_FILE));
+    this.scheduler = new ProcessScheduler(this.config.concurrency);
+    this.responseCache = new ResponseCache(path.join(this.config.dataDir, CACHE_DIR), this.config.cache);
+    this.circuitBreaker = new CircuitBreaker(this.config.circuitBreaker);
+    this.errorClassifier = new ErrorClassifier(this.config.errorRules);
+    this.networkPolicy = new NetworkPolicy(this.config.network);
+    this.downloads = new DownloadManager(this.config.downloads, this.networkPolicy);
+    this.promptCatalog = new PromptCatalog(this.config.dataDir, (message, metadata) =>
+      this.sessionLogger.logActivity('PROMPT_TEMPLATE_WARNING', message, metadata)
+    );
+    this.server = this.createMcpServer();
+  }
+
+  private createMcpServer(): Server {
+    return new Server(
       {
         name: 'amazon-q-cli-mcp-server',
         version: '1.0.0',
@@ -76,29 +172,43 @@ class AmazonQMCPServer {
       {
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
       }
     );
   }
 
+  // Each HTTP client gets its own protocol Server backed by this instance's tools and state
+  private createSessionServer(): Server {
+    const server = this.createMcpServer();
+    this.registerHandlers(server);
+    this.attachServerErrorHandler(server);
+    return server;
+  }
+
   private async initialize(): Promise<void> {
     console.error('[Amazon Q MCP] init Amazon Q CLI MCP Server');
     
-    this.setupToolHandlers();
+    this.registerHandlers(this.server);
     this.setupErrorHandling();
     
     this.sessionLogger.logActivity('SERVER_READY', 'Amazon Q MCP Server initialized successfully');
     this.sessionLogger.updateStatus('ready');
   }
 
-  private setupErrorHandling(): void {
-    this.server.onerror = (error) => {
+  private attachServerErrorHandler(server: Server): void {
+    server.onerror = (error) => {
       this.sessionLogger.logActivity('MCP_ERROR', 'MCP server error occurred', {
         error: error instanceof Error ? error.message : String(error),
         stack: error instanceof Error ? error.stack : undefined
       });
       console.error('[MCP Error]', error);
     };
+  }
+
+  private setupErrorHandling(): void {
+    this.attachServerErrorHandler(this.server);
 
     const cleanupAndExit = async (signal: string) => {
       this.sessionLogger.logActivity('SHUTDOWN', `Received ${signal} signal`);
@@ -116,6 +226,7 @@ class AmazonQMCPServer {
       }
       this.activeProcesses.clear();
 
+      await this.httpTransport?.close();
       await this.server.close();
       process.exit(0);
     };
@@ -124,12 +235,20 @@ class AmazonQMCPServer {
     process.on('SIGTERM', () => cleanupAndExit('SIGTERM'));
   }
 
-  private setupToolHandlers(): void {
-    this.server.setRequestHandler(InitializeRequestSchema, async (request) => {
+  private registerHandlers(server: Server): void {
+    this.setupToolHandlers(server);
+    this.setupResourceHandlers(server);
+    this.setupPromptHandlers(server);
+  }
+
+  private setupToolHandlers(server: Server): void {
+    server.setRequestHandler(InitializeRequestSchema, async (request) => {
       return {
         protocolVersion: '2024-11-05',
         capabilities: {
           tools: {},
+          resources: {},
+          prompts: {},
         },
         serverInfo: {
           name: 'amazon-q-cli-mcp-server',
@@ -138,7 +257,7 @@ class AmazonQMCPServer {
       };
     });
 
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
         tools: [
           {
@@ -159,6 +278,49 @@ class AmazonQMCPServer {
                   type: 'string',
                   description: 'Agent/context profile to use (optional)',
                 },
+                conversationId: {
+                  type: 'string',
+                  description: 'Independent conversation thread within this session (optional, created on first use)',
+                },
+                workingDirectory: {
+                  type: 'string',
+                  description: 'Absolute path of a project directory under one of the configured allowedRoots to run Amazon Q in (optional)',
+                },
+                files: {
+                  type: 'array',
+                  description: 'Local files to include as context (optional). Paths or globs under the allowed roots; relative paths need workingDirectory',
+                  items: {
+                    anyOf: [
+                      { type: 'string' },
+                      {
+                        type: 'object',
+                        properties: {
+                          path: { type: 'string' },
+                          startLine: { type: 'number', description: 'First line to include (1-based)' },
+                          endLine: { type: 'number', description: 'Last line to include' },
+                        },
+                        required: ['path'],
+                      },
+                    ],
+                  },
+                },
+                outputFormat: {
+                  type: 'string',
+                  enum: ['clean', 'split', 'raw'],
+                  description: 'clean (default): answer without terminal codes and CLI chrome; split: prose and each code block as separate content items; raw: unmodified CLI output',
+                },
+                noCache: {
+                  type: 'boolean',
+                  description: 'Ask Amazon Q even if a cached answer exists (optional)',
+                },
+                cacheResumed: {
+                  type: 'boolean',
+                  description: 'Also use the cache when the call continues an existing conversation (optional, default false)',
+                },
+                deadlineMs: {
+                  type: 'number',
+                  description: 'Time budget in milliseconds for the whole call including retries (optional)',
+                },
               },
               required: ['prompt'],
             },
@@ -181,6 +343,49 @@ class AmazonQMCPServer {
                   type: 'string',
                   description: 'Agent/context profile to use (optional)',
                 },
+                conversationId: {
+                  type: 'string',
+                  description: 'Independent conversation thread within this session (optional, created on first use)',
+                },
+                workingDirectory: {
+                  type: 'string',
+                  description: 'Absolute path of a project directory under one of the configured allowedRoots to run Amazon Q in (optional)',
+                },
+                files: {
+                  type: 'array',
+                  description: 'Local files to include as context (optional). Paths or globs under the allowed roots; relative paths need workingDirectory',
+                  items: {
+                    anyOf: [
+                      { type: 'string' },
+                      {
+                        type: 'object',
+                        properties: {
+                          path: { type: 'string' },
+                          startLine: { type: 'number', description: 'First line to include (1-based)' },
+                          endLine: { type: 'number', description: 'Last line to include' },
+                        },
+                        required: ['path'],
+                      },
+                    ],
+                  },
+                },
+                outputFormat: {
+                  type: 'string',
+                  enum: ['clean', 'split', 'raw'],
+                  description: 'clean (default): answer without terminal codes and CLI chrome; split: prose and each code block as separate content items; raw: unmodified CLI output',
+                },
+                noCache: {
+                  type: 'boolean',
+                  description: 'Ask Amazon Q even if a cached answer exists (optional)',
+                },
+                cacheResumed: {
+                  type: 'boolean',
+                  description: 'Also use the cache when the call continues an existing conversation (optional, default false)',
+                },
+                deadlineMs: {
+                  type: 'number',
+                  description: 'Time budget in milliseconds for the whole call including retries (optional)',
+                },
               },
               required: ['prompt'],
             },
@@ -195,9 +400,58 @@ class AmazonQMCPServer {
                   type: 'string',
                   description: 'Natural language description of the task (e.g., "find all Python files")',
                 },
+                noCache: {
+                  type: 'boolean',
+                  description: 'Ask Amazon Q even if a cached answer exists (optional)',
+                },
+                deadlineMs: {
+                  type: 'number',
+                  description: 'Time budget in milliseconds for the whole call including retries (optional)',
+                },
               },
               required: ['task'],
             },
+            outputSchema: TRANSLATION_OUTPUT_SCHEMA,
+          },
+          {
+            name: 'q_run_command',
+            description: 'Run a command produced by q_translate in this session. Commands the risk check flags need a confirmation token returned by the first call',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                translationId: {
+                  type: 'string',
+                  description: 'translationId from a q_translate result in this session',
+                },
+                confirmationToken: {
+                  type: 'string',
+                  description: 'Token from a confirmation_required response, confirming a flagged command',
+                },
+                workingDirectory: {
+                  type: 'string',
+                  description: 'Absolute path under one of the configured allowedRoots to run in (default: the session directory)',
+                },
+              },
+              required: ['translationId'],
+            },
+          },
+          {
+            name: 'fetch_info',
+            description: 'Get the size, range support, ETag, Last-Modified and content type of a URL without downloading it',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                url: {
+                  type: 'string',
+                  description: 'HTTP/HTTPS URL to inspect',
+                },
+                headers: {
+                  type: 'object',
+                  description: 'Optional request headers',
+                },
+              },
+              required: ['url'],
+            },
           },
           {
             name: 'fetch_chunk',
@@ -221,10 +475,130 @@ class AmazonQMCPServer {
                   type: 'object',
                   description: 'Optional request headers',
                 },
+                validator: {
+                  type: 'string',
+                  description: 'ETag or Last-Modified value from fetch_info or an earlier chunk; the call fails with REMOTE_CHANGED if the file has changed since',
+                },
+                encoding: {
+                  type: 'string',
+                  enum: ['base64', 'text', 'auto'],
+                  description: 'base64 (default), text (decoded with the response charset, UTF-8 if none), or auto (text unless the data looks binary)',
+                },
+              },
+              required: ['url'],
+            },
+          },
+          {
+            name: 'fetch_lines',
+            description: 'Fetch lines N..M of a text file at a URL, found by scanning it in ranges from the start',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                url: {
+                  type: 'string',
+                  description: 'HTTP/HTTPS URL to fetch',
+                },
+                startLine: {
+                  type: 'number',
+                  description: 'First line to return (1-based)',
+                },
+                endLine: {
+                  type: 'number',
+                  description: `Last line to return, inclusive (default: ${FETCH_LINES_DEFAULT_COUNT} lines from startLine, at most ${FETCH_LINES_MAX_LINES})`,
+                },
+                headers: {
+                  type: 'object',
+                  description: 'Optional request headers',
+                },
+              },
+              required: ['url', 'startLine'],
+            },
+          },
+          {
+            name: 'fetch_grep',
+            description: 'Search a text file at a URL with a regular expression, streaming it in ranges, and return matching lines with byte offsets, line numbers and context',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                url: {
+                  type: 'string',
+                  description: 'HTTP/HTTPS URL to search',
+                },
+                pattern: {
+                  type: 'string',
+                  description: 'JavaScript regular expression, matched against each line',
+                },
+                ignoreCase: {
+                  type: 'boolean',
+                  description: 'Match case-insensitively (default false)',
+                },
+                start: {
+                  type: 'number',
+                  description: 'Byte offset to start searching at (default 0); pass nextStart from an earlier result to continue',
+                },
+                maxBytes: {
+                  type: 'number',
+                  description: `Bytes to scan from start (default ${FETCH_GREP_DEFAULT_MAX_BYTES}, at most ${FETCH_GREP_MAX_BYTES})`,
+                },
+                contextLines: {
+                  type: 'number',
+                  description: `Lines of context before and after each match (default 2, at most ${FETCH_GREP_MAX_CONTEXT})`,
+                },
+                maxMatches: {
+                  type: 'number',
+                  description: `Stop after this many matches (default ${FETCH_GREP_DEFAULT_MATCHES}, at most ${FETCH_GREP_MAX_MATCHES})`,
+                },
+                validator: {
+                  type: 'string',
+                  description: 'ETag or Last-Modified value from fetch_info or an earlier search; the call fails with REMOTE_CHANGED if the file has changed since',
+                },
+                headers: {
+                  type: 'object',
+                  description: 'Optional request headers',
+                },
+              },
+              required: ['url', 'pattern'],
+            },
+          },
+          {
+            name: 'fetch_download',
+            description: 'Download a URL into the session directory in ranged chunks, resuming a partial download, and return the local path, size and SHA-256',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                url: {
+                  type: 'string',
+                  description: 'HTTP/HTTPS URL to download',
+                },
+                filename: {
+                  type: 'string',
+                  description: 'File name in the session downloads directory (default: derived from the URL)',
+                },
+                sha256: {
+                  type: 'string',
+                  description: 'Expected SHA-256 (hex); the download fails and is discarded if it does not match',
+                },
+                headers: {
+                  type: 'object',
+                  description: 'Optional request headers',
+                },
               },
               required: ['url'],
             },
           },
+          {
+            name: 'fetch_download_status',
+            description: 'List downloads in progress and interrupted downloads that fetch_download can resume',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                filename: {
+                  type: 'string',
+                  description: 'Only report this download',
+                },
+              },
+            },
+          },
           {
             name: 'q_status',
             description: 'Check Amazon Q CLI installation and configuration status',
@@ -233,13 +607,134 @@ class AmazonQMCPServer {
               properties: {},
             },
           },
+          {
+            name: 'q_history',
+            description: 'Recall earlier Amazon Q exchanges (prompts and answers) recorded for this session',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                limit: {
+                  type: 'number',
+                  description: 'Number of most recent turns to return (default 10, max 100)',
+                },
+                query: {
+                  type: 'string',
+                  description: 'Only return turns whose prompt or response contains this text (case-insensitive)',
+                },
+                tool: {
+                  type: 'string',
+                  enum: ['ask_q', 'q_translate'],
+                  description: 'Only return turns from this tool',
+                },
+                maxResponseChars: {
+                  type: 'number',
+                  description: 'Truncate each returned response to this many characters (default 4000)',
+                },
+                sessionId: {
+                  type: 'string',
+                  description: 'Session to read (default: the current MCP session)',
+                },
+                conversationId: {
+                  type: 'string',
+                  description: 'Conversation thread to read (default: the main conversation of the session)',
+                },
+                workingDirectory: {
+                  type: 'string',
+                  description: 'Read the exchanges run in this project directory (default: those run in the session directory)',
+                },
+              },
+            },
+          },
+          {
+            name: 'q_session_list',
+            description: 'List Amazon Q conversation sessions with their size and last-used time',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          {
+            name: 'q_session_info',
+            description: 'Show details of one Amazon Q conversation session',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: {
+                  type: 'string',
+                  description: 'Session to inspect (default: the current MCP session)',
+                },
+              },
+            },
+          },
+          {
+            name: 'q_session_reset',
+            description: 'Start a fresh Amazon Q conversation on the next ask_q call instead of resuming the old one',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: {
+                  type: 'string',
+                  description: 'Session to reset (default: the current MCP session)',
+                },
+                conversationId: {
+                  type: 'string',
+                  description: 'Conversation thread to reset (default: the main conversation of the session)',
+                },
+                workingDirectory: {
+                  type: 'string',
+                  description: 'Reset the conversation run in this project directory (default: the one in the session directory)',
+                },
+              },
+            },
+          },
+          {
+            name: 'q_conversation_fork',
+            description: 'Branch a conversation into a new thread that starts with a copy of its history',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                conversationId: {
+                  type: 'string',
+                  description: 'ID of the new conversation thread',
+                },
+                fromConversationId: {
+                  type: 'string',
+                  description: 'Conversation to fork (default: the main conversation of the session)',
+                },
+              },
+              required: ['conversationId'],
+            },
+          },
+          {
+            name: 'q_session_delete',
+            description: 'Delete one Amazon Q conversation session, or prune sessions unused for a number of days',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: {
+                  type: 'string',
+                  description: 'Session to delete',
+                },
+                olderThanDays: {
+                  type: 'number',
+                  description: 'Instead of sessionId: delete every session not used for this many days',
+                },
+                dryRun: {
+                  type: 'boolean',
+                  description: 'With olderThanDays: only report what would be deleted',
+                },
+              },
+            },
+          },
         ],
       };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
-      const { sessionId, requestId } = extra || {};
+      const { sessionId, requestId, signal } = extra || {};
+      const requestKey = requestId !== undefined ? String(requestId) : undefined;
+      const progress = this.createProgressReporter(request.params._meta?.progressToken, extra?.sendNotification);
 
       console.error(`[${requestId || 'unknown'}] Tool: ${name}, Session: ${sessionId || 'none'}`);
 
@@ -250,22 +745,60 @@ class AmazonQMCPServer {
         requestId: requestId || 'unknown'
       });
 
+      // Keeps q_session_delete from removing the session while this call uses it
+      const releaseSession = this.sessionStore.markActive(this.resolveSessionDirectory(sessionId));
       try {
         let result;
         switch (name) {
           case 'ask_q':
           case 'take_q':
-            result = await this.handleAskQ(args, sessionId);
+            result = await this.handleAskQ(args, sessionId, progress, signal);
             break;
           case 'q_translate':
-            result = await this.handleQTranslate(args, sessionId);
+            result = await this.handleQTranslate(args, sessionId, progress, signal);
             break;
           case 'fetch_chunk':
-            result = await this.handleFetchChunk(args);
+            result = await this.handleFetchChunk(args, signal);
+            break;
+          case 'fetch_info':
+            result = await this.handleFetchInfo(args, signal);
+            break;
+          case 'fetch_lines':
+            result = await this.handleFetchLines(args, signal);
+            break;
+          case 'fetch_grep':
+            result = await this.handleFetchGrep(args, signal);
+            break;
+          case 'fetch_download':
+            result = await this.handleFetchDownload(args, sessionId, signal);
+            break;
+          case 'fetch_download_status':
+            result = await this.handleFetchDownloadStatus(args, sessionId);
+            break;
+          case 'q_run_command':
+            result = await this.handleRunCommand(args, sessionId, signal);
             break;
           case 'q_status':
             result = await this.handleQStatus(args);
             break;
+          case 'q_history':
+            result = await this.handleQHistory(args, sessionId);
+            break;
+          case 'q_session_list':
+            result = await this.handleSessionList(args);
+            break;
+          case 'q_session_info':
+            result = await this.handleSessionInfo(args, sessionId);
+            break;
+          case 'q_session_reset':
+            result = await this.handleSessionReset(args, sessionId);
+            break;
+          case 'q_session_delete':
+            result = await this.handleSessionDelete(args, sessionId);
+            break;
+          case 'q_conversation_fork':
+            result = await this.handleConversationFork(args, sessionId);
+            break;
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
@@ -273,6 +806,19 @@ class AmazonQMCPServer {
         this.sessionLogger.logActivity('TOOL_SUCCESS', `Tool '${name}' completed successfully`);
         return result;
       } catch (error) {
+        if (signal?.aborted || (error instanceof MCPError && error.type === ErrorType.CANCELLED)) {
+          console.error(`[${requestId || 'unknown'}] Cancelled ${name}`);
+
+          this.sessionLogger.logActivity('TOOL_CANCELLED', `Tool '${name}' cancelled by client`, {
+            toolName: name,
+            reason: signal?.reason instanceof Error ? signal.reason.message : String(signal?.reason ?? 'unknown'),
+            sessionId: sessionId || 'none',
+            requestId: requestId || 'unknown'
+          });
+
+          return this.formatErrorResponse(this.createCancellationError(name), requestKey);
+        }
+
         console.error(`[${requestId || 'unknown'}] Error in ${name}:`, error);
         
         this.sessionLogger.logActivity('TOOL_ERROR', `Tool '${name}' failed`, {
@@ -285,40 +831,229 @@ class AmazonQMCPServer {
         
         // If it's already a classified MCPError, format it properly
         if (error instanceof MCPError) {
-          return this.formatErrorResponse(error, String(requestId));
+          return this.formatErrorResponse(error, requestKey);
         }
         
         // Otherwise, classify and format the error
         const classifiedError = this.classifyError(error, name);
-        return this.formatErrorResponse(classifiedError, String(requestId));
+        return this.formatErrorResponse(classifiedError, requestKey);
+      } finally {
+        releaseSession();
       }
     });
   }
 
-  private getSessionDirectory(sessionId?: string): string {
-    const effectiveSessionId = sessionId || 'default';
-    
-    // Sanitize session ID to prevent path traversal
-    const sanitizedSessionId = this.sanitizeSessionId(effectiveSessionId);
-    
-    const sessionDir = path.join(os.homedir(), '.amazon-q-mcp', 'sessions', sanitizedSessionId);
-    
-    // Create directory if it doesn't exist
-    if (!fs.existsSync(sessionDir)) {
-      fs.mkdirSync(sessionDir, { recursive: true });
-      console.error(`[INFO] Created session directory: ${sessionDir}`);
-    }
-    
-    return sessionDir;
-  }
+  private setupResourceHandlers(server: Server): void {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return { resources: this.resourceProvider.listResources() };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: this.resourceProvider.listResourceTemplates() };
+    });
 
-  private sanitizeSessionId(sessionId: string): string {
-    // Remove any characters that could be used for path traversal
-    return sessionId.replace(/[^a-zA-Z0-9-_]/g, '').substring(0, 50);
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      this.sessionLogger.logActivity('RESOURCE_READ', `Resource '${uri}' requested`, { uri });
+      return { contents: [this.resourceProvider.readResource(uri)] };
+    });
   }
 
-  private validateCommandArgs(args: string[]): void {
-    if (args.length === 0) return;
+  private setupPromptHandlers(server: Server): void {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: this.promptCatalog.listPrompts().map(prompt => ({
+          name: prompt.name,
+          description: prompt.description,
+          arguments: prompt.arguments,
+        })),
+      };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: promptArgs } = request.params;
+      this.sessionLogger.logActivity('PROMPT_GET', `Prompt '${name}' requested`, {
+        promptName: name,
+        argsPreview: this.getArgsPreview(promptArgs)
+      });
+      return this.promptCatalog.getPrompt(name, promptArgs);
+    });
+  }
+
+  private createProgressReporter(
+    progressToken: string | number | undefined,
+    sendNotification?: (notification: ServerNotification) => Promise<void>
+  ): ProgressReporter | undefined {
+    if (progressToken === undefined || !sendNotification) {
+      return undefined;
+    }
+
+    // Progress is the number of output characters streamed so far, across all attempts,
+    // so it keeps increasing even when a retry restarts the stream
+    let progress = 0;
+    const send = (message: string) => {
+      sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, message },
+      }).catch((error) => {
+        this.sessionLogger.logActivity('PROGRESS_ERROR', 'Failed to send progress notification', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    };
+
+    return {
+      onOutput: (chunk: string) => {
+        progress += chunk.length;
+        send(chunk);
+      },
+      onRetry: (attempt: number, maxRetries: number, error: MCPError) => {
+        progress += 1;
+        send(`[retry ${attempt + 1}/${maxRetries}] ${error.type}: restarting output stream`);
+      },
+    };
+  }
+
+  private getToolSettings(tool: ConfigurableTool): ToolSettings {
+    return getToolSettings(this.config, tool);
+  }
+
+  // q_translate results that q_run_command may run; kept out of the directories q chat runs in
+  private getTranslationsFile(sessionDir: string): string {
+    return getTranslationsFile(path.join(this.config.dataDir, TRANSLATIONS_DIR), path.basename(sessionDir));
+  }
+
+  private getSessionsRoot(): string {
+    return path.join(this.config.dataDir, 'sessions');
+  }
+
+  // Sanitize session ID to prevent path traversal; does not create the directory
+  private resolveSessionDirectory(sessionId?: string): string {
+    return this.sessionStore.resolveDirectory(sanitizeSessionId(sessionId || '') || 'default');
+  }
+
+  private getSessionDirectory(sessionId?: string): string {
+    const sessionDir = this.resolveSessionDirectory(sessionId);
+    
+    // Create directory if it doesn't exist
+    if (this.sessionStore.ensureDirectory(sessionDir)) {
+      console.error(`[INFO] Created session directory: ${sessionDir}`);
+    }
+    
+    return sessionDir;
+  }
+
+  private parseArgs<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, args: any): T {
+    try {
+      return schema.parse(args ?? {});
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new MCPError(
+          ErrorType.VALIDATION_ERROR,
+          'INVALID_PARAMS',
+          `Invalid parameters: ${error.errors.map(e => e.path.length > 0 ? `${e.path.join('.')}: ${e.message}` : e.message).join(', ')}`,
+          false,
+          this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR)
+        );
+      }
+      throw error;
+    }
+  }
+
+  // Session IDs given as tool arguments must already be sanitized and must exist
+  private resolveSessionArg(requestedSessionId: string | undefined, currentSessionId?: string): string {
+    try {
+      if (requestedSessionId === undefined) {
+        return this.getSessionDirectory(currentSessionId);
+      }
+      return this.sessionStore.resolveExistingDirectory(requestedSessionId);
+    } catch (error) {
+      throw new MCPError(
+        ErrorType.VALIDATION_ERROR,
+        'INVALID_SESSION',
+        error instanceof Error ? error.message : String(error),
+        false,
+        this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR)
+      );
+    }
+  }
+
+  // Conversation threads live in subdirectories of the session directory
+  private resolveConversationArg(sessionDir: string, conversationId: string | undefined, create: boolean = false): string {
+    if (conversationId === undefined) {
+      return sessionDir;
+    }
+
+    try {
+      const conversationDir = this.sessionStore.resolveConversationDirectory(sessionDir, conversationId);
+      if (create) {
+        this.sessionStore.ensureDirectory(conversationDir);
+      } else if (!fs.existsSync(conversationDir)) {
+        throw new Error(`Conversation not found: ${conversationId}`);
+      }
+      return conversationDir;
+    } catch (error) {
+      throw new MCPError(
+        ErrorType.VALIDATION_ERROR,
+        'INVALID_CONVERSATION',
+        error instanceof Error ? error.message : String(error),
+        false,
+        this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR)
+      );
+    }
+  }
+
+  /**
+   * Where Q runs (cwd) and where our state for it lives (stateDir). Without a
+   * workingDirectory both are the session or conversation directory itself.
+   * The state directory is only created with `create`; lookups leave the disk alone.
+   */
+  private resolveWorkingDirectoryArg(scopeDir: string, workingDirectory: string | undefined, create: boolean = false): { cwd: string; stateDir: string } {
+    if (workingDirectory === undefined) {
+      return { cwd: scopeDir, stateDir: scopeDir };
+    }
+
+    let cwd: string;
+    try {
+      cwd = resolveWorkingDirectory(workingDirectory, this.config.allowedRoots);
+    } catch (error) {
+      throw new MCPError(
+        ErrorType.VALIDATION_ERROR,
+        'DIRECTORY_NOT_ALLOWED',
+        error instanceof Error ? error.message : String(error),
+        false,
+        this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR)
+      );
+    }
+
+    const stateDir = getWorkdirStateDirectory(scopeDir, cwd);
+    if (create && this.sessionStore.ensureDirectory(stateDir)) {
+      this.sessionStore.writeMetadata(stateDir, { ...this.sessionStore.readMetadata(stateDir), workingDirectory: cwd });
+    }
+    return { cwd, stateDir };
+  }
+
+  // Relative paths and globs in `files` are only allowed together with a workingDirectory
+  private attachFiles(files: FileRequest[], baseDir: string | undefined): FileContext {
+    try {
+      return buildFileContext(files, {
+        allowedRoots: this.config.allowedRoots,
+        baseDir,
+        limits: this.config.fileContext,
+      });
+    } catch (error) {
+      throw new MCPError(
+        ErrorType.VALIDATION_ERROR,
+        'INVALID_FILE',
+        error instanceof Error ? error.message : String(error),
+        false,
+        this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR)
+      );
+    }
+  }
+
+  private validateCommandArgs(args: string[]): void {
+    if (args.length === 0) return;
     
     // Validate against allowed commands
     const allowedCommands = ['chat', 'translate', 'status', 'doctor', '--version'];
@@ -411,90 +1146,42 @@ class AmazonQMCPServer {
           "Ensure required parameters are provided"
         ],
         retryable: false
-      }]
-    ]);
-  }
-
-  private classifyError(error: any, context: string): MCPError {
-    const errorMessage = error?.message || String(error);
-    const stderr = error?.stderr || '';
-    
-    // Authentication errors
-    if (errorMessage.includes('AccessDeniedException') || 
-        errorMessage.includes('UnauthorizedOperation') ||
-        errorMessage.includes('authentication') ||
-        stderr.includes('login required')) {
-      return new MCPError(
-        ErrorType.AUTHENTICATION_ERROR,
-        'AUTH_FAILED',
-        errorMessage,
-        false,
-        this.errorGuidanceMap.get(ErrorType.AUTHENTICATION_ERROR)
-      );
-    }
-    
-    // Service capacity errors
-    if (errorMessage.includes('trouble responding right now') ||
-        errorMessage.includes('capacity') ||
-        errorMessage.includes('rate limit') ||
-        errorMessage.includes('throttle')) {
-      return new MCPError(
-        ErrorType.SERVICE_CAPACITY_ERROR,
-        'SERVICE_OVERLOAD',
-        errorMessage,
-        true,
-        this.errorGuidanceMap.get(ErrorType.SERVICE_CAPACITY_ERROR)
-      );
-    }
-    
-    // Network errors
-    if (errorMessage.includes('ECONNREFUSED') ||
-        errorMessage.includes('ETIMEDOUT') ||
-        errorMessage.includes('ENOTFOUND') ||
-        errorMessage.includes('SSL') ||
-        errorMessage.includes('certificate')) {
-      return new MCPError(
-        ErrorType.NETWORK_ERROR,
-        'NETWORK_FAILED',
-        errorMessage,
-        true,
-        this.errorGuidanceMap.get(ErrorType.NETWORK_ERROR)
-      );
-    }
-    
-    // Q CLI not found
-    if (errorMessage.includes('Failed to execute Q CLI') ||
-        errorMessage.includes('ENOENT') ||
-        errorMessage.includes('command not found')) {
-      return new MCPError(
-        ErrorType.Q_CLI_NOT_FOUND,
-        'Q_CLI_MISSING',
-        errorMessage,
-        false,
-        this.errorGuidanceMap.get(ErrorType.Q_CLI_NOT_FOUND)
-      );
-    }
-    
-    // Configuration errors
-    if (errorMessage.includes('configuration') ||
-        errorMessage.includes('config') ||
-        stderr.includes('doctor')) {
-      return new MCPError(
-        ErrorType.CONFIGURATION_ERROR,
-        'CONFIG_ERROR',
-        errorMessage,
-        false,
-        this.errorGuidanceMap.get(ErrorType.CONFIGURATION_ERROR)
-      );
-    }
-    
-    // Default to unknown error
-    return new MCPError(
-      ErrorType.UNKNOWN_ERROR,
-      'UNKNOWN',
-      errorMessage,
-      false,
-      {
+      }],
+      [ErrorType.CANCELLED, {
+        message: "Request was cancelled",
+        actions: [
+          "The Amazon Q CLI process was terminated at the client's request",
+          "Send the request again if you still need the result"
+        ],
+        retryable: false
+      }],
+      [ErrorType.QUOTA_EXCEEDED, {
+        message: "Amazon Q usage quota is exhausted",
+        actions: [
+          "Wait for the quota period to reset; retrying now will not help",
+          "Check your Amazon Q subscription tier and usage limits",
+          "Ask an administrator to raise the limit if this happens regularly"
+        ],
+        retryable: false
+      }],
+      [ErrorType.TIMEOUT, {
+        message: "Amazon Q CLI did not finish in time",
+        actions: [
+          "Try a shorter or more specific prompt",
+          "Raise timeoutMs for this tool in the server configuration",
+          "Pass a larger deadlineMs if the call has one"
+        ],
+        retryable: false
+      }],
+      [ErrorType.OUTPUT_LIMIT_EXCEEDED, {
+        message: "Amazon Q CLI produced more output than allowed",
+        actions: [
+          "Ask for a shorter answer or a narrower task",
+          "Raise maxOutputBytes for this tool in the server configuration"
+        ],
+        retryable: false
+      }],
+      [ErrorType.UNKNOWN_ERROR, {
         message: "An unexpected error occurred",
         actions: [
           "Check the error details for more information",
@@ -502,65 +1189,222 @@ class AmazonQMCPServer {
           "Contact support if the issue persists"
         ],
         retryable: false
+      }],
+      [ErrorType.CIRCUIT_OPEN, {
+        message: "Amazon Q is failing repeatedly; calls are paused",
+        actions: [
+          "Wait until the circuit half-opens, then try again",
+          "Check q_status for the circuit state and recent failures",
+          "Avoid retrying in a loop while the circuit is open"
+        ],
+        retryable: false
+      }],
+      [ErrorType.NETWORK_POLICY_DENIED, {
+        message: "The server's network policy does not allow this request",
+        actions: [
+          "Use a public http(s) URL; internal, loopback and cloud metadata addresses are blocked",
+          "Ask the server operator to add the host to network.allowHosts if it should be reachable",
+          "Retrying the same URL will fail the same way"
+        ],
+        retryable: false
+      }],
+      [ErrorType.RESOURCE_BUSY, {
+        message: "Another tool call is using this resource",
+        actions: [
+          "Wait for the other call to finish, then try again"
+        ],
+        retryable: true
+      }]
+    ]);
+  }
+
+  private createCircuitOpenError(context: string, circuit: OpenCircuit): MCPError {
+    const waitSeconds = Math.max(0, Math.ceil((circuit.halfOpensAt.getTime() - Date.now()) / 1000));
+    const when = circuit.state === 'open'
+      ? `half-opens at ${circuit.halfOpensAt.toISOString()} (in ${waitSeconds}s)`
+      : 'is half-open and a trial call is already running';
+    const guidance = this.errorGuidanceMap.get(ErrorType.CIRCUIT_OPEN)!;
+    return new MCPError(
+      ErrorType.CIRCUIT_OPEN,
+      'CIRCUIT_OPEN',
+      `${context} not attempted: the ${circuit.errorType} circuit ${when} after ${circuit.recentFailures} recent failures`,
+      false,
+      {
+        ...guidance,
+        actions: [`The next trial call is allowed ${circuit.state === 'open' ? `at ${circuit.halfOpensAt.toISOString()}` : 'once the running trial finishes'}`, ...guidance.actions]
       }
     );
   }
 
+  private createCancellationError(context: string): MCPError {
+    return new MCPError(
+      ErrorType.CANCELLED,
+      'REQUEST_CANCELLED',
+      `${context} was cancelled`,
+      false,
+      this.errorGuidanceMap.get(ErrorType.CANCELLED)
+    );
+  }
+
+  private classifyError(error: any, context: string): MCPError {
+    const classification = this.errorClassifier.classify(error, context);
+    const classified = new MCPError(
+      classification.type,
+      classification.code,
+      error?.message || String(error),
+      classification.retryable,
+      this.errorGuidanceMap.get(classification.type)
+    );
+    classified.rule = classification.rule;
+    return classified;
+  }
+
   private async executeWithRetry<T>(
-    operation: () => Promise<T>,
+    operation: (attempt: AttemptContext) => Promise<T>,
     context: string,
-    maxRetries: number = 3
+    options: RetryOptions = {}
   ): Promise<T> {
-    let lastError: any;
-    
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    const retry = options.retry ?? this.config.defaults.retry;
+    // The tighter of the configured and the caller's deadline; 0 means none
+    const deadlineMs = [retry.deadlineMs, options.deadlineMs ?? 0].filter(ms => ms > 0).reduce((a, b) => Math.min(a, b), Infinity);
+    const startedAt = Date.now();
+    const deadlineAt = startedAt + deadlineMs;
+    const attempts: RetryAttempt[] = [];
+    let lastError: MCPError | undefined;
+
+    const giveUp = (error: MCPError, stoppedBy: RetryStopReason): MCPError => {
+      error.retryDetails = {
+        attempts,
+        stoppedBy,
+        ...(deadlineMs !== Infinity ? { deadlineMs } : {}),
+        elapsedMs: Date.now() - startedAt,
+      };
+      return error;
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      if (options.signal?.aborted) {
+        throw this.createCancellationError(context);
+      }
+
+      const openCircuit = this.circuitBreaker.acquire();
+      if (openCircuit) {
+        // The circuit opened during this call's own retries: report the failure that tripped it
+        if (lastError) {
+          throw giveUp(lastError, 'circuit_open');
+        }
+        this.sessionLogger.logActivity('CIRCUIT_REJECTED', `${context} rejected by the ${openCircuit.errorType} circuit`, {
+          state: openCircuit.state,
+          halfOpensAt: openCircuit.halfOpensAt.toISOString()
+        });
+        throw this.createCircuitOpenError(context, openCircuit);
+      }
+
+      const attemptStartedAt = Date.now();
+      const record: RetryAttempt = { attempt, startedAt: new Date(attemptStartedAt).toISOString(), durationMs: 0 };
+      attempts.push(record);
+
       try {
-        return await operation();
+        const result = await operation({
+          attempt,
+          remainingMs: deadlineMs === Infinity ? undefined : Math.max(1, deadlineAt - attemptStartedAt),
+        });
+        this.circuitBreaker.recordSuccess();
+        return result;
       } catch (error) {
-        lastError = error;
-        const classifiedError = this.classifyError(error, context);
-        
+        record.durationMs = Date.now() - attemptStartedAt;
+        if (error instanceof MCPError && error.type === ErrorType.CANCELLED) {
+          this.circuitBreaker.release();
+          throw error;
+        }
+        if (options.signal?.aborted) {
+          this.circuitBreaker.release();
+          throw this.createCancellationError(context);
+        }
+        const classifiedError = error instanceof MCPError ? error : this.classifyError(error, context);
+        lastError = classifiedError;
+        record.errorType = classifiedError.type;
+        record.errorCode = classifiedError.code;
+        if (classifiedError.code === 'QUEUE_TIMEOUT') {
+          // Waiting for a local process slot says nothing about the Q service
+          this.circuitBreaker.release();
+        } else {
+          this.recordCircuitFailure(context, classifiedError);
+        }
+
+        const policy = resolveRetryPolicy(retry, classifiedError.type);
         console.error(`[${context}] Attempt ${attempt} failed:`, classifiedError.type, classifiedError.message);
         
         // Log the retry attempt
-        this.sessionLogger.logActivity('RETRY_ATTEMPT', `${context} retry attempt ${attempt}/${maxRetries}`, {
+        this.sessionLogger.logActivity('RETRY_ATTEMPT', `${context} retry attempt ${attempt}/${policy.maxAttempts}`, {
           errorType: classifiedError.type,
           errorMessage: classifiedError.message,
           retryable: classifiedError.retryable
         });
         
         // Don't retry if error is not retryable or we've reached max attempts
-        if (!classifiedError.retryable || attempt === maxRetries) {
-          throw classifiedError;
+        if (!classifiedError.retryable) {
+          throw giveUp(classifiedError, 'not_retryable');
         }
+        if (attempt >= policy.maxAttempts) {
+          throw giveUp(classifiedError, 'max_attempts');
+        }
+
+        // Wait at least as long as Amazon Q asked for
+        const retryAfterMs = parseRetryAfter(`${(error as any)?.message ?? ''}\n${(error as any)?.stderr ?? ''}`);
+        if (retryAfterMs !== undefined) {
+          record.retryAfterMs = retryAfterMs;
+          if (retryAfterMs > MAX_RETRY_AFTER_MS) {
+            throw giveUp(classifiedError, 'retry_after_too_long');
+          }
+        }
+        const finalDelay = Math.max(computeBackoff(policy, attempt), retryAfterMs ?? 0);
+        if (Date.now() + finalDelay >= deadlineAt) {
+          throw giveUp(classifiedError, 'deadline');
+        }
+        record.delayMs = Math.round(finalDelay);
         
-        // Calculate delay with exponential backoff
-        const baseDelay = 500; // 500ms
-        const maxDelay = 10000; // 10 seconds
-        const delay = Math.min(baseDelay * Math.pow(2, attempt - 1), maxDelay);
-        const jitter = Math.random() * 0.25 * delay; // 25% jitter
-        const finalDelay = delay + jitter;
-        
-        console.error(`[${context}] Retrying in ${Math.round(finalDelay)}ms... (attempt ${attempt + 1}/${maxRetries})`);
-        await new Promise(resolve => setTimeout(resolve, finalDelay));
+        console.error(`[${context}] Retrying in ${Math.round(finalDelay)}ms... (attempt ${attempt + 1}/${policy.maxAttempts})`);
+        options.onRetry?.(attempt, policy.maxAttempts, classifiedError);
+        await this.sleep(finalDelay, options.signal);
       }
     }
-    
-    throw lastError;
   }
 
-  private formatErrorResponse(error: MCPError, requestId?: string): any {
-    const errorInfo = {
-      type: error.type,
-      code: error.code,
-      message: error.message,
-      retryable: error.retryable,
-      guidance: error.guidance,
-      timestamp: new Date().toISOString(),
-      requestId: requestId || 'unknown'
-    };
+  private recordCircuitFailure(context: string, error: MCPError): void {
+    const before = this.circuitBreaker.stats().circuits.find(circuit => circuit.errorType === error.type);
+    this.circuitBreaker.recordFailure(error.type);
+    const after = this.circuitBreaker.stats().circuits.find(circuit => circuit.errorType === error.type);
+    if (after && before && after.trips > before.trips) {
+      this.sessionLogger.logActivity('CIRCUIT_OPENED', `${error.type} circuit opened by ${context}`, {
+        recentFailures: after.recentFailures,
+        halfOpensAt: after.halfOpensAt,
+        errorMessage: error.message
+      });
+    }
+  }
+
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      if (signal?.aborted) {
+        resolve();
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
 
+  private formatErrorResponse(error: MCPError, requestId?: string): any {
     return {
+      isError: true,
       content: [
         {
           type: 'text',
@@ -570,23 +1414,84 @@ class AmazonQMCPServer {
                 `**Retryable:** ${error.retryable ? 'Yes' : 'No'}\n\n` +
                 `**Recommended Actions:**\n` +
                 (error.guidance?.actions.map(action => `• ${action}`).join('\n') || '• Contact support') +
-                `\n\n**Technical Details:**\n\`\`\`\n${error.message}\n\`\`\``,
+                `\n\n**Technical Details:**\n\`\`\`\n${error.message}\n\`\`\`` +
+                (error.rule ? `\n\n**Matched Rule:** ${error.rule}` : '') +
+                (error.retryDetails ? this.formatRetryDetails(error.retryDetails) : ''),
         },
       ],
+      structuredContent: toErrorPayload(error, requestId),
+    };
+  }
+
+  private formatRetryDetails(details: RetryDetails): string {
+    const stopped: Record<RetryStopReason, string> = {
+      not_retryable: 'the error is not retryable',
+      max_attempts: 'no attempts left',
+      deadline: `the next retry would pass the ${details.deadlineMs}ms deadline`,
+      retry_after_too_long: 'Amazon Q asked to wait longer than the server will',
+      circuit_open: 'the circuit breaker opened',
     };
+    return `\n\n**Attempts:** ${details.attempts.length} in ${details.elapsedMs}ms, stopped because ${stopped[details.stoppedBy]}\n` +
+      details.attempts.map(attempt =>
+        `- #${attempt.attempt} at ${attempt.startedAt}: ${attempt.errorType ?? 'unknown'} after ${attempt.durationMs}ms` +
+        (attempt.retryAfterMs !== undefined ? `, retry-after ${attempt.retryAfterMs}ms` : '') +
+        (attempt.delayMs !== undefined ? `, waited ${attempt.delayMs}ms` : '')
+      ).join('\n');
   }
 
-  private async handleAskQ(args: any, sessionId?: string) {
+  private async handleAskQ(args: any, sessionId?: string, progress?: ProgressReporter, signal?: AbortSignal) {
     try {
+      const settings = this.getToolSettings('ask_q');
       const schema = z.object({
-        prompt: z.string().min(1).max(10000), // Add length limits
+        prompt: z.string().min(1).max(settings.maxPromptLength), // Add length limits
         model: z.string().optional(),
         agent: z.string().optional(),
+        conversationId: z.string().optional(),
+        workingDirectory: z.string().min(1).optional(),
+        files: z.array(z.union([
+          z.string().min(1),
+          z.object({
+            path: z.string().min(1),
+            startLine: z.number().int().min(1).optional(),
+            endLine: z.number().int().min(1).optional(),
+          }).strict(),
+        ])).max(100).optional(),
+        outputFormat: z.enum(['clean', 'split', 'raw']).optional().default('clean'),
+        noCache: z.boolean().optional().default(false),
+        cacheResumed: z.boolean().optional().default(false),
+        deadlineMs: z.number().int().min(1000).max(60 * 60 * 1000).optional(),
       });
 
-      const { prompt, model, agent } = schema.parse(args);
+      const { prompt, model, agent, conversationId, workingDirectory, files, outputFormat, noCache, cacheResumed, deadlineMs } = schema.parse(args);
+
+      // Get session directory for this session, or the conversation thread inside it
+      const rootDir = this.getSessionDirectory(sessionId);
+      const scopeDir = this.resolveConversationArg(rootDir, conversationId, true);
+      const { cwd, stateDir: sessionDir } = this.resolveWorkingDirectoryArg(scopeDir, workingDirectory, true);
+      const fileContext = files ? this.attachFiles(files, workingDirectory ? cwd : undefined) : undefined;
+
+      // Q keeps one saved conversation per project directory; if another session ran
+      // there since our last call, resuming would continue that session's conversation
+      const resumeLost = cwd !== sessionDir && this.workdirOwners.ownerOf(cwd) !== sessionDir;
+
+      // After q_session_reset the next call starts a new conversation instead of resuming
+      const resetPending = this.sessionStore.isResetPending(sessionDir);
+      const startFresh = resetPending || resumeLost;
 
-      const qArgs = ['chat', '--resume', '--no-interactive'];
+      // A fresh fork, or a project conversation taken over by another session, carries
+      // its history only in our transcript, so replay it into the new Q conversation
+      const replayHistory = this.sessionStore.isSeedPending(sessionDir) || (resumeLost && !resetPending);
+      const input = (replayHistory ? buildContextPreamble(readTranscript(sessionDir), FORK_CONTEXT_MAX_CHARS) : '') +
+        (fileContext?.text ?? '') +
+        prompt;
+
+      // A resumed call's answer depends on the conversation so far, so it is only cached on request
+      const key = this.useCache(noCache || (!startFresh && !cacheResumed))
+        ? cacheKey({ tool: 'ask_q', prompt: input, model, agent, workingDirectory: workingDirectory ? cwd : undefined })
+        : undefined;
+      const cached = key ? this.readCachedResponse(key) : undefined;
+
+      const qArgs = startFresh ? ['chat', '--no-interactive'] : ['chat', '--resume', '--no-interactive'];
       
       if (model) {
         qArgs.push('--model', model);
@@ -596,22 +1501,44 @@ class AmazonQMCPServer {
         qArgs.push('--agent', agent);
       }
 
-      // Get session directory for this session
-      const sessionDir = this.getSessionDirectory(sessionId);
-
       // Execute with retry and error recovery
-      const result = await this.executeWithRetry(
-        () => this.executeQCommandWithInputInDirectory(qArgs, prompt, sessionDir),
-        'ask_q'
+      const attachedFiles = fileContext?.items.filter(item => item.status !== 'skipped').map(item => item.path);
+      const result = await this.recordExchange(sessionDir, { tool: 'ask_q', prompt, model, agent, files: attachedFiles, cached: cached ? true : undefined }, async () =>
+        cached ? { stdout: cached.stdout, stderr: '' } : this.executeWithRetry(
+          ({ remainingMs }) => this.executeQCommandWithInputInDirectory(qArgs, input, cwd, {
+            onOutput: progress?.onOutput,
+            signal,
+            timeoutMs: Math.min(settings.timeoutMs, remainingMs ?? Infinity),
+            maxOutputBytes: settings.maxOutputBytes,
+          }),
+          'ask_q',
+          { retry: settings.retry, deadlineMs, onRetry: progress?.onRetry, signal }
+        )
       );
 
+      if (key && !cached) {
+        this.writeCachedResponse(key, 'ask_q', result.stdout);
+      }
+      // Only a call that completed leaves our conversation as the one Q saved for the directory
+      if (cwd !== sessionDir && !cached) {
+        this.workdirOwners.claim(cwd, sessionDir);
+      }
+      // Q did not run for a cached answer, so a pending reset still applies to the next call
+      if (startFresh && !cached) {
+        this.sessionStore.clearReset(sessionDir);
+      }
+      this.sessionStore.markUsed(sessionDir);
+      if (rootDir !== sessionDir) {
+        // Session pruning looks at the session's own last-used time
+        this.sessionStore.markUsed(rootDir);
+      }
+
       return {
         content: [
-          {
-            type: 'text',
-            text: result.stdout,
-          },
+          ...this.formatAnswer(result.stdout, outputFormat),
+          ...(fileContext ? [{ type: 'text', text: formatFileReport(fileContext.items) }] : []),
         ],
+        ...(cached ? { _meta: { cached: true, cachedAt: cached.createdAt } } : {}),
       };
     } catch (error) {
       // Handle validation errors
@@ -635,30 +1562,60 @@ class AmazonQMCPServer {
     }
   }
 
-  private async handleQTranslate(args: any, sessionId?: string) {
+  private async handleQTranslate(args: any, sessionId?: string, progress?: ProgressReporter, signal?: AbortSignal) {
     try {
+      const settings = this.getToolSettings('q_translate');
       const schema = z.object({
-        task: z.string(),
+        task: z.string().max(settings.maxPromptLength),
+        noCache: z.boolean().optional().default(false),
+        deadlineMs: z.number().int().min(1000).max(60 * 60 * 1000).optional(),
       });
 
-      const { task } = schema.parse(args);
+      const { task, noCache, deadlineMs } = schema.parse(args);
 
       // Get session directory for consistent context
       const sessionDir = this.getSessionDirectory(sessionId);
+      const key = this.useCache(noCache) ? cacheKey({ tool: 'q_translate', prompt: task }) : undefined;
+      const cached = key ? this.readCachedResponse(key) : undefined;
       
       // Execute with retry and error recovery
-      const result = await this.executeWithRetry(
-        () => this.executeQCommandWithInputInDirectory(['translate'], task, sessionDir),
-        'q_translate'
+      const result = await this.recordExchange(sessionDir, { tool: 'q_translate', prompt: task, cached: cached ? true : undefined }, async () =>
+        cached ? { stdout: cached.stdout, stderr: '' } : this.executeWithRetry(
+          ({ remainingMs }) => this.executeQCommandWithInputInDirectory(['translate'], task, sessionDir, {
+            onOutput: progress?.onOutput,
+            signal,
+            timeoutMs: Math.min(settings.timeoutMs, remainingMs ?? Infinity),
+            maxOutputBytes: settings.maxOutputBytes,
+          }),
+          'q_translate',
+          { retry: settings.retry, deadlineMs, onRetry: progress?.onRetry, signal }
+        )
       );
+      if (key && !cached) {
+        this.writeCachedResponse(key, 'q_translate', result.stdout);
+      }
+      this.sessionStore.markUsed(sessionDir);
+
+      const output = normalizeOutput(result.stdout);
+      const parsed = parseTranslation(output);
+      const { id: translationId } = saveTranslation(this.getTranslationsFile(sessionDir), {
+        task,
+        command: parsed.command,
+        shell: parsed.shell,
+        risk: parsed.risk,
+      });
+      const translation = { translationId, ...parsed };
 
       return {
         content: [
           {
             type: 'text',
-            text: `\`\`\`bash\n${result.stdout.trim()}\n\`\`\``,
+            text: `\`\`\`bash\n${translation.command || output}\n\`\`\``,
           },
+          ...(translation.risk.level !== 'none' ? [{ type: 'text', text: this.formatRiskWarning(translation) }] : []),
         ],
+        structuredContent: translation,
+        ...(cached ? { _meta: { cached: true, cachedAt: cached.createdAt } } : {}),
       };
     } catch (error) {
       // Handle validation errors
@@ -682,28 +1639,472 @@ class AmazonQMCPServer {
     }
   }
 
-  private async handleQStatus(args: any) {
-    try {
-      const uptime = Date.now() - this.startTime.getTime();
-      const uptimeSeconds = Math.floor(uptime / 1000);
-      const uptimeMinutes = Math.floor(uptimeSeconds / 60);
-      const uptimeHours = Math.floor(uptimeMinutes / 60);
-
-      const formatUptime = () => {
-        if (uptimeHours > 0) {
-          return `${uptimeHours}h ${uptimeMinutes % 60}m ${uptimeSeconds % 60}s`;
-        } else if (uptimeMinutes > 0) {
-          return `${uptimeMinutes}m ${uptimeSeconds % 60}s`;
-        } else {
-          return `${uptimeSeconds}s`;
-        }
-      };
+  private async handleRunCommand(args: any, sessionId?: string, signal?: AbortSignal) {
+    const settings = this.getToolSettings('q_run_command');
+    const schema = z.object({
+      translationId: z.string().min(1),
+      confirmationToken: z.string().min(1).optional(),
+      workingDirectory: z.string().min(1).optional(),
+    });
+    const { translationId, confirmationToken, workingDirectory } = this.parseArgs(schema, args);
+    const sessionDir = this.getSessionDirectory(sessionId);
+
+    const rejectRun = (code: string, message: string) => new MCPError(
+      ErrorType.VALIDATION_ERROR,
+      code,
+      message,
+      false,
+      this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR)
+    );
+
+    const translation = findTranslation(this.getTranslationsFile(sessionDir), translationId);
+    if (!translation) {
+      throw rejectRun('UNKNOWN_TRANSLATION', `No q_translate result '${translationId}' in this session`);
+    }
+    if (Date.now() - Date.parse(translation.createdAt) > TRANSLATION_MAX_AGE_MS) {
+      throw rejectRun('TRANSLATION_EXPIRED', `Translation '${translationId}' is older than ${TRANSLATION_MAX_AGE_MS / 60000} minutes; run q_translate again`);
+    }
+    if (!translation.command.trim()) {
+      throw rejectRun('UNKNOWN_TRANSLATION', `Translation '${translationId}' did not produce a command`);
+    }
+
+    let shell: string;
+    try {
+      shell = resolveShell(translation.shell);
+    } catch (error) {
+      throw rejectRun('UNSUPPORTED_SHELL', error instanceof Error ? error.message : String(error));
+    }
+    const cwd = workingDirectory === undefined ? sessionDir : this.resolveWorkingDirectoryArg(sessionDir, workingDirectory).cwd;
+
+    if (translation.risk.level !== 'none') {
+      if (confirmationToken === undefined) {
+        const grant = this.confirmationTokens.issue(sessionDir, translationId);
+        this.sessionLogger.logActivity('COMMAND_CONFIRMATION_REQUIRED', `Confirmation required for translation ${translationId}`, {
+          command: translation.command,
+          riskLevel: translation.risk.level
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                status: 'confirmation_required',
+                translationId,
+                command: translation.command,
+                risk: translation.risk,
+                confirmationToken: grant.token,
+                expiresAt: grant.expiresAt,
+                message: 'The risk check flagged this command. Call q_run_command again with this confirmationToken to run it.',
+              }, null, 2),
+            },
+          ],
+        };
+      }
+      if (!this.confirmationTokens.consume(sessionDir, translationId, confirmationToken)) {
+        throw rejectRun('INVALID_CONFIRMATION', 'Confirmation token is invalid, expired or already used; call q_run_command without a token to get a new one');
+      }
+    }
+
+    const result = await this.schedule('q_run_command', cwd, () => this.runShellCommand(shell, translation.command, {
+      cwd,
+      signal,
+      timeoutMs: settings.timeoutMs,
+      maxOutputBytes: settings.maxOutputBytes,
+    }), signal);
+
+    const preview = (text: string) => text.length > 2000 ? `${text.substring(0, 2000)}...` : text;
+    this.sessionLogger.logActivity('COMMAND_EXECUTED', `Ran translation ${translationId} (exit ${result.exitCode ?? result.signal})`, {
+      translationId,
+      command: translation.command,
+      shell,
+      cwd,
+      riskLevel: translation.risk.level,
+      exitCode: result.exitCode,
+      signal: result.signal,
+      timedOut: result.timedOut,
+      durationMs: result.durationMs,
+      stdout: preview(result.stdout),
+      stderr: preview(result.stderr),
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            status: result.timedOut ? 'timed_out' : 'completed',
+            translationId,
+            command: translation.command,
+            cwd,
+            ...result,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private formatRiskWarning(translation: TranslationResult): string {
+    return `⚠️ **Risk: ${translation.risk.level.toUpperCase()}** - review before running\n\n` +
+      translation.risk.findings.map(finding =>
+        `- **${finding.severity}** ${finding.description} (\`${finding.match}\`)`
+      ).join('\n');
+  }
+
+  /**
+   * Content items for a q chat answer: cleaned text by default, prose and code
+   * blocks as separate items for 'split', or the untouched stdout for 'raw'
+   */
+  private formatAnswer(stdout: string, format: OutputFormat): { type: 'text'; text: string; _meta?: Record<string, unknown> }[] {
+    if (format === 'raw') {
+      return [{ type: 'text', text: stdout }];
+    }
+
+    const text = normalizeOutput(stdout);
+    const segments = format === 'split' ? splitCodeBlocks(text) : [];
+    if (segments.length === 0) {
+      return [{ type: 'text', text }];
+    }
+
+    return segments.map(segment => segment.kind === 'prose'
+      ? { type: 'text', text: segment.text, _meta: { kind: 'prose' } }
+      : {
+          type: 'text',
+          text: `${segment.fence}${segment.language}\n${segment.code}\n${segment.fence}`,
+          _meta: { kind: 'code', language: segment.language || null },
+        });
+  }
+
+  // Appends the exchange to the session transcript whether it succeeds or fails
+  private async recordExchange(
+    sessionDir: string,
+    exchange: Pick<TranscriptEntry, 'tool' | 'prompt' | 'model' | 'agent' | 'files' | 'cached'>,
+    operation: () => Promise<{ stdout: string; stderr: string }>
+  ): Promise<{ stdout: string; stderr: string }> {
+    const startedAt = Date.now();
+    try {
+      const result = await operation();
+      this.writeTranscriptEntry(sessionDir, { ...exchange, response: normalizeOutput(result.stdout), durationMs: Date.now() - startedAt });
+      return result;
+    } catch (error) {
+      const classifiedError = error instanceof MCPError ? error : this.classifyError(error, exchange.tool);
+      this.writeTranscriptEntry(sessionDir, {
+        ...exchange,
+        durationMs: Date.now() - startedAt,
+        errorType: classifiedError.type,
+        errorMessage: classifiedError.message,
+      });
+      throw error;
+    }
+  }
+
+  // Whether to consult the response cache; skipped calls are counted as bypassed
+  private useCache(bypass: boolean): boolean {
+    if (!this.responseCache.enabled) {
+      return false;
+    }
+    if (bypass) {
+      this.responseCache.recordBypass();
+      return false;
+    }
+    return true;
+  }
+
+  private readCachedResponse(key: string): CachedResponse | undefined {
+    try {
+      return this.responseCache.get(key);
+    } catch (error) {
+      this.logCacheError('read', error);
+      return undefined;
+    }
+  }
+
+  private writeCachedResponse(key: string, tool: string, stdout: string): void {
+    try {
+      this.responseCache.set(key, tool, stdout);
+    } catch (error) {
+      this.logCacheError('write', error);
+    }
+  }
+
+  // Like the transcript, the cache must never fail the tool call itself
+  private logCacheError(operation: string, error: unknown): void {
+    this.sessionLogger.logActivity('CACHE_ERROR', `Failed to ${operation} the response cache`, {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  private writeTranscriptEntry(sessionDir: string, entry: Omit<TranscriptEntry, 'id' | 'timestamp'>): void {
+    try {
+      appendTranscript(sessionDir, entry);
+    } catch (error) {
+      // A transcript failure must never fail the tool call itself
+      this.sessionLogger.logActivity('TRANSCRIPT_ERROR', 'Failed to append transcript entry', {
+        sessionDirectory: sessionDir,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private async handleQHistory(args: any, sessionId?: string) {
+    const schema = z.object({
+      sessionId: z.string().optional(),
+      conversationId: z.string().optional(),
+      workingDirectory: z.string().min(1).optional(),
+      limit: z.number().int().min(1).max(100).optional().default(10),
+      query: z.string().min(1).optional(),
+      tool: z.enum(['ask_q', 'q_translate']).optional(),
+      maxResponseChars: z.number().int().min(0).max(100000).optional().default(4000),
+    });
+    const { sessionId: requested, conversationId, workingDirectory, limit, query, tool, maxResponseChars } = this.parseArgs(schema, args);
+    const sessionDir = this.resolveSessionArg(requested, sessionId);
+    const conversationDir = this.resolveConversationArg(sessionDir, conversationId);
+    const { stateDir } = this.resolveWorkingDirectoryArg(conversationDir, workingDirectory);
+
+    const entries = readTranscript(stateDir);
+    const turns = queryTranscript(entries, { limit, query, tool }).map(entry => {
+      const response = entry.response ?? '';
+      return {
+        ...entry,
+        response: response.length > maxResponseChars ? response.substring(0, maxResponseChars) : entry.response,
+        ...(response.length > maxResponseChars ? { responseTruncated: true, responseLength: response.length } : {}),
+      };
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            sessionId: path.basename(sessionDir),
+            conversationId: conversationId ?? null,
+            workingDirectory: workingDirectory ?? null,
+            totalTurns: entries.length,
+            returned: turns.length,
+            query: query ?? null,
+            turns,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleSessionList(args: any) {
+    this.parseArgs(z.object({}), args);
+
+    const sessions = this.sessionStore.list();
+    const result = {
+      root: this.sessionStore.getRoot(),
+      count: sessions.length,
+      totalBytes: sessions.reduce((sum, session) => sum + session.sizeBytes, 0),
+      sessions,
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleSessionInfo(args: any, sessionId?: string) {
+    const { sessionId: requested } = this.parseArgs(z.object({ sessionId: z.string().optional() }), args);
+    const sessionDir = this.resolveSessionArg(requested, sessionId);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            ...this.sessionStore.describe(sessionDir),
+            files: fs.readdirSync(sessionDir),
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleSessionReset(args: any, sessionId?: string) {
+    const schema = z.object({
+      sessionId: z.string().optional(),
+      conversationId: z.string().optional(),
+      workingDirectory: z.string().min(1).optional(),
+    });
+    const { sessionId: requested, conversationId, workingDirectory } = this.parseArgs(schema, args);
+    const sessionDir = this.resolveSessionArg(requested, sessionId);
+    const conversationDir = this.resolveConversationArg(sessionDir, conversationId);
+    const { stateDir } = this.resolveWorkingDirectoryArg(conversationDir, workingDirectory);
+
+    const target = (conversationId
+      ? `Conversation '${conversationId}' in session '${path.basename(sessionDir)}'`
+      : `Session '${path.basename(sessionDir)}'`) + (workingDirectory ? ` (in ${workingDirectory})` : '');
+
+    // ask_q never ran there, so the next call starts a new conversation anyway
+    if (!fs.existsSync(stateDir)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${target} has no Amazon Q conversation yet; nothing to reset.`,
+          },
+        ],
+      };
+    }
+
+    this.sessionStore.requestReset(stateDir);
+    this.sessionLogger.logActivity('SESSION_RESET', `Conversation reset requested for ${path.basename(sessionDir)}`, {
+      sessionDirectory: sessionDir,
+      conversationId,
+      workingDirectory
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `${target} reset. The next ask_q call starts a new Amazon Q conversation instead of resuming the previous one.`,
+        },
+      ],
+    };
+  }
+
+  private async handleConversationFork(args: any, sessionId?: string) {
+    const schema = z.object({
+      conversationId: z.string().min(1),
+      fromConversationId: z.string().optional(),
+    });
+    const { conversationId, fromConversationId } = this.parseArgs(schema, args);
+    const sessionDir = this.getSessionDirectory(sessionId);
+    const sourceDir = this.resolveConversationArg(sessionDir, fromConversationId);
+
+    let targetDir: string;
+    try {
+      targetDir = this.sessionStore.resolveConversationDirectory(sessionDir, conversationId);
+      this.sessionStore.fork(sourceDir, targetDir, fromConversationId ?? 'main');
+    } catch (error) {
+      throw new MCPError(
+        ErrorType.VALIDATION_ERROR,
+        'INVALID_CONVERSATION',
+        error instanceof Error ? error.message : String(error),
+        false,
+        this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR)
+      );
+    }
+
+    const copiedTurns = readTranscript(targetDir).length;
+    this.sessionLogger.logActivity('CONVERSATION_FORK', `Forked conversation ${fromConversationId ?? 'main'} into ${conversationId}`, {
+      sessionDirectory: sessionDir,
+      copiedTurns
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            sessionId: path.basename(sessionDir),
+            conversationId,
+            forkedFrom: fromConversationId ?? 'main',
+            copiedTurns,
+            directory: targetDir,
+          }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleSessionDelete(args: any, sessionId?: string) {
+    const schema = z.object({
+      sessionId: z.string().optional(),
+      olderThanDays: z.number().positive().optional(),
+      dryRun: z.boolean().optional().default(false),
+    }).refine(value => (value.sessionId === undefined) !== (value.olderThanDays === undefined), {
+      message: 'Provide exactly one of sessionId or olderThanDays',
+    });
+    const { sessionId: requested, olderThanDays, dryRun } = this.parseArgs(schema, args);
+
+    if (requested !== undefined) {
+      const sessionDir = this.resolveSessionArg(requested);
+      if (this.sessionStore.isActive(sessionDir)) {
+        if (sessionDir === this.resolveSessionDirectory(sessionId)) {
+          throw new MCPError(
+            ErrorType.VALIDATION_ERROR,
+            'SESSION_IN_USE',
+            `Session ${requested} is the session making this call; use q_session_reset to start it over`,
+            false,
+            this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR)
+          );
+        }
+        throw new MCPError(
+          ErrorType.RESOURCE_BUSY,
+          'SESSION_IN_USE',
+          `Session ${requested} has a tool call running; try again when it has finished`,
+          true,
+          this.errorGuidanceMap.get(ErrorType.RESOURCE_BUSY)
+        );
+      }
+      const summary = this.sessionStore.describe(sessionDir);
+      this.sessionStore.delete(sessionDir);
+      fs.rmSync(this.getTranslationsFile(sessionDir), { force: true });
+      this.sessionLogger.logActivity('SESSION_DELETE', `Deleted session ${summary.sessionId}`, {
+        sessionDirectory: sessionDir,
+        sizeBytes: summary.sizeBytes
+      });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ deleted: [summary] }, null, 2),
+          },
+        ],
+      };
+    }
+
+    const pruned = this.sessionStore.prune(olderThanDays! * 24 * 60 * 60 * 1000, dryRun);
+    if (!dryRun) {
+      for (const session of pruned) {
+        fs.rmSync(this.getTranslationsFile(session.directory), { force: true });
+      }
+    }
+    this.sessionLogger.logActivity('SESSION_PRUNE', `${dryRun ? 'Would prune' : 'Pruned'} ${pruned.length} sessions`, {
+      olderThanDays,
+      sessionIds: pruned.map(session => session.sessionId)
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ dryRun, olderThanDays, [dryRun ? 'wouldDelete' : 'deleted']: pruned }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleQStatus(args: any) {
+    try {
+      const uptime = Date.now() - this.startTime.getTime();
+      const uptimeSeconds = Math.floor(uptime / 1000);
+      const uptimeMinutes = Math.floor(uptimeSeconds / 60);
+      const uptimeHours = Math.floor(uptimeMinutes / 60);
+
+      const formatUptime = () => {
+        if (uptimeHours > 0) {
+          return `${uptimeHours}h ${uptimeMinutes % 60}m ${uptimeSeconds % 60}s`;
+        } else if (uptimeMinutes > 0) {
+          return `${uptimeMinutes}m ${uptimeSeconds % 60}s`;
+        } else {
+          return `${uptimeSeconds}s`;
+        }
+      };
 
       // Run diagnostics
       const diagnostics = await this.runDiagnostics();
 
       // Get session info
-      const activeSessions = AmazonQSessionLogger.getActiveSessions();
+      const activeSessions = AmazonQSessionLogger.getActiveSessions(this.config.dataDir);
       const sessionInfo = this.sessionLogger.getSessionInfo();
 
       const status = {
@@ -715,7 +2116,11 @@ class AmazonQMCPServer {
         pid: process.pid,
         nodeVersion: process.version,
         platform: process.platform,
-        availableTools: ["ask_q", "take_q", "q_translate", "fetch_chunk", "q_status"],
+        availableTools: [
+          "ask_q", "take_q", "q_translate", "fetch_info", "fetch_chunk", "fetch_lines", "fetch_grep", "fetch_download", "fetch_download_status", "q_status", "q_history",
+          "q_session_list", "q_session_info", "q_session_reset", "q_session_delete",
+          "q_conversation_fork", "q_run_command"
+        ],
         memoryUsage: {
           rss: `${Math.round(process.memoryUsage().rss / 1024 / 1024)}MB`,
           heapUsed: `${Math.round(process.memoryUsage().heapUsed / 1024 / 1024)}MB`, 
@@ -724,9 +2129,27 @@ class AmazonQMCPServer {
         diagnostics: diagnostics,
         sessionManagement: {
           enabled: true,
-          sessionDirectory: path.join(os.homedir(), '.amazon-q-mcp', 'sessions'),
+          sessionDirectory: this.getSessionsRoot(),
           activeSessions: this.getActiveSessionCount()
         },
+        transport: this.httpTransport
+          ? { type: 'http', url: this.httpTransport.url, connectedSessions: this.httpTransport.sessionCount() }
+          : { type: 'stdio' },
+        scheduler: { ...this.scheduler.stats(), queueTimeoutMs: this.config.concurrency.queueTimeoutMs },
+        cache: { ...this.responseCache.stats(), ttlMs: this.config.cache.ttlMs },
+        circuitBreaker: this.circuitBreaker.stats(),
+        configuration: {
+          sources: this.config.sources,
+          qBinary: this.config.qBinary,
+          dataDir: this.config.dataDir,
+          allowedRoots: this.config.allowedRoots,
+          tools: {
+            ask_q: this.getToolSettings('ask_q'),
+            q_translate: this.getToolSettings('q_translate'),
+            q_status: this.getToolSettings('q_status'),
+            q_run_command: this.getToolSettings('q_run_command'),
+          }
+        },
         session: {
           sessionId: sessionInfo.sessionId,
           claudeInstance: sessionInfo.claudeInstance,
@@ -743,6 +2166,8 @@ class AmazonQMCPServer {
         }
       };
 
+      const lastTransition = status.circuitBreaker.history[status.circuitBreaker.history.length - 1];
+
       return {
         content: [
           {
@@ -757,12 +2182,52 @@ class AmazonQMCPServer {
                   `- **Session ID:** ${status.session.sessionId}\n` +
                   `- **Claude Instance:** ${status.session.claudeInstance}\n` +
                   `- **Status:** ${status.session.status}\n` +
-                  `- **Total Active Sessions:** ${status.session.totalActiveSessions}\n\n` +
+                  `- **Total Active Sessions:** ${status.session.totalActiveSessions}\n` +
+                  `- **Transport:** ${this.httpTransport ? `HTTP at ${this.httpTransport.url} (${this.httpTransport.sessionCount()} connected)` : 'stdio'}\n\n` +
                   `## Diagnostics\n\n` +
                   `- **Amazon Q CLI:** ${diagnostics.qCliAvailable ? '✅ Available' : '❌ Not Found'}\n` +
                   `- **Authentication:** ${diagnostics.authStatus ? '✅ Valid' : '❌ Invalid'}\n` +
                   `- **Configuration:** ${diagnostics.configValid ? '✅ Valid' : '❌ Invalid'}\n` +
                   `- **Session Management:** ${diagnostics.sessionDirWritable ? '✅ Working' : '❌ Error'}\n\n` +
+                  `## Process Queue\n\n` +
+                  `- **Running:** ${status.scheduler.running} of ${status.scheduler.maxConcurrent}\n` +
+                  `- **Queued:** ${status.scheduler.queued}` +
+                  (status.scheduler.queued > 0 ? ` (oldest waiting ${status.scheduler.oldestWaitMs}ms)` : '') + `\n` +
+                  `- **Wait Time:** ${status.scheduler.averageWaitMs}ms average, ${status.scheduler.maxWaitMs}ms max over ${status.scheduler.started} processes\n` +
+                  `- **Queue Timeouts:** ${status.scheduler.timedOut} (limit ${status.scheduler.queueTimeoutMs}ms), ${status.scheduler.cancelled} cancelled while queued\n\n` +
+                  `## Response Cache\n\n` +
+                  (status.cache.enabled
+                    ? `- **Entries:** ${status.cache.entries} (${Math.round(status.cache.bytes / 1024)}KB, TTL ${status.cache.ttlMs}ms)\n` +
+                      `- **Hits / Misses:** ${status.cache.hits} / ${status.cache.misses}\n` +
+                      `- **Bypassed:** ${status.cache.bypassed}\n` +
+                      `- **Stores / Evictions:** ${status.cache.stores} / ${status.cache.evictions}\n\n`
+                    : `- **Status:** disabled\n\n`) +
+                  `## Circuit Breaker\n\n` +
+                  (status.circuitBreaker.enabled
+                    ? status.circuitBreaker.circuits.map(circuit =>
+                        `- **${circuit.errorType}:** ${circuit.state}` +
+                        (circuit.state === 'open' ? ` until ${circuit.halfOpensAt}` : '') +
+                        `, ${circuit.recentFailures} recent failures, tripped ${circuit.trips} times`
+                      ).join('\n') +
+                      `\n- **Rejected Calls:** ${status.circuitBreaker.rejected}\n` +
+                      (lastTransition
+                        ? `- **Last Change:** ${lastTransition.timestamp} ${lastTransition.errorType} ${lastTransition.from} → ${lastTransition.to} (${lastTransition.reason})\n\n`
+                        : `\n`)
+                    : `- **Status:** disabled\n\n`) +
+                  `## Configuration\n\n` +
+                  `- **Sources:** ${status.configuration.sources.length > 0 ? status.configuration.sources.join(', ') : 'built-in defaults'}\n` +
+                  `- **Q Binary:** ${status.configuration.qBinary}\n` +
+                  `- **Data Directory:** ${status.configuration.dataDir}\n` +
+                  `- **Allowed Roots:** ${status.configuration.allowedRoots.length > 0 ? status.configuration.allowedRoots.join(', ') : 'none (workingDirectory disabled)'}\n` +
+                  Object.entries(status.configuration.tools).map(([tool, settings]) =>
+                    `- **${tool}:** timeout ${settings.timeoutMs}ms, output cap ${settings.maxOutputBytes} bytes, ` +
+                    `prompt limit ${settings.maxPromptLength} chars, ${settings.retry.maxAttempts} attempts ` +
+                    `(${settings.retry.backoff} ${settings.retry.baseDelayMs}-${settings.retry.maxDelayMs}ms backoff, ${settings.retry.jitter} jitter` +
+                    (settings.retry.deadlineMs > 0 ? `, ${settings.retry.deadlineMs}ms deadline` : '') +
+                    (Object.keys(settings.retry.errorTypes).length > 0 ? `, overrides for ${Object.keys(settings.retry.errorTypes).join(', ')}` : '') +
+                    `)`
+                  ).join('\n') +
+                  `\n\n` +
                   `## Available Tools\n\n` +
                   status.availableTools.map(tool => `- **${tool}**`).join('\n') +
                   `\n\n---\n\n` +
@@ -784,13 +2249,20 @@ class AmazonQMCPServer {
       sessionDirWritable: false,
       issues: [] as string[]
     };
+    const statusSettings = this.getToolSettings('q_status');
 
     try {
       // Check if Q CLI is available
       await new Promise<void>((resolve, reject) => {
-        const child = spawn('q', ['--version'], { stdio: 'pipe', detached: true });
+        const child = spawn(this.config.qBinary, ['--version'], { stdio: 'pipe', detached: true });
         this.activeProcesses.add(child);
-        const cleanup = () => this.activeProcesses.delete(child);
+        let exited = false;
+        const timer = setTimeout(() => this.terminateProcessGroup(child, () => exited), statusSettings.timeoutMs);
+        const cleanup = () => {
+          exited = true;
+          clearTimeout(timer);
+          this.activeProcesses.delete(child);
+        };
         child.on('close', (code) => {
           cleanup();
           if (code === 0) {
@@ -813,7 +2285,7 @@ class AmazonQMCPServer {
 
     try {
       // Check session directory
-      const sessionDir = path.join(os.homedir(), '.amazon-q-mcp', 'sessions');
+      const sessionDir = this.getSessionsRoot();
       if (!fs.existsSync(sessionDir)) {
         fs.mkdirSync(sessionDir, { recursive: true });
       }
@@ -830,9 +2302,15 @@ class AmazonQMCPServer {
     try {
       // Check basic config/auth by trying a simple command
       await new Promise<void>((resolve, reject) => {
-        const child = spawn('q', ['status'], { stdio: 'pipe', detached: true });
+        const child = spawn(this.config.qBinary, ['status'], { stdio: 'pipe', detached: true });
         this.activeProcesses.add(child);
-        const cleanup = () => this.activeProcesses.delete(child);
+        let exited = false;
+        const timer = setTimeout(() => this.terminateProcessGroup(child, () => exited), statusSettings.timeoutMs);
+        const cleanup = () => {
+          exited = true;
+          clearTimeout(timer);
+          this.activeProcesses.delete(child);
+        };
         child.on('close', (code) => {
           cleanup();
           if (code === 0) {
@@ -859,7 +2337,7 @@ class AmazonQMCPServer {
 
   private getActiveSessionCount(): number {
     try {
-      const sessionDir = path.join(os.homedir(), '.amazon-q-mcp', 'sessions');
+      const sessionDir = this.getSessionsRoot();
       if (!fs.existsSync(sessionDir)) {
         return 0;
       }
@@ -871,192 +2349,953 @@ class AmazonQMCPServer {
     }
   }
 
-  private async handleFetchChunk(args: any) {
+  private async handleFetchChunk(args: any, signal?: AbortSignal) {
     const schema = z.object({
       url: z.string().url(),
       start: z.number().int().min(0).optional().default(0),
       length: z.number().int().min(1).max(10 * 1024 * 1024).optional().default(65536), // cap at 10MB
       headers: z.record(z.string()).optional().default({}),
+      encoding: z.enum(['base64', 'text', 'auto']).optional().default('base64'),
+      validator: z.string().min(1)
+        .refine(value => !value.startsWith('W/'), { message: 'must be a strong ETag or a Last-Modified date; weak ETags cannot be used with If-Range' })
+        .optional(),
     });
 
-    const { url, start, length, headers } = schema.parse(args);
+    const { url, start, length, headers, encoding, validator } = this.parseArgs(schema, args);
 
     const rangeHeader = `bytes=${start}-${start + length - 1}`;
-    const requestHeaders = {
+    const requestHeaders: Record<string, string> = {
       'Range': rangeHeader,
       'User-Agent': 'amazon-q-mcp-server/1.0.0',
       ...headers,
     };
+    if (validator) {
+      // The server sends the whole file instead of the range if the validator no longer matches
+      requestHeaders['If-Range'] = validator;
+    }
 
-    try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: requestHeaders,
-      });
+    const response = await this.fetchUnderPolicy(url, requestHeaders, signal, 'Error fetching chunk', 'fetch_chunk');
 
-      if (!response.ok && response.status !== 206) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    if (response.status === 416) {
+      await response.body?.cancel();
+      const size = parseContentRange(response.headers.get('content-range'))?.total;
+      throw new MCPError(
+        ErrorType.VALIDATION_ERROR,
+        'RANGE_NOT_SATISFIABLE',
+        `Error fetching chunk: byte ${start} is past the end of the file` + (size != null ? ` (${size} bytes)` : ''),
+        false,
+        this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR)
+      );
+    }
+    if (!response.ok) {
+      throw this.createHttpError('Error fetching chunk', response.status, response.statusText, response.headers.get('retry-after'));
+    }
+    const etag = response.headers.get('etag');
+    if (validator && this.validatorChanged(validator, response.headers)) {
+      await response.body?.cancel();
+      throw new MCPError(
+        ErrorType.VALIDATION_ERROR,
+        'REMOTE_CHANGED',
+        `Error fetching chunk: the file changed since ${validator}` + (etag ? ` (now ${etag})` : '') +
+          '; chunks read so far belong to the old version. Call fetch_info and start over.',
+        false,
+        this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR)
+      );
+    }
+    if (response.status === 200) {
+      // Only acceptable when the whole file is what was asked for anyway
+      const declared = response.headers.get('content-length');
+      if (start > 0 || declared === null || Number(declared) > length) {
+        await response.body?.cancel();
+        throw new MCPError(
+          ErrorType.VALIDATION_ERROR,
+          'RANGE_NOT_SUPPORTED',
+          `Error fetching chunk: the server ignored the range and sent the whole file` +
+            (declared !== null ? ` (${declared} bytes)` : '') + '. Use fetch_download to fetch it in full.',
+          false,
+          this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR)
+        );
       }
+    }
 
-      const arrayBuffer = await response.arrayBuffer();
-      const dataBase64 = Buffer.from(arrayBuffer).toString('base64');
-      
-      const contentRange = response.headers.get('content-range');
-      const contentType = response.headers.get('content-type') || 'application/octet-stream';
-
-      const result = {
-        url,
-        ok: response.ok,
-        status: response.status,
-        contentType,
-        requested: { start, end: start + length - 1 },
-        receivedBytes: arrayBuffer.byteLength,
-        contentRange: contentRange || `bytes ${start}-${start + arrayBuffer.byteLength - 1}/*`,
-        totalBytes: contentRange ? parseInt(contentRange.split('/')[1]) : null,
-        encoding: 'base64',
-        dataBase64,
-      };
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
-      };
+    let arrayBuffer: ArrayBuffer;
+    try {
+      arrayBuffer = await response.arrayBuffer();
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error fetching chunk: ${errorMessage}`,
-          },
-        ],
+      throw this.createFetchError(error, 'Error fetching chunk', 'fetch_chunk', signal);
+    }
+    const bytes = new Uint8Array(arrayBuffer);
+    
+    const contentRange = response.headers.get('content-range');
+    const contentType = response.headers.get('content-type') || 'application/octet-stream';
+    const range = parseContentRange(contentRange);
+    // A server that ignores Range sends the whole file from byte 0
+    const rangeStart = response.status === 206 ? range?.start ?? start : 0;
+
+    const result = {
+      url,
+      ok: response.ok,
+      status: response.status,
+      contentType,
+      requested: { start, end: start + length - 1 },
+      receivedBytes: arrayBuffer.byteLength,
+      contentRange: contentRange || `bytes ${start}-${start + arrayBuffer.byteLength - 1}/*`,
+      totalBytes: response.status === 206 ? range?.total ?? null : arrayBuffer.byteLength,
+      etag,
+      lastModified: response.headers.get('last-modified'),
+    };
+
+    // auto leaves data that looks binary as base64; text decodes it regardless
+    const detected = encoding === 'base64' ? undefined : detectCharset(response.headers.get('content-type'), bytes);
+    const charset = encoding === 'text' ? detected ?? 'utf-8' : detected;
+
+    let body;
+    if (charset === undefined) {
+      body = { encoding: 'base64', nextStart: rangeStart + bytes.length, dataBase64: Buffer.from(arrayBuffer).toString('base64') };
+    } else {
+      const atEnd = response.status !== 206 ||
+        (range?.total != null ? rangeStart + bytes.length >= range.total : bytes.length < length);
+      const decoded = decodeText(bytes, charset, { midStream: rangeStart > 0, final: atEnd });
+      body = {
+        encoding: 'text',
+        charset: decoded.charset,
+        skippedLeadingBytes: decoded.skippedLeadingBytes,
+        decodedBytes: decoded.decodedBytes,
+        // Continue from here: a character cut off at the end of the range starts at this byte
+        nextStart: rangeStart + decoded.decodedBytes,
+        text: decoded.text,
       };
     }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ ...result, ...body }, null, 2),
+        },
+      ],
+    };
   }
 
-  private async executeQCommand(args: string[]): Promise<{ stdout: string; stderr: string }> {
-    this.validateCommandArgs(args);
-    
+  private async handleFetchInfo(args: any, signal?: AbortSignal) {
+    const schema = z.object({
+      url: z.string().url(),
+      headers: z.record(z.string()).optional().default({}),
+    });
+
+    const { url, headers } = this.parseArgs(schema, args);
+    const requestHeaders = { 'User-Agent': 'amazon-q-mcp-server/1.0.0', ...headers };
+
+    let method: 'HEAD' | 'RANGE' = 'HEAD';
+    let response = await this.fetchUnderPolicy(url, requestHeaders, signal, 'Error fetching info', 'fetch_info', 'HEAD');
+    let size = response.ok && response.headers.get('content-length') !== null ? Number(response.headers.get('content-length')) : null;
+
+    // Servers that reject HEAD or leave out the size still answer a one-byte range
+    if (size === null) {
+      method = 'RANGE';
+      response = await this.fetchUnderPolicy(url, { ...requestHeaders, 'Range': 'bytes=0-0' }, signal, 'Error fetching info', 'fetch_info');
+      await response.body?.cancel();
+      if (response.status === 206 || response.status === 416) {
+        size = parseContentRange(response.headers.get('content-range'))?.total ?? null;
+      } else if (response.ok) {
+        const declared = response.headers.get('content-length');
+        size = declared !== null ? Number(declared) : null;
+      } else {
+        throw this.createHttpError('Error fetching info', response.status, response.statusText, response.headers.get('retry-after'));
+      }
+    }
+
+    const etag = response.headers.get('etag');
+    const lastModified = response.headers.get('last-modified');
+    const acceptRanges = method === 'RANGE' && response.status === 206
+      ? 'bytes'
+      : response.headers.get('accept-ranges');
+    const result = {
+      url,
+      method,
+      status: response.status,
+      size,
+      acceptRanges,
+      etag,
+      lastModified,
+      contentType: response.headers.get('content-type'),
+      // What to pass to fetch_chunk as validator; weak ETags cannot be used with If-Range
+      validator: etag && !etag.startsWith('W/') ? etag : lastModified,
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleFetchLines(args: any, signal?: AbortSignal) {
+    const schema = z.object({
+      url: z.string().url(),
+      startLine: z.number().int().min(1),
+      endLine: z.number().int().min(1).optional(),
+      headers: z.record(z.string()).optional().default({}),
+    }).refine(
+      ({ startLine, endLine }) => endLine === undefined || (endLine >= startLine && endLine - startLine < FETCH_LINES_MAX_LINES),
+      { message: `endLine must be at least startLine and at most ${FETCH_LINES_MAX_LINES - 1} lines after it`, path: ['endLine'] }
+    );
+
+    const { url, startLine, endLine, headers } = this.parseArgs(schema, args);
+    const collector = new LineCollector(startLine, endLine ?? startLine + FETCH_LINES_DEFAULT_COUNT - 1, FETCH_LINES_MAX_BYTES);
+
+    let charset: string | undefined;
+    // Later ranges are pinned to the version of the file the first one came from
+    let pinned: string | undefined;
+    let offset = 0;
+    let complete = false;
+    let eof = false;
+    while (!complete && !eof) {
+      if (offset >= FETCH_LINES_SCAN_LIMIT) {
+        throw new MCPError(
+          ErrorType.OUTPUT_LIMIT_EXCEEDED,
+          'SCAN_LIMIT',
+          `Line ${startLine} is not within the first ${FETCH_LINES_SCAN_LIMIT} bytes; use fetch_chunk with a byte offset instead`,
+          false,
+          this.errorGuidanceMap.get(ErrorType.OUTPUT_LIMIT_EXCEEDED)
+        );
+      }
+
+      const requestHeaders: Record<string, string> = {
+        'User-Agent': 'amazon-q-mcp-server/1.0.0',
+        ...headers,
+        'Range': `bytes=${offset}-${offset + FETCH_LINES_SCAN_BYTES - 1}`,
+      };
+      if (pinned) {
+        requestHeaders['If-Range'] = pinned;
+      }
+      const response = await this.fetchUnderPolicy(url, requestHeaders, signal, 'Error fetching lines', 'fetch_lines');
+
+      if (response.status === 416) {
+        await response.body?.cancel();
+        eof = true;
+        break;
+      }
+      if (!response.ok) {
+        throw this.createHttpError('Error fetching lines', response.status, response.statusText, response.headers.get('retry-after'));
+      }
+      const etag = response.headers.get('etag');
+      if (pinned && this.validatorChanged(pinned, response.headers)) {
+        await response.body?.cancel();
+        throw new MCPError(
+          ErrorType.VALIDATION_ERROR,
+          'REMOTE_CHANGED',
+          `Error fetching lines: the file changed since ${pinned}` + (etag ? ` (now ${etag})` : '') + ' while it was being scanned; try again.',
+          true,
+          this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR)
+        );
+      }
+      const range = parseContentRange(response.headers.get('content-range'));
+      if (response.status === 200 ? offset > 0 : range?.start !== offset) {
+        await response.body?.cancel();
+        throw new MCPError(
+          ErrorType.NETWORK_ERROR,
+          'BAD_RANGE_RESPONSE',
+          `Error fetching lines: expected a range starting at byte ${offset}, got ` +
+            (response.status === 200 ? 'the whole file' : response.headers.get('content-range') ?? 'no Content-Range'),
+          false,
+          this.errorGuidanceMap.get(ErrorType.NETWORK_ERROR)
+        );
+      }
+      pinned ??= (etag && !etag.startsWith('W/') ? etag : response.headers.get('last-modified')) ?? undefined;
+
+      charset ??= charsetFromContentType(response.headers.get('content-type')) ?? 'utf-8';
+      if (!isAsciiCompatible(charset)) {
+        await response.body?.cancel();
+        throw new MCPError(
+          ErrorType.VALIDATION_ERROR,
+          'UNSUPPORTED_CHARSET',
+          `Lines cannot be counted in ${charset} text; use fetch_chunk with encoding "text" instead`,
+          false,
+          this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR)
+        );
+      }
+
+      let received = 0;
+      try {
+        const reader = response.body!.getReader();
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          // A server that ignores Range sends the whole file in this one response
+          const piece = value.subarray(0, FETCH_LINES_SCAN_LIMIT - offset - received);
+          received += piece.byteLength;
+          if (collector.push(piece)) {
+            complete = true;
+          }
+          if (complete || piece.byteLength < value.byteLength) {
+            await reader.cancel();
+            break;
+          }
+        }
+      } catch (error) {
+        throw this.createFetchError(error, 'Error fetching lines', 'fetch_lines', signal);
+      }
+      offset += received;
+
+      // A whole-file response ends at the end of the file unless it was cut at the scan limit; otherwise the range total or a short range marks the end
+      const total = range?.total;
+      eof = !complete && (response.status !== 206 ? offset < FETCH_LINES_SCAN_LIMIT : (total != null ? offset >= total : received < FETCH_LINES_SCAN_BYTES));
+    }
+
+    const result = { url, charset: charset ?? 'utf-8', ...collector.result(charset ?? 'utf-8', eof) };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async handleFetchGrep(args: any, signal?: AbortSignal) {
+    const schema = z.object({
+      url: z.string().url(),
+      pattern: z.string().min(1).max(1000).refine(pattern => {
+        try {
+          new RegExp(pattern);
+          return true;
+        } catch {
+          return false;
+        }
+      }, { message: 'must be a valid JavaScript regular expression' }),
+      ignoreCase: z.boolean().optional().default(false),
+      start: z.number().int().min(0).optional().default(0),
+      maxBytes: z.number().int().min(1).max(FETCH_GREP_MAX_BYTES).optional().default(FETCH_GREP_DEFAULT_MAX_BYTES),
+      contextLines: z.number().int().min(0).max(FETCH_GREP_MAX_CONTEXT).optional().default(2),
+      maxMatches: z.number().int().min(1).max(FETCH_GREP_MAX_MATCHES).optional().default(FETCH_GREP_DEFAULT_MATCHES),
+      validator: z.string().min(1)
+        .refine(value => !value.startsWith('W/'), { message: 'must be a strong ETag or a Last-Modified date; weak ETags cannot be used with If-Range' })
+        .optional(),
+      headers: z.record(z.string()).optional().default({}),
+    });
+
+    const { url, pattern, ignoreCase, start, maxBytes, contextLines, maxMatches, validator, headers } = this.parseArgs(schema, args);
+    // Matching runs in a worker, so a pattern that backtracks badly cannot block other clients
+    const worker = new RegexWorker(pattern, ignoreCase ? 'gi' : 'g', FETCH_GREP_MATCH_BUDGET_MS);
+    try {
+      const windowEnd = start + maxBytes;
+
+      let scanner: GrepScanner | undefined;
+      let charset = 'utf-8';
+      // Later ranges are pinned to the version of the file the first one came from
+      let pinned = validator;
+      let totalBytes: number | null = null;
+      let offset = start;
+      let stopped = false;
+      let eof = false;
+      while (!stopped && !eof && offset < windowEnd) {
+        const requested = Math.min(FETCH_GREP_SCAN_BYTES, windowEnd - offset);
+        const requestHeaders: Record<string, string> = {
+          'User-Agent': 'amazon-q-mcp-server/1.0.0',
+          ...headers,
+          'Range': `bytes=${offset}-${offset + requested - 1}`,
+        };
+        if (pinned) {
+          requestHeaders['If-Range'] = pinned;
+        }
+        const response = await this.fetchUnderPolicy(url, requestHeaders, signal, 'Error searching file', 'fetch_grep');
+
+        if (response.status === 416) {
+          await response.body?.cancel();
+          totalBytes ??= parseContentRange(response.headers.get('content-range'))?.total ?? null;
+          // nextStart from an earlier search can be exactly the end of the file
+          if (offset === start && start > 0 && totalBytes !== start) {
+            throw new MCPError(
+              ErrorType.VALIDATION_ERROR,
+              'RANGE_NOT_SATISFIABLE',
+              `Error searching file: byte ${start} is past the end of the file` + (totalBytes != null ? ` (${totalBytes} bytes)` : ''),
+              false,
+              this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR)
+            );
+          }
+          eof = true;
+          break;
+        }
+        if (!response.ok) {
+          throw this.createHttpError('Error searching file', response.status, response.statusText, response.headers.get('retry-after'));
+        }
+        const etag = response.headers.get('etag');
+        if (pinned && this.validatorChanged(pinned, response.headers)) {
+          await response.body?.cancel();
+          throw new MCPError(
+            ErrorType.VALIDATION_ERROR,
+            'REMOTE_CHANGED',
+            `Error searching file: the file changed since ${pinned}` + (etag ? ` (now ${etag})` : '') +
+              '; matches found so far belong to the old version. Call fetch_info and start over.',
+            false,
+            this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR)
+          );
+        }
+        if (response.status === 200 && offset > 0) {
+          await response.body?.cancel();
+          throw new MCPError(
+            ErrorType.VALIDATION_ERROR,
+            'RANGE_NOT_SUPPORTED',
+            'Error searching file: the server ignored the range and sent the whole file. Use fetch_download and search the local copy.',
+            false,
+            this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR)
+          );
+        }
+        pinned ??= (etag && !etag.startsWith('W/') ? etag : response.headers.get('last-modified')) ?? undefined;
+
+        if (!scanner) {
+          charset = charsetFromContentType(response.headers.get('content-type')) ?? 'utf-8';
+          if (!isAsciiCompatible(charset)) {
+            await response.body?.cancel();
+            throw new MCPError(
+              ErrorType.VALIDATION_ERROR,
+              'UNSUPPORTED_CHARSET',
+              `Lines cannot be searched in ${charset} text; use fetch_chunk with encoding "text" instead`,
+              false,
+              this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR)
+            );
+          }
+          scanner = new GrepScanner((lines, limit) => worker.match(lines, limit), charset, { start, contextLines, maxMatches, maxLineBytes: FETCH_GREP_MAX_LINE_BYTES });
+        }
+
+        let received = 0;
+        // A whole-file response is read only up to the end of the window
+        let cut = false;
+        try {
+          const reader = response.body!.getReader();
+          for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            const piece = value.subarray(0, windowEnd - offset - received);
+            received += piece.byteLength;
+            cut = piece.byteLength < value.byteLength;
+            if (await scanner.push(piece)) {
+              stopped = true;
+            }
+            if (stopped || cut) {
+              await reader.cancel();
+              break;
+            }
+          }
+        } catch (error) {
+          if (error instanceof RegexTimeoutError) throw error;
+          throw this.createFetchError(error, 'Error searching file', 'fetch_grep', signal);
+        }
+        offset += received;
+
+        const total = parseContentRange(response.headers.get('content-range'))?.total;
+        totalBytes ??= response.status === 206 ? total ?? null : (cut ? null : offset);
+        eof = !stopped && (response.status !== 206 ? !cut : (total != null ? offset >= total : received < requested));
+      }
+
+      let nextStart: number | null = null;
+      if (eof) {
+        // The last line of the file has no line feed to end it
+        await scanner?.finish();
+      } else if (scanner && scanner.position > start) {
+        // Continue at the start of the first line not searched in full
+        nextStart = scanner.position;
+      } else {
+        // No line ended inside the window: search what there is and move on
+        await scanner?.finish();
+        nextStart = offset;
+      }
+
+      const matches = scanner?.matches ?? [];
+      const result = {
+        url,
+        pattern,
+        ignoreCase,
+        charset,
+        start,
+        scannedBytes: (nextStart ?? offset) - start,
+        nextStart,
+        eof,
+        totalBytes,
+        validator: pinned ?? null,
+        limitReached: stopped ? 'maxMatches' : (eof ? null : 'maxBytes'),
+        // Line numbers count from the first line of the window, which is only line 1 of the file at byte 0
+        lineNumbers: start === 0 ? 'file' : 'window',
+        matchCount: matches.length,
+        matches,
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      if (error instanceof RegexTimeoutError) {
+        throw new MCPError(
+          ErrorType.VALIDATION_ERROR,
+          'PATTERN_TOO_SLOW',
+          `Error searching file: ${error.message}. Simplify the pattern; nested quantifiers such as (a+)+ backtrack exponentially.`,
+          false,
+          this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR)
+        );
+      }
+      throw error;
+    } finally {
+      await worker.close();
+    }
+  }
+
+  private async fetchUnderPolicy(
+    url: string,
+    headers: Record<string, string>,
+    signal: AbortSignal | undefined,
+    context: string,
+    tool: string,
+    method: 'GET' | 'HEAD' = 'GET'
+  ): Promise<Response> {
+    try {
+      return await this.networkPolicy.fetch(url, { method, headers, signal });
+    } catch (error) {
+      throw this.createFetchError(error, context, tool, signal);
+    }
+  }
+
+  private createFetchError(error: unknown, context: string, tool: string, signal?: AbortSignal): MCPError {
+    if (signal?.aborted) {
+      return this.createCancellationError(tool);
+    }
+    if (error instanceof NetworkPolicyError) {
+      return this.createNetworkPolicyError(error);
+    }
+    const cause = error instanceof Error && error.cause instanceof Error ? `: ${error.cause.message}` : '';
+    return new MCPError(
+      ErrorType.NETWORK_ERROR,
+      'FETCH_FAILED',
+      `${context}: ${error instanceof Error ? error.message : String(error)}${cause}`,
+      true,
+      this.errorGuidanceMap.get(ErrorType.NETWORK_ERROR)
+    );
+  }
+
+  /**
+   * Whether a response comes from another version of the file than an If-Range
+   * validator. A 200 alone does not say so: the server may just ignore Range.
+   */
+  private validatorChanged(validator: string, headers: Headers): boolean {
+    const current = validator.startsWith('"') ? headers.get('etag') : headers.get('last-modified');
+    return current !== null && current !== validator;
+  }
+
+  // 429 and 5xx are worth retrying; any other status is a problem with the request
+  private createHttpError(context: string, status: number, statusText: string, retryAfter?: string | null): MCPError {
+    const message = `${context}: HTTP ${status}: ${statusText}`;
+    if (status === 429 || status >= 500) {
+      return new MCPError(
+        ErrorType.SERVICE_CAPACITY_ERROR,
+        `HTTP_${status}`,
+        retryAfter ? `${message} (Retry-After: ${retryAfter})` : message,
+        true,
+        this.errorGuidanceMap.get(ErrorType.SERVICE_CAPACITY_ERROR)
+      );
+    }
+    return new MCPError(
+      ErrorType.VALIDATION_ERROR,
+      `HTTP_${status}`,
+      message,
+      false,
+      this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR)
+    );
+  }
+
+  private createNetworkPolicyError(error: NetworkPolicyError): MCPError {
+    this.sessionLogger.logActivity('NETWORK_POLICY_DENIED', error.message, { rule: error.rule });
+    return new MCPError(
+      ErrorType.NETWORK_POLICY_DENIED,
+      `POLICY_${error.rule.toUpperCase()}`,
+      `Request refused by network policy: ${error.message}`,
+      false,
+      this.errorGuidanceMap.get(ErrorType.NETWORK_POLICY_DENIED)
+    );
+  }
+
+  private async handleFetchDownload(args: any, sessionId?: string, signal?: AbortSignal) {
+    const schema = z.object({
+      url: z.string().url(),
+      filename: z.string().min(1).max(255)
+        .refine(name => !/[\\/]/.test(name) && name !== '.' && name !== '..', { message: 'must be a plain file name' })
+        .optional(),
+      sha256: z.string().regex(/^[a-fA-F0-9]{64}$/, 'must be a hex SHA-256 digest').optional(),
+      headers: z.record(z.string()).optional().default({}),
+    });
+
+    const { url, filename, sha256, headers } = this.parseArgs(schema, args);
+    const sessionDir = this.getSessionDirectory(sessionId);
+    const request = { url, filename: filename ?? filenameFromUrl(url), sha256, headers };
+
+    this.sessionLogger.logActivity('DOWNLOAD_START', `Downloading ${url}`, { url, filename: request.filename });
+
+    let result;
+    try {
+      result = await this.downloads.download(sessionDir, request, signal);
+    } catch (error) {
+      if (error instanceof NetworkPolicyError) {
+        throw this.createNetworkPolicyError(error);
+      }
+      if (signal?.aborted || !(error instanceof DownloadError)) {
+        throw error;
+      }
+      throw this.createDownloadError(error);
+    }
+
+    this.sessionLogger.logActivity('DOWNLOAD_COMPLETE', `Downloaded ${url}`, { ...result });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  private createDownloadError(error: DownloadError): MCPError {
+    const message = `Error downloading file: ${error.message}`;
+    switch (error.reason) {
+      case 'http':
+        return this.createHttpError('Error downloading file', error.status!, error.statusText!, error.retryAfter);
+      case 'network':
+        return new MCPError(ErrorType.NETWORK_ERROR, 'FETCH_FAILED', `${message}. Call fetch_download again to resume.`, true,
+          this.errorGuidanceMap.get(ErrorType.NETWORK_ERROR));
+      case 'checksum':
+        return new MCPError(ErrorType.VALIDATION_ERROR, 'CHECKSUM_MISMATCH', message, false,
+          this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR));
+      case 'too_large':
+        return new MCPError(ErrorType.OUTPUT_LIMIT_EXCEEDED, 'DOWNLOAD_TOO_LARGE', message, false,
+          this.errorGuidanceMap.get(ErrorType.OUTPUT_LIMIT_EXCEEDED));
+      case 'in_progress':
+        return new MCPError(ErrorType.VALIDATION_ERROR, 'DOWNLOAD_IN_PROGRESS', `${message}. Check fetch_download_status for its progress.`, false,
+          this.errorGuidanceMap.get(ErrorType.VALIDATION_ERROR));
+      case 'bad_range':
+        return new MCPError(ErrorType.NETWORK_ERROR, 'BAD_RANGE_RESPONSE', message, false,
+          this.errorGuidanceMap.get(ErrorType.NETWORK_ERROR));
+    }
+  }
+
+  private async handleFetchDownloadStatus(args: any, sessionId?: string) {
+    const schema = z.object({
+      filename: z.string().min(1).optional(),
+    });
+
+    const { filename } = this.parseArgs(schema, args);
+    const downloads = this.downloads.list(this.getSessionDirectory(sessionId))
+      .filter(download => filename === undefined || download.filename === filename);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ downloads }, null, 2),
+        },
+      ],
+    };
+  }
+
+  private async executeQCommand(args: string[]): Promise<{ stdout: string; stderr: string }> {
+    return this.spawnQProcess(args, {});
+  }
+
+  private async executeQCommandWithInput(args: string[], input: string): Promise<{ stdout: string; stderr: string }> {
+    return this.executeQCommandWithInputInDirectory(args, input, process.cwd());
+  }
+
+  private async executeQCommandWithInputInDirectory(
+    args: string[],
+    input: string,
+    workingDir: string,
+    options: Omit<QCommandOptions, 'input' | 'cwd'> = {}
+  ): Promise<{ stdout: string; stderr: string }> {
+    return this.spawnQProcess(args, { ...options, input, cwd: workingDir });
+  }
+
+  // Q keeps its conversation per working directory, so processes sharing a cwd are serialized
+  private async spawnQProcess(args: string[], options: QCommandOptions): Promise<{ stdout: string; stderr: string }> {
+    this.validateCommandArgs(args);
+
+    return this.schedule(`q ${args[0] || ''}`.trim(), options.cwd, () => this.startQProcess(args, options), options.signal);
+  }
+
+  /**
+   * Run a process through the scheduler, which caps how many run at once and
+   * runs those for one working directory in arrival order
+   */
+  private async schedule<T>(command: string, cwd: string | undefined, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    try {
+      return await this.scheduler.run(cwd, task, signal);
+    } catch (error) {
+      if (!(error instanceof SchedulerError)) {
+        throw error;
+      }
+      if (error.reason === 'cancelled') {
+        throw this.createCancellationError(command);
+      }
+      this.sessionLogger.logActivity('QUEUE_TIMEOUT', `${command} timed out waiting for a process slot`, {
+        workingDirectory: cwd,
+        scheduler: this.scheduler.stats()
+      });
+      throw new MCPError(
+        ErrorType.SERVICE_CAPACITY_ERROR,
+        'QUEUE_TIMEOUT',
+        error.message,
+        false,
+        this.errorGuidanceMap.get(ErrorType.SERVICE_CAPACITY_ERROR)
+      );
+    }
+  }
+
+  private startQProcess(args: string[], options: QCommandOptions): Promise<{ stdout: string; stderr: string }> {
     return new Promise((resolve, reject) => {
-      const child = spawn('q', args, {
+      if (options.signal?.aborted) {
+        reject(this.createCancellationError(`q ${args[0] || ''}`.trim()));
+        return;
+      }
+
+      const timeoutMs = options.timeoutMs ?? this.config.defaults.timeoutMs;
+      const child = spawn(this.config.qBinary, args, {
         stdio: ['pipe', 'pipe', 'pipe'],
+        ...(options.cwd ? { cwd: options.cwd } : {}),
         env: { ...process.env },
-        detached: true,
-        timeout: 30000 // 30 second timeout
+        detached: true
       });
+
       this.activeProcesses.add(child);
 
       let stdout = '';
       let stderr = '';
-      const maxOutputSize = 1024 * 1024; // 1MB limit
+      // The cap counts bytes as received, not the length of the decoded text
+      let stdoutBytes = 0;
+      let stderrBytes = 0;
+      const maxOutputSize = options.maxOutputBytes ?? this.config.defaults.maxOutputBytes;
+      let exited = false;
+      let timedOut = false;
+      // Set once the call has failed; later output is dropped
+      let stopped = false;
+
+      const stop = (error: Error) => {
+        stopped = true;
+        this.terminateProcessGroup(child, () => exited);
+        reject(error);
+      };
 
       child.stdout.on('data', (data) => {
-        stdout += data.toString();
-        if (stdout.length > maxOutputSize) {
-          child.kill();
-          reject(new Error('Output size limit exceeded'));
+        if (stopped) return;
+        stdoutBytes += Buffer.byteLength(data);
+        if (stdoutBytes > maxOutputSize) {
+          stop(new QProcessError(`Output size limit exceeded (${maxOutputSize} bytes)`, 'output_limit', null, null, stderr));
+          return;
         }
+        const chunk = data.toString();
+        stdout += chunk;
+        options.onOutput?.(chunk);
       });
 
       child.stderr.on('data', (data) => {
-        stderr += data.toString();
-        if (stderr.length > maxOutputSize) {
-          child.kill();
-          reject(new Error('Error output size limit exceeded'));
+        if (stopped) return;
+        stderrBytes += Buffer.byteLength(data);
+        if (stderrBytes > maxOutputSize) {
+          stop(new QProcessError(`Error output size limit exceeded (${maxOutputSize} bytes)`, 'output_limit', null, null, ''));
+          return;
         }
+        stderr += data.toString();
       });
 
+      // Reported when the process group has gone, so the error carries the last of stderr
+      const timer = setTimeout(() => {
+        timedOut = true;
+        this.terminateProcessGroup(child, () => exited);
+      }, timeoutMs);
+
+      const onAbort = () => {
+        this.sessionLogger.logActivity('PROCESS_CANCEL', `Terminating cancelled process group ${child.pid}`, {
+          command: args[0]
+        });
+        stop(this.createCancellationError(`q ${args[0] || ''}`.trim()));
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
       const cleanup = () => {
+        exited = true;
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
         this.activeProcesses.delete(child);
       };
 
-      child.on('error', (error) => {
+      child.on('error', (error: NodeJS.ErrnoException) => {
         cleanup();
-        reject(new Error(`Failed to execute Q CLI: ${error.message}`));
+        reject(new QProcessError(`Failed to execute Q CLI: ${error.message}`, 'spawn', null, null, '', error.code));
       });
 
-      child.on('close', (code) => {
+      child.on('close', (code, signal) => {
         cleanup();
         if (code === 0) {
           resolve({ stdout, stderr });
+        } else if (timedOut) {
+          reject(new QProcessError(`Q CLI timed out after ${timeoutMs}ms: ${stderr}`, 'timeout', code, signal, stderr));
         } else {
-          reject(new Error(`Q CLI exited with code ${code}: ${stderr}`));
+          reject(new QProcessError(`Q CLI exited with ${signal ? `signal ${signal}` : `code ${code}`}: ${stderr}`, 'exit', code, signal ?? null, stderr));
         }
       });
-    });
-  }
 
-  private async executeQCommandWithInput(args: string[], input: string): Promise<{ stdout: string; stderr: string }> {
-    return this.executeQCommandWithInputInDirectory(args, input, process.cwd());
+      // Write input to stdin and close it
+      if (options.input) {
+        child.stdin.write(options.input + '\n');
+      }
+      child.stdin.end();
+    });
   }
 
-  private async executeQCommandWithInputInDirectory(args: string[], input: string, workingDir: string): Promise<{ stdout: string; stderr: string }> {
-    this.validateCommandArgs(args);
-    
+  /**
+   * Run a shell command for q_run_command. Unlike spawnQProcess a non-zero exit
+   * is a result, not an error; the timeout and output cap stop the whole process
+   * group and are reported in the result.
+   */
+  private runShellCommand(
+    shell: string,
+    command: string,
+    options: { cwd: string; signal?: AbortSignal; timeoutMs: number; maxOutputBytes: number }
+  ): Promise<ShellCommandResult> {
     return new Promise((resolve, reject) => {
-      const child = spawn('q', args, {
+      if (options.signal?.aborted) {
+        reject(this.createCancellationError('q_run_command'));
+        return;
+      }
+
+      const startedAt = Date.now();
+      const child = spawn(shell, ['-c', command], {
         stdio: ['pipe', 'pipe', 'pipe'],
-        cwd: workingDir,
+        cwd: options.cwd,
         env: { ...process.env },
         detached: true,
-        timeout: 30000 // 30 second timeout
       });
-
       this.activeProcesses.add(child);
 
       let stdout = '';
       let stderr = '';
-      const maxOutputSize = 1024 * 1024; // 1MB limit
-
-      child.stdout.on('data', (data) => {
-        stdout += data.toString();
-        if (stdout.length > maxOutputSize) {
-          child.kill();
-          reject(new Error('Output size limit exceeded'));
+      let outputTruncated = false;
+      let timedOut = false;
+      let exited = false;
+
+      let capturedBytes = 0;
+      const capture = (current: string, data: Buffer | string): string => {
+        if (outputTruncated) return current;
+        const chunk = Buffer.from(data);
+        const room = options.maxOutputBytes - capturedBytes;
+        if (chunk.length > room) {
+          outputTruncated = true;
+          capturedBytes = options.maxOutputBytes;
+          this.terminateProcessGroup(child, () => exited);
+          // A character cut off at the cap is left out
+          return current + chunk.subarray(0, Math.max(0, room)).toString('utf8').replace(/\uFFFD$/, '');
         }
-      });
+        capturedBytes += chunk.length;
+        return current + chunk.toString('utf8');
+      };
+      child.stdout.on('data', (data) => { stdout = capture(stdout, data); });
+      child.stderr.on('data', (data) => { stderr = capture(stderr, data); });
 
-      child.stderr.on('data', (data) => {
-        stderr += data.toString();
-        if (stderr.length > maxOutputSize) {
-          child.kill();
-          reject(new Error('Error output size limit exceeded'));
-        }
-      });
+      const timer = setTimeout(() => {
+        timedOut = true;
+        this.terminateProcessGroup(child, () => exited);
+      }, options.timeoutMs);
+
+      const onAbort = () => {
+        this.sessionLogger.logActivity('PROCESS_CANCEL', `Terminating cancelled process group ${child.pid}`, {
+          command: 'q_run_command'
+        });
+        this.terminateProcessGroup(child, () => exited);
+        reject(this.createCancellationError('q_run_command'));
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
 
       const cleanup = () => {
+        exited = true;
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', onAbort);
         this.activeProcesses.delete(child);
       };
 
       child.on('error', (error) => {
         cleanup();
-        reject(new Error(`Failed to execute Q CLI: ${error.message}`));
+        reject(new Error(`Failed to run command with ${shell}: ${error.message}`));
       });
 
-      child.on('close', (code) => {
+      child.on('close', (code: number | null, signal: NodeJS.Signals | null) => {
         cleanup();
-        if (code === 0) {
-          resolve({ stdout, stderr });
-        } else {
-          reject(new Error(`Q CLI exited with code ${code}: ${stderr}`));
-        }
+        resolve({
+          exitCode: code,
+          signal: signal ?? null,
+          stdout,
+          stderr,
+          outputTruncated,
+          timedOut,
+          durationMs: Date.now() - startedAt,
+        });
       });
 
-      // Write input to stdin and close it
-      if (input) {
-        child.stdin.write(input + '\n');
-      }
+      // Translated commands never read from stdin
       child.stdin.end();
     });
   }
 
-  async run(): Promise<void> {
+  private terminateProcessGroup(child: ChildProcess, hasExited: () => boolean): void {
+    if (!child.pid) {
+      return;
+    }
+
+    try {
+      // Negative PID targets the whole detached process group
+      process.kill(-child.pid, 'SIGTERM');
+    } catch (e) {
+      this.sessionLogger.logActivity('CLEANUP_ERROR', `Failed to terminate process group ${child.pid}`, { error: e instanceof Error ? e.message : String(e) });
+      return;
+    }
+
+    const killTimer = setTimeout(() => {
+      if (hasExited()) {
+        return;
+      }
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+        this.sessionLogger.logActivity('CLEANUP', `Killed process group ${child.pid} after grace period`);
+      } catch {
+        // Process group already gone
+      }
+    }, PROCESS_KILL_GRACE_MS);
+    killTimer.unref();
+  }
+
+  async run(transportType: TransportType = this.config.transport): Promise<void> {
     await this.initialize();
     
+    if (transportType === 'http') {
+      await this.runHttp();
+    } else {
+      await this.runStdio();
+    }
+    
+    // Clean up stale sessions from previous runs
+    const cleanedCount = AmazonQSessionLogger.cleanupStaleSessionsFromRegistry(this.config.dataDir);
+    if (cleanedCount > 0) {
+      this.sessionLogger.logActivity('CLEANUP', `Cleaned up ${cleanedCount} stale sessions`);
+    }
+  }
+
+  private async runStdio(): Promise<void> {
     this.sessionLogger.logActivity('TRANSPORT_INIT', 'Initializing stdio transport');
     
     const transport = new StdioServerTransport();
@@ -1067,19 +3306,35 @@ class AmazonQMCPServer {
       claudeInstance: this.sessionLogger.getClaudeInstance()
     });
     
-    // Clean up stale sessions from previous runs
-    const cleanedCount = AmazonQSessionLogger.cleanupStaleSessionsFromRegistry();
-    if (cleanedCount > 0) {
-      this.sessionLogger.logActivity('CLEANUP', `Cleaned up ${cleanedCount} stale sessions`);
-    }
-    
     console.error('[Amazon Q MCP] Amazon Q CLI MCP Server listening on stdio');
   }
+
+  private async runHttp(): Promise<void> {
+    this.sessionLogger.logActivity('TRANSPORT_INIT', 'Initializing Streamable HTTP transport', {
+      ...this.config.http
+    });
+
+    this.httpTransport = await startHttpTransport(this.config.http, () => this.createSessionServer(), this.sessionLogger);
+
+    this.sessionLogger.logActivity('SERVER_CONNECTED', `Server listening on ${this.httpTransport.url}`, {
+      sessionId: this.sessionLogger.getSessionId(),
+      claudeInstance: this.sessionLogger.getClaudeInstance()
+    });
+
+    console.error(`[Amazon Q MCP] Amazon Q CLI MCP Server listening on ${this.httpTransport.url}`);
+  }
 }
 
 // Start the server
-const server = new AmazonQMCPServer();
-server.run().catch((error) => {
+let server: AmazonQMCPServer;
+try {
+  server = new AmazonQMCPServer();
+} catch (error) {
+  // Invalid configuration is reported before the transport is up, so stderr is the only channel
+  console.error(`[Amazon Q MCP] ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+server.run(process.argv.includes('--http') ? 'http' : undefined).catch((error) => {
   console.error('Failed to start server:', error);
   // Try to log the error if session logger exists
   try {
@@ -33,10 +33,10 @@ export class AmazonQSessionLogger {
   private logWriteCount = 0;
   private logSizeCheckInterval = 100; // Check every 100 log writes
 
-  constructor(projectPath: string = process.cwd()) {
+  constructor(projectPath: string = process.cwd(), dataDir: string = AmazonQSessionLogger.defaultDataDir()) {
     // Create logs directory structure
-    this.logDir = path.join(os.homedir(), '.amazon-q-mcp', 'logs', 'sessions');
-    this.sessionsRegistryFile = path.join(os.homedir(), '.amazon-q-mcp', 'logs', 'active-sessions.json');
+    this.logDir = path.join(dataDir, 'logs', 'sessions');
+    this.sessionsRegistryFile = AmazonQSessionLogger.registryFile(dataDir);
     
     // Ensure directories exist
     fs.mkdirSync(this.logDir, { recursive: true });
@@ -220,8 +220,16 @@ export class AmazonQSessionLogger {
     return this.claudeInstance;
   }
 
-  static getActiveSessions(): Record<string, SessionData> {
-    const sessionsFile = path.join(os.homedir(), '.amazon-q-mcp', 'logs', 'active-sessions.json');
+  static defaultDataDir(): string {
+    return path.join(os.homedir(), '.amazon-q-mcp');
+  }
+
+  static registryFile(dataDir: string = AmazonQSessionLogger.defaultDataDir()): string {
+    return path.join(dataDir, 'logs', 'active-sessions.json');
+  }
+
+  static getActiveSessions(dataDir?: string): Record<string, SessionData> {
+    const sessionsFile = AmazonQSessionLogger.registryFile(dataDir);
     
     if (!fs.existsSync(sessionsFile)) {
       return {};
@@ -249,8 +257,8 @@ export class AmazonQSessionLogger {
     }
   }
 
-  static cleanupStaleSessionsFromRegistry(): number {
-    const sessionsFile = path.join(os.homedir(), '.amazon-q-mcp', 'logs', 'active-sessions.json');
+  static cleanupStaleSessionsFromRegistry(dataDir?: string): number {
+    const sessionsFile = AmazonQSessionLogger.registryFile(dataDir);
     
     if (!fs.existsSync(sessionsFile)) {
       return 0;
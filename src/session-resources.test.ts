@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { ACTIVE_SESSIONS_URI, SessionResourceProvider } from './session-resources.js';
+
+describe('SessionResourceProvider', () => {
+  let dataDir: string;
+  let provider: SessionResourceProvider;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'amazon-q-resources-'));
+    fs.mkdirSync(path.join(dataDir, 'logs', 'sessions'), { recursive: true });
+    fs.mkdirSync(path.join(dataDir, 'sessions', 'client-1'), { recursive: true });
+    fs.writeFileSync(
+      path.join(dataDir, 'logs', 'sessions', 'amazon-q-abc-1234.log'),
+      JSON.stringify({ type: 'TOOL_CALL', message: "Tool 'ask_q' called" }) + '\n'
+    );
+    fs.writeFileSync(path.join(dataDir, 'sessions', 'client-1', 'notes.txt'), 'hello');
+    fs.writeFileSync(
+      path.join(dataDir, 'logs', 'active-sessions.json'),
+      JSON.stringify({ 'amazon-q-abc-1234': { sessionId: 'amazon-q-abc-1234', lastActivity: Date.now() } })
+    );
+    provider = new SessionResourceProvider(dataDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should list the registry, session logs and conversation directories', () => {
+    const uris = provider.listResources().map(resource => resource.uri);
+
+    expect(uris).toEqual([
+      ACTIVE_SESSIONS_URI,
+      'amazonq://sessions/amazon-q-abc-1234/log',
+      'amazonq://conversations/client-1',
+    ]);
+  });
+
+  it('should read a session log', () => {
+    const contents = provider.readResource('amazonq://sessions/amazon-q-abc-1234/log');
+
+    expect(contents.mimeType).toBe('application/x-ndjson');
+    expect(contents.text).toContain('TOOL_CALL');
+  });
+
+  it('should read the active session registry', () => {
+    const contents = provider.readResource(ACTIVE_SESSIONS_URI);
+
+    expect(Object.keys(JSON.parse(contents.text))).toEqual(['amazon-q-abc-1234']);
+  });
+
+  it('should list and read files in a conversation directory', () => {
+    const listing = JSON.parse(provider.readResource('amazonq://conversations/client-1').text);
+    const fileUri = listing.files[0].uri;
+
+    expect(fileUri).toBe('amazonq://conversations/client-1/files/notes.txt');
+    expect(provider.readResource(fileUri).text).toBe('hello');
+  });
+
+  it('should reject path traversal in resource URIs', () => {
+    expect(() => provider.readResource('amazonq://sessions/..%2F..%2Fetc/log')).toThrow(/Invalid session ID/);
+    expect(() => provider.readResource('amazonq://conversations/client-1/files/..')).toThrow(/Invalid file name/);
+  });
+
+  it('should reject malformed percent-escapes as invalid parameters', () => {
+    expect(() => provider.readResource('amazonq://sessions/%E0%A4%A/log')).toThrow(expect.objectContaining({ code: ErrorCode.InvalidParams }));
+    expect(() => provider.readResource('amazonq://conversations/client-1/files/%E0%A4%A')).toThrow(/Invalid file name/);
+  });
+
+  it('should report unknown resources as not found', () => {
+    expect(() => provider.readResource('amazonq://sessions/missing/log')).toThrow(/Resource not found/);
+    expect(() => provider.readResource('amazonq://elsewhere')).toThrow(/Resource not found/);
+  });
+
+  it('should publish URI templates', () => {
+    expect(provider.listResourceTemplates().map(t => t.uriTemplate)).toContain('amazonq://sessions/{sessionId}/log');
+  });
+});
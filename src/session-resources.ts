@@ -0,0 +1,231 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { AmazonQSessionLogger } from './session-logger.js';
+
+/**
+ * Session logs, the session registry and per-session conversation directories
+ * published as MCP resources under the amazonq:// scheme
+ */
+
+export const RESOURCE_SCHEME = 'amazonq://';
+export const ACTIVE_SESSIONS_URI = `${RESOURCE_SCHEME}registry/active-sessions`;
+
+export interface ResourceDescriptor {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface ResourceTemplateDescriptor {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+const MAX_LISTED_RESOURCES = 200;
+const MAX_READ_BYTES = 1024 * 1024; // 1MB tail of large files
+
+// Same character set sanitizeSessionId allows; anything else is rejected rather than rewritten
+const SAFE_ID = /^[a-zA-Z0-9-_]{1,50}$/;
+const SAFE_FILE_NAME = /^[a-zA-Z0-9-_.]{1,255}$/;
+
+export const RESOURCE_TEMPLATES: ResourceTemplateDescriptor[] = [
+  {
+    uriTemplate: `${RESOURCE_SCHEME}sessions/{sessionId}/log`,
+    name: 'Server session log',
+    description: 'JSONL activity log written by one server process (tool calls, retries, errors)',
+    mimeType: 'application/x-ndjson',
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}conversations/{sessionId}`,
+    name: 'Conversation directory',
+    description: 'Files in the working directory used for one MCP session\'s Amazon Q conversation',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: `${RESOURCE_SCHEME}conversations/{sessionId}/files/{fileName}`,
+    name: 'Conversation file',
+    description: 'A single file from a conversation directory',
+    mimeType: 'text/plain',
+  },
+];
+
+function notFound(uri: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, `Resource not found: ${uri}`);
+}
+
+// Undefined for a malformed escape such as %E0%A4%A, which decodeURIComponent throws on
+function decodeSegment(segment: string): string | undefined {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return undefined;
+  }
+}
+
+export class SessionResourceProvider {
+  constructor(private dataDir: string) {}
+
+  private get logDir(): string {
+    return path.join(this.dataDir, 'logs', 'sessions');
+  }
+
+  private get sessionsDir(): string {
+    return path.join(this.dataDir, 'sessions');
+  }
+
+  // Entries of a directory, newest first
+  private listByRecency(dir: string, filter: (entry: fs.Dirent) => boolean): { name: string; mtimeMs: number }[] {
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+    return fs.readdirSync(dir, { withFileTypes: true })
+      .filter(filter)
+      .map(entry => ({ name: entry.name, mtimeMs: fs.statSync(path.join(dir, entry.name)).mtimeMs }))
+      .sort((a, b) => b.mtimeMs - a.mtimeMs);
+  }
+
+  listResources(): ResourceDescriptor[] {
+    const resources: ResourceDescriptor[] = [
+      {
+        uri: ACTIVE_SESSIONS_URI,
+        name: 'Active server sessions',
+        description: 'Registry of running Amazon Q MCP server processes',
+        mimeType: 'application/json',
+      },
+    ];
+
+    for (const log of this.listByRecency(this.logDir, entry => entry.isFile() && entry.name.endsWith('.log'))) {
+      const sessionId = log.name.slice(0, -'.log'.length);
+      if (!SAFE_ID.test(sessionId)) continue;
+      resources.push({
+        uri: `${RESOURCE_SCHEME}sessions/${sessionId}/log`,
+        name: `Session log ${sessionId}`,
+        description: `Last written ${new Date(log.mtimeMs).toISOString()}`,
+        mimeType: 'application/x-ndjson',
+      });
+    }
+
+    for (const dir of this.listByRecency(this.sessionsDir, entry => entry.isDirectory())) {
+      if (!SAFE_ID.test(dir.name)) continue;
+      resources.push({
+        uri: `${RESOURCE_SCHEME}conversations/${dir.name}`,
+        name: `Conversation ${dir.name}`,
+        description: `Last used ${new Date(dir.mtimeMs).toISOString()}`,
+        mimeType: 'application/json',
+      });
+    }
+
+    return resources.slice(0, MAX_LISTED_RESOURCES);
+  }
+
+  listResourceTemplates(): ResourceTemplateDescriptor[] {
+    return RESOURCE_TEMPLATES;
+  }
+
+  readResource(uri: string): ResourceContents {
+    if (uri === ACTIVE_SESSIONS_URI) {
+      return {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(AmazonQSessionLogger.getActiveSessions(this.dataDir), null, 2),
+      };
+    }
+
+    const logMatch = uri.match(/^amazonq:\/\/sessions\/([^/]+)\/log$/);
+    if (logMatch) {
+      const sessionId = this.requireSafeId(logMatch[1], uri);
+      const logFile = path.join(this.logDir, `${sessionId}.log`);
+      if (!fs.existsSync(logFile)) {
+        throw notFound(uri);
+      }
+      return { uri, mimeType: 'application/x-ndjson', text: this.readTail(logFile, true) };
+    }
+
+    const dirMatch = uri.match(/^amazonq:\/\/conversations\/([^/]+)$/);
+    if (dirMatch) {
+      const sessionDir = this.requireConversationDir(dirMatch[1], uri);
+      const files = fs.readdirSync(sessionDir, { withFileTypes: true }).map(entry => {
+        const stats = fs.statSync(path.join(sessionDir, entry.name));
+        return {
+          name: entry.name,
+          type: entry.isDirectory() ? 'directory' : 'file',
+          size: stats.size,
+          modified: stats.mtime.toISOString(),
+          uri: entry.isFile() && SAFE_FILE_NAME.test(entry.name)
+            ? `${RESOURCE_SCHEME}conversations/${dirMatch[1]}/files/${entry.name}`
+            : undefined,
+        };
+      });
+      return {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify({ sessionId: dirMatch[1], directory: sessionDir, files }, null, 2),
+      };
+    }
+
+    const fileMatch = uri.match(/^amazonq:\/\/conversations\/([^/]+)\/files\/([^/]+)$/);
+    if (fileMatch) {
+      const sessionDir = this.requireConversationDir(fileMatch[1], uri);
+      const fileName = decodeSegment(fileMatch[2]);
+      if (fileName === undefined || !SAFE_FILE_NAME.test(fileName) || fileName === '.' || fileName === '..') {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid file name in resource URI: ${uri}`);
+      }
+      const filePath = path.join(sessionDir, fileName);
+      if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+        throw notFound(uri);
+      }
+      return { uri, mimeType: fileName.endsWith('.json') ? 'application/json' : 'text/plain', text: this.readTail(filePath, false) };
+    }
+
+    throw notFound(uri);
+  }
+
+  private requireSafeId(id: string, uri: string): string {
+    const decoded = decodeSegment(id);
+    if (decoded === undefined || !SAFE_ID.test(decoded)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid session ID in resource URI: ${uri}`);
+    }
+    return decoded;
+  }
+
+  private requireConversationDir(id: string, uri: string): string {
+    const sessionDir = path.join(this.sessionsDir, this.requireSafeId(id, uri));
+    if (!fs.existsSync(sessionDir) || !fs.statSync(sessionDir).isDirectory()) {
+      throw notFound(uri);
+    }
+    return sessionDir;
+  }
+
+  // Large files are returned from the end, where the most recent activity is
+  private readTail(filePath: string, lineOriented: boolean): string {
+    const size = fs.statSync(filePath).size;
+    if (size <= MAX_READ_BYTES) {
+      return fs.readFileSync(filePath, 'utf8');
+    }
+
+    const buffer = Buffer.alloc(MAX_READ_BYTES);
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      fs.readSync(fd, buffer, 0, MAX_READ_BYTES, size - MAX_READ_BYTES);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    let text = buffer.toString('utf8');
+    if (lineOriented) {
+      // Drop the partial first line so every remaining line is valid JSON
+      text = text.slice(text.indexOf('\n') + 1);
+    }
+    return text;
+  }
+}
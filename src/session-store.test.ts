@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { SessionStore, sanitizeSessionId } from './session-store.js';
+
+describe('SessionStore', () => {
+  let root: string;
+  let store: SessionStore;
+
+  const createSession = (id: string, lastUsedAt?: Date) => {
+    const dir = path.join(root, id);
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, 'state.txt'), 'x'.repeat(10));
+    store.writeMetadata(dir, { createdAt: new Date().toISOString(), lastUsedAt: lastUsedAt?.toISOString() });
+    return dir;
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'amazon-q-sessions-'));
+    store = new SessionStore(root);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should sanitize session IDs', () => {
+    expect(sanitizeSessionId('../../etc/passwd')).toBe('etcpasswd');
+    expect(store.resolveDirectory('a/../b')).toBe(path.join(root, 'ab'));
+  });
+
+  it('should refuse caller-supplied IDs that sanitization would change', () => {
+    createSession('etcpasswd');
+
+    expect(() => store.resolveExistingDirectory('../etcpasswd')).toThrow(/Invalid session ID/);
+    expect(() => store.resolveExistingDirectory('missing')).toThrow(/Session not found/);
+    expect(store.resolveExistingDirectory('etcpasswd')).toBe(path.join(root, 'etcpasswd'));
+  });
+
+  it('should list sessions with sizes, most recently used first', () => {
+    createSession('old', new Date('2024-01-01T00:00:00Z'));
+    createSession('new', new Date('2025-01-01T00:00:00Z'));
+
+    const sessions = store.list();
+
+    expect(sessions.map(s => s.sessionId)).toEqual(['new', 'old']);
+    expect(sessions[0].sizeBytes).toBeGreaterThan(10);
+    expect(sessions[0].fileCount).toBe(2);
+    expect(sessions[0].lastUsedAt).toBe('2025-01-01T00:00:00.000Z');
+  });
+
+  it('should track a pending reset until it is cleared', () => {
+    const dir = createSession('client');
+
+    store.requestReset(dir);
+    expect(store.isResetPending(dir)).toBe(true);
+
+    store.clearReset(dir);
+    expect(store.isResetPending(dir)).toBe(false);
+  });
+
+  it('should prune sessions older than the cutoff', () => {
+    createSession('stale', new Date(Date.now() - 10 * 24 * 60 * 60 * 1000));
+    createSession('fresh', new Date());
+
+    const dryRun = store.prune(7 * 24 * 60 * 60 * 1000, true);
+    expect(dryRun.map(s => s.sessionId)).toEqual(['stale']);
+    expect(fs.existsSync(path.join(root, 'stale'))).toBe(true);
+
+    // A session with a tool call running is never pruned
+    const release = store.markActive(path.join(root, 'stale'));
+    expect(store.prune(7 * 24 * 60 * 60 * 1000)).toEqual([]);
+    release();
+
+    store.prune(7 * 24 * 60 * 60 * 1000);
+    expect(fs.existsSync(path.join(root, 'stale'))).toBe(false);
+    expect(fs.existsSync(path.join(root, 'fresh'))).toBe(true);
+  });
+
+  it('should keep conversation threads in validated subdirectories', () => {
+    const dir = createSession('client');
+
+    expect(store.resolveConversationDirectory(dir, 'thread-1')).toBe(path.join(dir, 'conversations', 'thread-1'));
+    expect(() => store.resolveConversationDirectory(dir, '../other')).toThrow(/Invalid conversation ID/);
+
+    expect(store.ensureDirectory(store.resolveConversationDirectory(dir, 'thread-1'))).toBe(true);
+    expect(store.describe(dir).conversations).toEqual(['thread-1']);
+  });
+
+  it('should fork a conversation with its files and a pending context seed', () => {
+    const dir = createSession('client');
+    const target = store.resolveConversationDirectory(dir, 'branch');
+
+    store.fork(dir, target, 'main');
+
+    expect(fs.readFileSync(path.join(target, 'state.txt'), 'utf8')).toBe('x'.repeat(10));
+    expect(fs.existsSync(path.join(target, 'conversations'))).toBe(false);
+    expect(store.describe(target).forkedFrom).toBe('main');
+    expect(store.isResetPending(target)).toBe(true);
+    expect(store.isSeedPending(target)).toBe(true);
+    expect(() => store.fork(dir, target, 'main')).toThrow(/already exists/);
+
+    store.clearReset(target);
+    expect(store.isSeedPending(target)).toBe(false);
+  });
+});
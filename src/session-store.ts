@@ -0,0 +1,280 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DOWNLOADS_DIR } from './downloads.js';
+
+/**
+ * Per-session working directories under <dataDir>/sessions
+ *
+ * Amazon Q CLI keys its saved conversation on the working directory, so each MCP
+ * session gets its own directory and `q chat --resume` picks up that session's
+ * conversation. A small metadata file next to it records usage and pending resets.
+ */
+
+export const SESSION_METADATA_FILE = '.session.json';
+export const CONVERSATIONS_DIR = 'conversations';
+
+// Conversation IDs name subdirectories directly, so they are validated rather than sanitized
+export const CONVERSATION_ID_PATTERN = /^[a-zA-Z0-9-_]{1,50}$/;
+
+export interface SessionMetadata {
+  createdAt: string;
+  lastUsedAt?: string;
+  // The next q chat call starts a new conversation instead of resuming
+  resetPending?: boolean;
+  resetRequestedAt?: string;
+  // Set on forked conversations: the first call replays the copied transcript as context
+  forkedFrom?: string;
+  seedPending?: boolean;
+  // Project directory Q runs in, for per-working-directory state
+  workingDirectory?: string;
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  directory: string;
+  sizeBytes: number;
+  fileCount: number;
+  createdAt: string;
+  lastUsedAt: string;
+  resetPending: boolean;
+  conversations: string[];
+  forkedFrom?: string;
+}
+
+export function sanitizeSessionId(sessionId: string): string {
+  // Remove any characters that could be used for path traversal
+  return sessionId.replace(/[^a-zA-Z0-9-_]/g, '').substring(0, 50);
+}
+
+export class SessionStore {
+  // Tool calls running per session directory, in this process
+  private active = new Map<string, number>();
+
+  constructor(private root: string) {}
+
+  getRoot(): string {
+    return this.root;
+  }
+
+  /**
+   * Directory for a session ID, after sanitization; does not create it
+   */
+  resolveDirectory(sessionId: string): string {
+    const sanitized = sanitizeSessionId(sessionId);
+    if (!sanitized) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
+    }
+    const directory = path.join(this.root, sanitized);
+
+    // Defense in depth: the sanitized ID can never escape the root
+    const relative = path.relative(this.root, directory);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Invalid session ID: ${sessionId}`);
+    }
+    return directory;
+  }
+
+  /**
+   * Resolve an ID given by a caller; unlike resolveDirectory it refuses IDs that
+   * sanitization would change, so destructive operations never hit a different session
+   */
+  resolveExistingDirectory(sessionId: string): string {
+    if (sanitizeSessionId(sessionId) !== sessionId) {
+      throw new Error(`Invalid session ID '${sessionId}': only letters, digits, '-' and '_' are allowed (max 50)`);
+    }
+    const directory = this.resolveDirectory(sessionId);
+    if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+    return directory;
+  }
+
+  /**
+   * Directory of a named conversation thread inside a session directory; does not create it
+   */
+  resolveConversationDirectory(sessionDir: string, conversationId: string): string {
+    if (!CONVERSATION_ID_PATTERN.test(conversationId)) {
+      throw new Error(`Invalid conversation ID '${conversationId}': only letters, digits, '-' and '_' are allowed (max 50)`);
+    }
+    return path.join(sessionDir, CONVERSATIONS_DIR, conversationId);
+  }
+
+  /**
+   * Create a session or conversation directory with fresh metadata; returns false if it already existed
+   */
+  ensureDirectory(directory: string): boolean {
+    if (fs.existsSync(directory)) {
+      return false;
+    }
+    fs.mkdirSync(directory, { recursive: true });
+    this.writeMetadata(directory, { createdAt: new Date().toISOString() });
+    return true;
+  }
+
+  listConversations(sessionDir: string): string[] {
+    const conversationsDir = path.join(sessionDir, CONVERSATIONS_DIR);
+    if (!fs.existsSync(conversationsDir)) {
+      return [];
+    }
+    return fs.readdirSync(conversationsDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort();
+  }
+
+  /**
+   * Copy a conversation's files into a new thread. Amazon Q's own conversation state
+   * lives outside this directory (keyed on the path), so the new thread starts a fresh
+   * Q conversation seeded with the copied transcript on its first call.
+   */
+  fork(sourceDir: string, targetDir: string, sourceLabel: string): void {
+    if (fs.existsSync(targetDir)) {
+      throw new Error(`Conversation already exists: ${path.basename(targetDir)}`);
+    }
+    fs.mkdirSync(targetDir, { recursive: true });
+
+    for (const entry of fs.readdirSync(sourceDir, { withFileTypes: true })) {
+      // Nested threads, the source's own metadata and downloaded files are not part of the copied state
+      if (entry.name === CONVERSATIONS_DIR || entry.name === SESSION_METADATA_FILE || entry.name === DOWNLOADS_DIR) continue;
+      fs.cpSync(path.join(sourceDir, entry.name), path.join(targetDir, entry.name), { recursive: true });
+    }
+
+    this.writeMetadata(targetDir, {
+      createdAt: new Date().toISOString(),
+      forkedFrom: sourceLabel,
+      resetPending: true,
+      seedPending: true,
+    });
+  }
+
+  isSeedPending(directory: string): boolean {
+    return this.readMetadata(directory).seedPending === true;
+  }
+
+  readMetadata(directory: string): SessionMetadata {
+    const metadataFile = path.join(directory, SESSION_METADATA_FILE);
+    try {
+      return JSON.parse(fs.readFileSync(metadataFile, 'utf8'));
+    } catch {
+      // Directories created before metadata existed fall back to filesystem times
+      const stats = fs.existsSync(directory) ? fs.statSync(directory) : undefined;
+      return { createdAt: (stats?.birthtime ?? new Date()).toISOString() };
+    }
+  }
+
+  writeMetadata(directory: string, metadata: SessionMetadata): void {
+    fs.writeFileSync(path.join(directory, SESSION_METADATA_FILE), JSON.stringify(metadata, null, 2));
+  }
+
+  markUsed(directory: string): void {
+    this.writeMetadata(directory, { ...this.readMetadata(directory), lastUsedAt: new Date().toISOString() });
+  }
+
+  isResetPending(directory: string): boolean {
+    return this.readMetadata(directory).resetPending === true;
+  }
+
+  requestReset(directory: string): void {
+    this.writeMetadata(directory, {
+      ...this.readMetadata(directory),
+      resetPending: true,
+      resetRequestedAt: new Date().toISOString(),
+    });
+  }
+
+  // Called once a fresh conversation has started; also consumes a fork's pending context seed
+  clearReset(directory: string): void {
+    const { resetPending, resetRequestedAt, seedPending, ...metadata } = this.readMetadata(directory);
+    this.writeMetadata(directory, metadata);
+  }
+
+  describe(directory: string): SessionSummary {
+    const metadata = this.readMetadata(directory);
+    const { sizeBytes, fileCount, newestMtimeMs } = this.measure(directory);
+    return {
+      sessionId: path.basename(directory),
+      directory,
+      sizeBytes,
+      fileCount,
+      createdAt: metadata.createdAt,
+      lastUsedAt: metadata.lastUsedAt ?? new Date(newestMtimeMs).toISOString(),
+      resetPending: metadata.resetPending === true,
+      conversations: this.listConversations(directory),
+      ...(metadata.forkedFrom ? { forkedFrom: metadata.forkedFrom } : {}),
+    };
+  }
+
+  list(): SessionSummary[] {
+    if (!fs.existsSync(this.root)) {
+      return [];
+    }
+    return fs.readdirSync(this.root, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => this.describe(path.join(this.root, entry.name)))
+      .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  }
+
+  /**
+   * Marks a session as in use by a running tool call until the returned
+   * function is called; prune leaves sessions in use alone
+   */
+  markActive(directory: string): () => void {
+    this.active.set(directory, (this.active.get(directory) ?? 0) + 1);
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const count = this.active.get(directory)! - 1;
+      if (count > 0) {
+        this.active.set(directory, count);
+      } else {
+        this.active.delete(directory);
+      }
+    };
+  }
+
+  isActive(directory: string): boolean {
+    return this.active.has(directory);
+  }
+
+  delete(directory: string): void {
+    fs.rmSync(directory, { recursive: true, force: true });
+  }
+
+  /**
+   * Sessions not used for longer than maxAgeMs and not in use; deleted unless dryRun
+   */
+  prune(maxAgeMs: number, dryRun: boolean = false): SessionSummary[] {
+    const cutoff = Date.now() - maxAgeMs;
+    const stale = this.list().filter(session => Date.parse(session.lastUsedAt) < cutoff && !this.isActive(session.directory));
+    if (!dryRun) {
+      for (const session of stale) {
+        this.delete(session.directory);
+      }
+    }
+    return stale;
+  }
+
+  private measure(directory: string): { sizeBytes: number; fileCount: number; newestMtimeMs: number } {
+    let sizeBytes = 0;
+    let fileCount = 0;
+    let newestMtimeMs = fs.statSync(directory).mtimeMs;
+
+    const walk = (dir: string) => {
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          walk(entryPath);
+        } else if (entry.isFile()) {
+          const stats = fs.statSync(entryPath);
+          sizeBytes += stats.size;
+          fileCount++;
+          newestMtimeMs = Math.max(newestMtimeMs, stats.mtimeMs);
+        }
+      }
+    };
+    walk(directory);
+
+    return { sizeBytes, fileCount, newestMtimeMs };
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { TRANSCRIPT_FILE, appendTranscript, buildContextPreamble, queryTranscript, readTranscript } from './transcript.js';
+
+describe('transcript', () => {
+  let sessionDir: string;
+
+  beforeEach(() => {
+    sessionDir = fs.mkdtempSync(path.join(os.tmpdir(), 'amazon-q-transcript-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(sessionDir, { recursive: true, force: true });
+  });
+
+  it('should append and read back entries in order', () => {
+    appendTranscript(sessionDir, { tool: 'ask_q', prompt: 'What is S3?', response: 'Object storage', durationMs: 10 });
+    appendTranscript(sessionDir, { tool: 'q_translate', prompt: 'list files', response: 'ls', durationMs: 5 });
+
+    const entries = readTranscript(sessionDir);
+
+    expect(entries.map(e => e.prompt)).toEqual(['What is S3?', 'list files']);
+    expect(entries[0].id).toBeTruthy();
+    expect(entries[0].timestamp).toBeTruthy();
+  });
+
+  it('should skip torn lines', () => {
+    appendTranscript(sessionDir, { tool: 'ask_q', prompt: 'ok', durationMs: 1 });
+    fs.appendFileSync(path.join(sessionDir, TRANSCRIPT_FILE), '{"tool":"ask_q","pro');
+
+    expect(readTranscript(sessionDir)).toHaveLength(1);
+  });
+
+  it('should return the last N matching turns', () => {
+    for (let i = 1; i <= 5; i++) {
+      appendTranscript(sessionDir, { tool: 'ask_q', prompt: `question ${i}`, response: i % 2 ? 'Lambda' : 'EC2', durationMs: 1 });
+    }
+    appendTranscript(sessionDir, { tool: 'q_translate', prompt: 'lambda list', response: 'aws lambda list-functions', durationMs: 1 });
+    const entries = readTranscript(sessionDir);
+
+    expect(queryTranscript(entries, { limit: 2 }).map(e => e.prompt)).toEqual(['question 5', 'lambda list']);
+    expect(queryTranscript(entries, { limit: 10, query: 'LAMBDA', tool: 'ask_q' }).map(e => e.prompt))
+      .toEqual(['question 1', 'question 3', 'question 5']);
+  });
+
+  it('should build a context preamble from the most recent successful turns', () => {
+    appendTranscript(sessionDir, { tool: 'ask_q', prompt: 'first', response: 'a'.repeat(100), durationMs: 1 });
+    appendTranscript(sessionDir, { tool: 'ask_q', prompt: 'failed', durationMs: 1, errorType: 'NETWORK_ERROR' });
+    appendTranscript(sessionDir, { tool: 'ask_q', prompt: 'second', response: 'Use IAM roles', durationMs: 1 });
+    const entries = readTranscript(sessionDir);
+
+    const preamble = buildContextPreamble(entries, 60);
+
+    expect(preamble).toContain('User: second\n\nAmazon Q: Use IAM roles');
+    expect(preamble).not.toContain('first');
+    expect(preamble).not.toContain('failed');
+    expect(buildContextPreamble([], 60)).toBe('');
+  });
+});
@@ -0,0 +1,104 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+
+/**
+ * Conversation transcripts
+ *
+ * Every ask_q / q_translate exchange is appended as one JSON line to
+ * transcript.jsonl in the session directory, so earlier answers can be recalled
+ * with q_history without asking Amazon Q again.
+ */
+
+export const TRANSCRIPT_FILE = 'transcript.jsonl';
+
+export interface TranscriptEntry {
+  id: string;
+  timestamp: string;
+  tool: string;
+  prompt: string;
+  model?: string;
+  agent?: string;
+  // Files attached as context, as labelled in the prompt
+  files?: string[];
+  // Answered from the response cache without running q
+  cached?: boolean;
+  response?: string;
+  durationMs: number;
+  errorType?: string;
+  errorMessage?: string;
+}
+
+export interface TranscriptQuery {
+  limit: number;
+  query?: string;
+  tool?: string;
+}
+
+export function appendTranscript(sessionDir: string, entry: Omit<TranscriptEntry, 'id' | 'timestamp'>): TranscriptEntry {
+  const record: TranscriptEntry = {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    ...entry,
+  };
+  fs.appendFileSync(path.join(sessionDir, TRANSCRIPT_FILE), JSON.stringify(record) + '\n');
+  return record;
+}
+
+export function readTranscript(sessionDir: string): TranscriptEntry[] {
+  const transcriptFile = path.join(sessionDir, TRANSCRIPT_FILE);
+  if (!fs.existsSync(transcriptFile)) {
+    return [];
+  }
+
+  const entries: TranscriptEntry[] = [];
+  for (const line of fs.readFileSync(transcriptFile, 'utf8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Skip a line torn by a crash mid-write
+    }
+  }
+  return entries;
+}
+
+/**
+ * The last `limit` turns, oldest first, optionally filtered by tool and by a
+ * case-insensitive search over prompt and response
+ */
+export function queryTranscript(entries: TranscriptEntry[], query: TranscriptQuery): TranscriptEntry[] {
+  const needle = query.query?.toLowerCase();
+  const matches = entries.filter(entry =>
+    (!query.tool || entry.tool === query.tool) &&
+    (!needle ||
+      entry.prompt.toLowerCase().includes(needle) ||
+      (entry.response ?? '').toLowerCase().includes(needle))
+  );
+  return matches.slice(-query.limit);
+}
+
+/**
+ * Context block replayed as the first prompt of a forked conversation: the most
+ * recent successful exchanges that fit in maxChars, oldest first
+ */
+export function buildContextPreamble(entries: TranscriptEntry[], maxChars: number): string {
+  const turns: string[] = [];
+  let used = 0;
+
+  for (const entry of [...entries].reverse()) {
+    if (entry.errorType || entry.response === undefined || entry.tool === 'q_translate') continue;
+    const turn = `User: ${entry.prompt}\n\nAmazon Q: ${entry.response.trim()}`;
+    if (used + turn.length > maxChars) break;
+    turns.unshift(turn);
+    used += turn.length;
+  }
+
+  if (turns.length === 0) {
+    return '';
+  }
+
+  return 'This conversation continues an earlier one. Earlier exchanges, for context:\n\n' +
+    turns.join('\n\n---\n\n') +
+    '\n\n=== End of earlier context ===\n\n';
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { parseTranslation } from './translation.js';
+
+describe('parseTranslation', () => {
+  it('should take commands from a fenced shell block and prose as explanation', () => {
+    const result = parseTranslation('This removes build output:\n\n```zsh\nrm -rf dist\nnpm run build\n```');
+
+    expect(result.commands.map(entry => entry.command)).toEqual(['rm -rf dist', 'npm run build']);
+    expect(result.command).toBe('rm -rf dist\nnpm run build');
+    expect(result.explanation).toBe('This removes build output:');
+    expect(result.shell).toBe('zsh');
+    expect(result.risk.level).toBe('high');
+  });
+
+  it('should parse the labelled form and drop the action menu', () => {
+    const result = parseTranslation('Shell · find . -name "*.py"\n\n❯ Execute command\n  Edit command\n  Cancel');
+
+    expect(result.command).toBe('find . -name "*.py"');
+    expect(result.explanation).toBeNull();
+    expect(result.risk).toEqual({ level: 'none', findings: [] });
+  });
+
+  it('should separate plain commands from sentences and comments', () => {
+    const result = parseTranslation('du -sh * | sort -h\n# Sizes of entries in the current directory\nThe largest entries are listed last.');
+
+    expect(result.command).toBe('du -sh * | sort -h');
+    expect(result.explanation).toBe('Sizes of entries in the current directory\n\nThe largest entries are listed last.');
+  });
+});
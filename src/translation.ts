@@ -0,0 +1,147 @@
+import * as path from 'path';
+import { RiskAssessment, RiskLevel, analyzeCommandRisk, compareRisk } from './command-risk.js';
+import { splitCodeBlocks } from './output-normalizer.js';
+import { TOOL_ERROR_SCHEMA } from './errors.js';
+
+/**
+ * Structured q_translate results
+ *
+ * `q translate` prints the command, sometimes inside a fenced block or behind a
+ * "Shell · " label, sometimes followed by the CLI's action menu or a short
+ * explanation. This separates the command lines from everything else.
+ */
+
+export type TranslatedCommand = {
+  command: string;
+  risk: RiskAssessment;
+};
+
+export type TranslationResult = {
+  command: string;
+  commands: TranslatedCommand[];
+  explanation: string | null;
+  shell: string;
+  risk: RiskAssessment;
+};
+
+const SHELL_LANGUAGES = new Set(['bash', 'sh', 'zsh', 'fish', 'ksh', 'powershell', 'pwsh', 'cmd', 'shell', 'console']);
+
+// The interactive menu q translate draws under the command
+const MENU_LINE = /^[❯>]?\s*(?:Execute command|Edit command|Regenerate answer|Ask another question|Cancel)$/;
+
+const RISK_SCHEMA = {
+  type: 'object',
+  properties: {
+    level: { type: 'string', enum: ['none', 'low', 'medium', 'high', 'critical'] },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          rule: { type: 'string' },
+          severity: { type: 'string', enum: ['low', 'medium', 'high', 'critical'] },
+          description: { type: 'string' },
+          match: { type: 'string' },
+        },
+        required: ['rule', 'severity', 'description', 'match'],
+      },
+    },
+  },
+  required: ['level', 'findings'],
+};
+
+const TRANSLATION_RESULT_SCHEMA = {
+  type: 'object',
+  properties: {
+    translationId: { type: 'string', description: 'Pass to q_run_command to execute this translation' },
+    command: { type: 'string', description: 'All commands joined by newlines, ready to run' },
+    commands: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          command: { type: 'string' },
+          risk: RISK_SCHEMA,
+        },
+        required: ['command', 'risk'],
+      },
+    },
+    explanation: { type: ['string', 'null'], description: 'Text Amazon Q gave besides the commands' },
+    shell: { type: 'string', description: 'Shell the commands are written for' },
+    risk: { ...RISK_SCHEMA, description: 'Highest severity over all commands, with every finding' },
+  },
+  required: ['translationId', 'command', 'commands', 'explanation', 'shell', 'risk'],
+};
+
+// Failed calls carry the error payload instead (isError: true)
+export const TRANSLATION_OUTPUT_SCHEMA = {
+  type: 'object',
+  anyOf: [TRANSLATION_RESULT_SCHEMA, TOOL_ERROR_SCHEMA],
+};
+
+// A sentence rather than a command: capitalised words ending in punctuation
+function looksLikeProse(line: string): boolean {
+  return /^[A-Z][a-z]/.test(line) && /[.:!?]$/.test(line) && line.split(/\s+/).length >= 4;
+}
+
+export function defaultShell(): string {
+  return process.env.SHELL ? path.basename(process.env.SHELL) : 'sh';
+}
+
+/**
+ * Parse cleaned q translate output (see normalizeOutput)
+ */
+export function parseTranslation(output: string): TranslationResult {
+  const segments = splitCodeBlocks(output);
+  const codeBlocks = segments.filter(segment => segment.kind === 'code');
+  const shellBlocks = codeBlocks.filter(block => !block.language || SHELL_LANGUAGES.has(block.language.toLowerCase()));
+
+  let commandLines: string[];
+  let explanationLines: string[];
+  let shell = defaultShell();
+
+  if (shellBlocks.length > 0) {
+    commandLines = shellBlocks.flatMap(block => block.code.split('\n'));
+    explanationLines = segments.filter(segment => segment.kind === 'prose').map(segment => segment.text);
+    const language = shellBlocks.find(block => block.language)?.language;
+    if (language && !['shell', 'console'].includes(language.toLowerCase())) {
+      shell = language.toLowerCase();
+    }
+  } else {
+    commandLines = [];
+    explanationLines = [];
+    for (const rawLine of output.split('\n')) {
+      const line = rawLine.trim();
+      if (!line || MENU_LINE.test(line)) continue;
+      const labelled = line.match(/^Shell\s*[·:]\s*(.*)$/);
+      if (labelled) {
+        commandLines.push(labelled[1]);
+      } else if (line.startsWith('#')) {
+        explanationLines.push(line.replace(/^#+\s*/, ''));
+      } else if (looksLikeProse(line) && !/\\$/.test(commandLines[commandLines.length - 1] ?? '')) {
+        explanationLines.push(line);
+      } else {
+        commandLines.push(line);
+      }
+    }
+  }
+
+  const commands = commandLines
+    .map(line => line.trimEnd())
+    .filter(line => line.trim() && !line.trim().startsWith('#'))
+    .map(command => ({ command, risk: analyzeCommandRisk(command) }));
+
+  const allFindings = commands.flatMap(entry => entry.risk.findings);
+  const level = commands.reduce<RiskLevel>(
+    (highest, entry) => compareRisk(entry.risk.level, highest) > 0 ? entry.risk.level : highest,
+    'none'
+  );
+
+  return {
+    command: commands.map(entry => entry.command).join('\n'),
+    commands,
+    explanation: explanationLines.length > 0 ? explanationLines.join('\n\n') : null,
+    shell,
+    risk: { level, findings: allFindings },
+  };
+}
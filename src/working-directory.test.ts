@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { WorkingDirectoryOwners, getWorkdirStateDirectory, resolveWorkingDirectory } from './working-directory.js';
+
+describe('working directories', () => {
+  let tmpDir: string;
+  let root: string;
+  let outside: string;
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'amazon-q-workdir-')));
+    root = path.join(tmpDir, 'projects');
+    outside = path.join(tmpDir, 'secrets');
+    fs.mkdirSync(path.join(root, 'app', 'src'), { recursive: true });
+    fs.mkdirSync(outside);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should accept directories inside an allowed root', () => {
+    expect(resolveWorkingDirectory(path.join(root, 'app'), [root])).toBe(path.join(root, 'app'));
+    expect(resolveWorkingDirectory(root, [root])).toBe(root);
+  });
+
+  it('should refuse traversal, relative paths and missing roots', () => {
+    expect(() => resolveWorkingDirectory(path.join(root, 'app', '..', '..', 'secrets'), [root])).toThrow(/outside the allowed roots/);
+    expect(() => resolveWorkingDirectory('projects/app', [root])).toThrow(/absolute path/);
+    expect(() => resolveWorkingDirectory(path.join(root, 'missing'), [root])).toThrow(/does not exist/);
+    expect(() => resolveWorkingDirectory(path.join(root, 'app'), [])).toThrow(/no allowedRoots/);
+  });
+
+  it('should refuse symlinks that point outside the allowed roots', () => {
+    fs.symlinkSync(outside, path.join(root, 'app', 'link'));
+
+    expect(() => resolveWorkingDirectory(path.join(root, 'app', 'link'), [root])).toThrow(/outside the allowed roots/);
+  });
+
+  it('should not treat a sibling with a common prefix as inside the root', () => {
+    fs.mkdirSync(`${root}-other`);
+
+    expect(() => resolveWorkingDirectory(`${root}-other`, [root])).toThrow(/outside the allowed roots/);
+  });
+
+  it('should keep separate state per directory and track the last owner', () => {
+    const scope = path.join(tmpDir, 'sessions', 'a');
+    const stateA = getWorkdirStateDirectory(scope, path.join(root, 'app'));
+    const owners = new WorkingDirectoryOwners(path.join(tmpDir, 'owners.json'));
+
+    expect(stateA).not.toBe(getWorkdirStateDirectory(scope, path.join(root, 'app', 'src')));
+    expect(owners.ownerOf(path.join(root, 'app'))).toBeUndefined();
+
+    owners.claim(path.join(root, 'app'), stateA);
+    expect(owners.ownerOf(path.join(root, 'app'))).toBe(stateA);
+  });
+});
@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+/**
+ * Project working directories for ask_q
+ *
+ * Amazon Q CLI saves one conversation per working directory, so when several
+ * sessions run Q inside the same project they overwrite each other's saved
+ * conversation. Each (session, directory) pair therefore keeps its own state
+ * directory with metadata and transcript, and a small owner file records which
+ * state directory last ran Q in a project. A caller that is not the owner can no
+ * longer resume and starts a new Q conversation seeded from its own transcript.
+ */
+
+export const WORKDIRS_DIR = 'workdirs';
+export const WORKDIR_OWNERS_FILE = 'workdir-owners.json';
+
+interface OwnerRecord {
+  stateDir: string;
+  claimedAt: string;
+}
+
+function isInside(root: string, candidate: string): boolean {
+  const relative = path.relative(root, candidate);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Resolve a requested path to its real path and check it lies inside one of the
+ * allowed roots. Symlinks are resolved before the check, so a link inside a root
+ * that points outside it is refused.
+ */
+export function resolveAllowedPath(requested: string, allowedRoots: string[], label: string = 'path'): string {
+  if (allowedRoots.length === 0) {
+    throw new Error(`${label} is disabled: no allowedRoots are configured`);
+  }
+  if (!path.isAbsolute(requested)) {
+    throw new Error(`${label} must be an absolute path: ${requested}`);
+  }
+
+  let realPath: string;
+  try {
+    realPath = fs.realpathSync(requested);
+  } catch {
+    throw new Error(`${label} does not exist: ${requested}`);
+  }
+
+  // Roots are compared by real path too; roots that do not exist allow nothing
+  const realRoots = allowedRoots.flatMap(root => {
+    try {
+      return [fs.realpathSync(root)];
+    } catch {
+      return [];
+    }
+  });
+  if (!realRoots.some(root => isInside(root, realPath))) {
+    throw new Error(`${label} is outside the allowed roots: ${requested}`);
+  }
+  return realPath;
+}
+
+export function resolveWorkingDirectory(requested: string, allowedRoots: string[]): string {
+  const realDir = resolveAllowedPath(requested, allowedRoots, 'workingDirectory');
+  if (!fs.statSync(realDir).isDirectory()) {
+    throw new Error(`workingDirectory is not a directory: ${requested}`);
+  }
+  return realDir;
+}
+
+/**
+ * State directory of one working directory inside a session or conversation directory
+ */
+export function getWorkdirStateDirectory(scopeDir: string, realDir: string): string {
+  const key = createHash('sha256').update(realDir).digest('hex').substring(0, 16);
+  return path.join(scopeDir, WORKDIRS_DIR, key);
+}
+
+export class WorkingDirectoryOwners {
+  constructor(private filePath: string) {}
+
+  private read(): Record<string, OwnerRecord> {
+    try {
+      return JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch {
+      return {};
+    }
+  }
+
+  ownerOf(realDir: string): string | undefined {
+    return this.read()[realDir]?.stateDir;
+  }
+
+  claim(realDir: string, stateDir: string): void {
+    const owners = this.read();
+    owners[realDir] = { stateDir, claimedAt: new Date().toISOString() };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(owners, null, 2));
+  }
+}